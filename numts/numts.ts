@@ -1,8 +1,27 @@
 import {tensor} from "./tensor";
 import {array, zeros, ones, arange, from_nested_array, eye, from_iterable, from_json, filled} from './tensor_core/constructors';
+import {einsum, rearrange, reduce, repeat} from './tensor_core/einstein';
+import {outer, inner, kron, cross} from './tensor_core/binary_ops';
+import {complex, real, imag, conj, abs, angle} from './tensor_core/complex';
+import {result_type, can_cast} from './tensor_core/dtypes';
+import {exp, log, log1p, expm1, sqrt, cbrt, sin, cos, tan, arcsin, arccos, arctan, sinh, cosh, tanh, arcsinh, arccosh, arctanh,
+    sign, floor, ceil, round, trunc, isnan, isinf, isfinite} from './tensor_core/ufuncs';
+import * as linalg from './tensor_core/linalg';
+import * as fft from './tensor_core/fft';
+import {indexing} from './tensor_core/indexing';
+import ELLIPSIS = indexing.ELLIPSIS;
+import NEWAXIS = indexing.NEWAXIS;
 
 
 export {array, zeros, ones, arange, from_nested_array, eye, from_iterable, from_json, filled};
+export {einsum, rearrange, reduce, repeat};
+export {outer, inner, kron, cross};
+export {complex, real, imag, conj, abs, angle};
+export {result_type, can_cast};
+export {exp, log, log1p, expm1, sqrt, cbrt, sin, cos, tan, arcsin, arccos, arctan, sinh, cosh, tanh, arcsinh, arccosh, arctanh,
+    sign, floor, ceil, round, trunc, isnan, isinf, isfinite};
+export {ELLIPSIS, NEWAXIS};
+export {linalg, fft};
 
 
 export {tensor as tensor};
@@ -5,7 +5,10 @@ import * as aggregation from './tensor_core/aggregation';
 import * as constructors from './tensor_core/constructors';
 import * as functional from './tensor_core/functional';
 import * as transformations from './tensor_core/transformations';
+import * as complex from './tensor_core/complex';
+import * as ufuncs from './tensor_core/ufuncs';
 import new_shape_from_axis = indexing.new_shape_from_axis;
+import {Stride, USlice} from './types';
 
 export type TypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array | Int32Array | Uint32Array | Float32Array | Float64Array;
 type Numeric = TypedArray | number[];
@@ -26,6 +29,26 @@ export interface ArrayOptions {
     disable_checks?: boolean
 }
 
+/**
+ * Which conversions between dtypes are allowed.
+ * 'safe' only allows conversions that preserve every value, 'same_kind' also allows conversions within a kind (e.g. float64 to float32),
+ * and 'unsafe' allows anything.
+ */
+export type Casting = 'safe' | 'same_kind' | 'unsafe';
+
+/**
+ * What happens when the result of an integer operation doesn't fit in its dtype.
+ * 'wrap' keeps the low bits like the underlying typed arrays do, 'saturate' clamps to the range of the dtype,
+ * and 'error' throws an IntegerOverflow error.
+ */
+export type Overflow = 'wrap' | 'saturate' | 'error';
+
+export interface OperationOptions {
+    dtype?: string
+    casting?: Casting
+    overflow?: Overflow
+}
+
 export namespace errors {
     export class MismatchedSizes extends Error {
         constructor() {
@@ -51,14 +74,58 @@ export namespace errors {
     export class MismatchedShapeSize extends Error { }
     export class WrongIterableSize extends Error { }
     export class NestedArrayHasInconsistentDimensions extends Error { }
+    /**
+     * An index was outside the bounds of the axis it indexes.
+     */
+    export class IndexOutOfBounds extends Error {
+        constructor(index: number, axis: number, size: number) {
+            super(`Index ${index} is out of bounds for axis ${axis} with size ${size}.`);
+        }
+    }
+    /**
+     * Tried to invert or solve with a singular matrix.
+     */
+    export class SingularMatrix extends Error {
+        constructor() {
+            super('Matrix is singular.');
+        }
+    }
+    /**
+     * Tried to take the Cholesky decomposition of a matrix that isn't positive definite.
+     */
+    export class NotPositiveDefinite extends Error {
+        constructor() {
+            super('Matrix is not positive definite.');
+        }
+    }
+    /**
+     * An iterative algorithm did not converge.
+     */
+    export class DidNotConverge extends Error { }
+    /**
+     * The result of an integer operation didn't fit in its dtype.
+     */
+    export class IntegerOverflow extends Error {
+        constructor(value: number | bigint, dtype: string) {
+            super(`Integer overflow: ${value} does not fit in ${dtype}.`);
+        }
+    }
+    /**
+     * Tried to convert between dtypes in a way the casting rule doesn't allow.
+     */
+    export class CastingError extends Error {
+        constructor(from: string, to: string, casting: string) {
+            super(`Cannot cast from ${from} to ${to} with casting rule '${casting}'.`);
+        }
+    }
 }
 
 export class tensor {
 
     public data;
-    readonly offset: Uint32Array;
-    readonly stride: Uint32Array;
-    readonly dstride: Uint32Array;
+    readonly offset: Int32Array;
+    readonly stride: Int32Array;
+    readonly dstride: Int32Array;
     readonly initial_offset: number;
     readonly shape: Uint32Array;
     readonly length: number;
@@ -69,9 +136,9 @@ export class tensor {
      *
      * @param data
      * @param {Uint32Array} shape     - The shape of the array.
-     * @param {Uint32Array} offset    - The offset of the array from the start of the underlying data.
-     * @param {Uint32Array} stride    - The stride of the array.
-     * @param {Uint32Array} dstride   - The stride of the underlying data.
+     * @param {Stride} offset        - The offset of the array from the start of the underlying data.
+     * @param {Stride} stride        - The stride of the array. Negative along reversed axes.
+     * @param {Stride} dstride       - The stride of the underlying data.
      * @param {number} size           - The number of elements in the array.
      * @param {string} dtype          -
      * @param {boolean} is_view       -
@@ -80,21 +147,24 @@ export class tensor {
      */
     constructor(data,
         shape: Uint32Array,
-        offset: Uint32Array,
-        stride: Uint32Array,
-        dstride: Uint32Array,
+        offset: Stride,
+        stride: Stride,
+        dstride: Stride,
         size: number,
         dtype?: string,
         is_view?: boolean,
         initial_offset?: number) {
         this.shape = shape;
-        this.offset = offset;
-        this.stride = stride;
+        this.offset = offset instanceof Int32Array ? offset : Int32Array.from(offset);
+        this.stride = stride instanceof Int32Array ? stride : Int32Array.from(stride);
         this.length = size;
-        this.dstride = dstride;
+        this.dstride = dstride instanceof Int32Array ? dstride : Int32Array.from(dstride);
         if (dtype !== undefined) {
             const array_type = utils.dtype_map(dtype);
-            if (!(data instanceof array_type)) {
+            if (!(data instanceof array_type) && (utils.is_bigint_dtype(dtype) || utils.is_half(dtype) || typeof data[0] === 'bigint')) {
+                // Typed arrays can't convert between numbers and BigInts, or encode half precision values, themselves.
+                this.data = array_type.from(data, e => utils.to_dtype_value(e, dtype));
+            } else if (!(data instanceof array_type)) {
                 this.data = new array_type(data);
             } else {
                 this.data = data;
@@ -110,9 +180,11 @@ export class tensor {
 
     /**
      * Return a copy of the tensor cast to the specified type.
+     * @param {string} dtype      - The new dtype.
+     * @param {Casting} casting   - Which conversions are allowed. Defaults to 'unsafe', which allows anything.
      */
-    as_type(dtype: string): tensor {
-        return transformations._as_type(this, dtype);
+    as_type(dtype: string, casting: Casting = 'unsafe'): tensor {
+        return transformations._as_type(this, dtype, casting);
     }
 
     /**
@@ -131,24 +203,255 @@ export class tensor {
      * @return {tensor | number}
      */
     cumprod(axis?: number, dtype?: string): tensor | number {
+        complex._check_real('cumprod', this);
         return this.accum_map((acc, b) => acc * b, axis, 1, dtype);
     }
 
     /**
-     * The cumulative sum of the array along the given axis.
+     * The cumulative sum of the array along the given axis. The parts of complex tensors are summed separately.
      * @param {number} axis
-     * @param {string} dtype
+     * @param {string} dtype - Defaults to the dtype of the array, except that bool arrays are counted in int32.
      */
     cumsum(axis?: number, dtype?: string): tensor | number {
+        if (dtype === undefined && this.dtype === 'bool') {
+            dtype = 'int32';
+        }
+        if (utils.is_complex(this.dtype)) {
+            const re = <tensor> complex.real(this).cumsum(axis);
+            const im = <tensor> complex.imag(this).cumsum(axis);
+            return complex.complex(re, im, dtype === undefined ? this.dtype : dtype);
+        }
         return this.accum_map((acc, b) => acc + b, axis, undefined, dtype);
     }
 
     diagonal() { }
 
+    /**
+     * The real part of this tensor. A view for complex tensors.
+     */
+    real(): tensor {
+        return complex.real(this);
+    }
+
+    /**
+     * The imaginary part of this tensor. A view for complex tensors.
+     */
+    imag(): tensor {
+        return complex.imag(this);
+    }
+
+    /**
+     * The complex conjugate of this tensor.
+     */
+    conj(): tensor {
+        return complex.conj(this);
+    }
+
+    /**
+     * The absolute value of each element. The magnitude for complex tensors.
+     */
+    abs(): tensor {
+        return complex.abs(this);
+    }
+
+    /**
+     * The angle of each element in the complex plane, in radians.
+     */
+    angle(): tensor {
+        return complex.angle(this);
+    }
+
+    // #region UFUNCS
+
+        /**
+         * e to the power of each element.
+         */
+        exp(): tensor {
+            return ufuncs.exp(this);
+        }
+
+        /**
+         * The natural logarithm of each element.
+         */
+        log(): tensor {
+            return ufuncs.log(this);
+        }
+
+        /**
+         * log(1 + x) for each element, accurate for small x.
+         */
+        log1p(): tensor {
+            return ufuncs.log1p(this);
+        }
+
+        /**
+         * exp(x) - 1 for each element, accurate for small x.
+         */
+        expm1(): tensor {
+            return ufuncs.expm1(this);
+        }
+
+        /**
+         * The square root of each element.
+         */
+        sqrt(): tensor {
+            return ufuncs.sqrt(this);
+        }
+
+        /**
+         * The cube root of each element.
+         */
+        cbrt(): tensor {
+            return ufuncs.cbrt(this);
+        }
+
+        /**
+         * The sine of each element, in radians.
+         */
+        sin(): tensor {
+            return ufuncs.sin(this);
+        }
+
+        /**
+         * The cosine of each element, in radians.
+         */
+        cos(): tensor {
+            return ufuncs.cos(this);
+        }
+
+        /**
+         * The tangent of each element, in radians.
+         */
+        tan(): tensor {
+            return ufuncs.tan(this);
+        }
+
+        /**
+         * The inverse sine of each element.
+         */
+        arcsin(): tensor {
+            return ufuncs.arcsin(this);
+        }
+
+        /**
+         * The inverse cosine of each element.
+         */
+        arccos(): tensor {
+            return ufuncs.arccos(this);
+        }
+
+        /**
+         * The inverse tangent of each element.
+         */
+        arctan(): tensor {
+            return ufuncs.arctan(this);
+        }
+
+        /**
+         * The hyperbolic sine of each element.
+         */
+        sinh(): tensor {
+            return ufuncs.sinh(this);
+        }
+
+        /**
+         * The hyperbolic cosine of each element.
+         */
+        cosh(): tensor {
+            return ufuncs.cosh(this);
+        }
+
+        /**
+         * The hyperbolic tangent of each element.
+         */
+        tanh(): tensor {
+            return ufuncs.tanh(this);
+        }
+
+        /**
+         * The inverse hyperbolic sine of each element.
+         */
+        arcsinh(): tensor {
+            return ufuncs.arcsinh(this);
+        }
+
+        /**
+         * The inverse hyperbolic cosine of each element.
+         */
+        arccosh(): tensor {
+            return ufuncs.arccosh(this);
+        }
+
+        /**
+         * The inverse hyperbolic tangent of each element.
+         */
+        arctanh(): tensor {
+            return ufuncs.arctanh(this);
+        }
+
+        /**
+         * The sign of each element.
+         */
+        sign(): tensor {
+            return ufuncs.sign(this);
+        }
+
+        /**
+         * Round each element down to the nearest integer.
+         */
+        floor(): tensor {
+            return ufuncs.floor(this);
+        }
+
+        /**
+         * Round each element up to the nearest integer.
+         */
+        ceil(): tensor {
+            return ufuncs.ceil(this);
+        }
+
+        /**
+         * Round each element to the given number of decimals, rounding halves to even.
+         * @param {number} decimals - The number of decimal places. Negative values round to the left of the decimal point.
+         */
+        round(decimals: number = 0): tensor {
+            return ufuncs.round(this, decimals);
+        }
+
+        /**
+         * Round each element towards zero.
+         */
+        trunc(): tensor {
+            return ufuncs.trunc(this);
+        }
+
+        /**
+         * Whether each element is NaN, as a bool tensor.
+         */
+        isnan(): tensor {
+            return ufuncs.isnan(this);
+        }
+
+        /**
+         * Whether each element is infinite, as a bool tensor.
+         */
+        isinf(): tensor {
+            return ufuncs.isinf(this);
+        }
+
+        /**
+         * Whether each element is neither infinite nor NaN, as a bool tensor.
+         */
+        isfinite(): tensor {
+            return ufuncs.isfinite(this);
+        }
+
+    // #endregion UFUNCS
+
     //#region METHOD CONSTRUCTORS
 
         /**
-         * Create a copy of this with a different shape.
+         * Give this a different shape. Returns a view when possible, and a copy otherwise.
          * @param {Uint32Array} new_shape - The shape to make the new array.
          * @return {tensor}             - The reshaped array.
          */
@@ -172,10 +475,26 @@ export class tensor {
         }
 
         /**
-         * Return the transpose of this array.
+         * Returns the logical negation of this array as a bool tensor.
+         */
+        logical_not(): tensor {
+            return transformations._logical_not(this);
+        }
+
+        /**
+         * Return a view of this array with its axes permuted.
+         * @param axes - The new order of the axes. Reverses the axes if not passed.
          */
-        transpose(): tensor {
-            return transformations._transpose(this);
+        transpose(...axes: number[]): tensor {
+            return transformations._transpose(this, ...axes);
+        }
+
+        /**
+         * Return a view of this array with the elements along an axis in reverse order.
+         * @param {number} axis - The axis to reverse. Reverses every axis if not passed.
+         */
+        flip(axis?: number): tensor {
+            return transformations._flip(this, axis);
         }
 
         /**
@@ -256,10 +575,15 @@ export class tensor {
     /**
      * Calculate the mean of the array.
      * @param {number} axis
+     * @return {tensor | number} - A [real, imaginary] pair for complex tensors if no axis is passed.
      */
     mean(axis?: number): tensor | number {
-        if (axis === undefined) {
-            return <number>this.sum() / this.length;
+        if (axis === undefined && utils.is_complex(this.dtype)) {
+            const [re, im] = <any> this.sum();
+            return <any> [re / this.length, im / this.length];
+        } else if (axis === undefined) {
+            // The sum of a 64-bit integer tensor is a BigInt.
+            return Number(this.sum()) / this.length;
         } else {
             return arithmetic._div(this.sum(axis), this.shape[axis]);
         }
@@ -271,8 +595,11 @@ export class tensor {
      * @return {number}
      */
     stdev(axis?: number): tensor | number {
-        const mean = this.mean(axis);
-        const squared_values = this.power(2);
+        complex._check_real('stdev', this);
+        // Integers are squared as floats, so the squares can't overflow.
+        const values = utils.dtype_kind(this.dtype) === 'f' ? this : this.as_type('float64');
+        const mean = values.mean(axis);
+        const squared_values = values.power(2);
         const mean_of_squares = squared_values.mean(axis);
         const squared_mean = arithmetic._power(mean, 2);
         const difference = arithmetic._sub(mean_of_squares, squared_mean);
@@ -348,14 +675,15 @@ export class tensor {
     //#endregion FUNCTIONAL
 
     /**
-     * Returns the indices of the nonzero elements of the array.
+     * Returns the indices of the nonzero elements of the array. Complex elements are nonzero if either part is.
      */
     nonzero(): Uint32Array[] {
         let indices = [];
         const steps = utils.fixed_ones(this.shape.length);
-        for (let index of indexing.iorder_index_iterator(this.offset, this.shape, steps)) {
-            const real_value = this._compute_real_index(index);
-            if (this.data[real_value] !== 0) {
+        for (let index of indexing.iorder_index_iterator(new Uint32Array(this.shape.length), this.shape, steps)) {
+            const value = this._value_at(this._compute_real_index(index));
+            const is_nonzero = Array.isArray(value) ? value[0] !== 0 || value[1] !== 0 : Number(value) !== 0;
+            if (is_nonzero) {
                 indices.push(index)
             }
         }
@@ -366,10 +694,11 @@ export class tensor {
 
     /**
      * Compute an element-wise power.
-     * @param {number} exp
+     * @param {Broadcastable} exp - The exponent.
+     * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
      */
-    power(exp: number): tensor {
-        return this.map(e => Math.pow(e, exp));
+    power(exp: Broadcastable, options?: OperationOptions): tensor {
+        return arithmetic._power(this, exp, options);
     }
 
     prod() { }
@@ -396,14 +725,45 @@ export class tensor {
         });
         const size = indexing.compute_size(flattened_shape);
         const new_shape = new Uint32Array(flattened_shape);
-        const new_offset = new Uint32Array(flattened_offset);
-        const new_stride = new Uint32Array(flattened_stride);
+        const new_offset = new Int32Array(flattened_offset);
+        const new_stride = new Int32Array(flattened_stride);
 
-        const view = new tensor(this.data, new_shape, new_offset, new_stride, new_stride, size, this.dtype, true);
+        const view = new tensor(this.data, new_shape, new_offset, new_stride, new_stride, size, this.dtype, true, this.initial_offset);
 
         return view;
     }
 
+    /**
+     * Insert axes of length 1. Does not copy the underlying data.
+     * @param axes - The positions of the new axes in the result.
+     */
+    expand_dims(...axes: number[]): tensor {
+        const ndims = this.shape.length + axes.length;
+        const positive_axes = axes.map(e => e < 0 ? e + ndims : e);
+        positive_axes.forEach((e, i) => {
+            if (!utils.is_int(e) || e < 0 || e >= ndims || positive_axes.indexOf(e) !== i) {
+                throw new errors.BadShape(`Invalid axes ${axes} for a result with ${ndims} dimensions.`);
+            }
+        });
+        let [shape, offset, stride, dstride] = [[], [], [], []];
+        let old_axis = 0;
+        for (let i = 0; i < ndims; i++) {
+            if (positive_axes.indexOf(i) !== -1) {
+                shape.push(1);
+                offset.push(0);
+                stride.push(0);
+                dstride.push(0);
+            } else {
+                shape.push(this.shape[old_axis]);
+                offset.push(this.offset[old_axis]);
+                stride.push(this.stride[old_axis]);
+                dstride.push(this.dstride[old_axis]);
+                old_axis += 1;
+            }
+        }
+        return new tensor(this.data, new Uint32Array(shape), new Int32Array(offset), new Int32Array(stride), new Int32Array(dstride), this.length, this.dtype, true, this.initial_offset);
+    }
+
     /**
      * Return a slice of an array. Does not copy the underlying data. Does not drop dimensions.
      * @param indices - The indices to slice on. Can be either a single array / TypedArray, or a spread of integers.
@@ -415,41 +775,45 @@ export class tensor {
      *    let b = numts.arange(24).reshape(2, 3, 4).slice([2, 3]); // b is the [2:3, :, :] slice.
      * @example
      *    let b = numts.arange(24).reshape(2, 3, 4).slice(2, 3); // b is the [2, 3, :] slice.
+     * @example
+     *    let c = numts.arange(24).reshape(2, 3, 4).slice(numts.ELLIPSIS, 0); // c is the [..., 0] slice.
+     * @example
+     *    let d = numts.arange(24).reshape(2, 3, 4).slice(null, numts.NEWAXIS); // d is the [:, newaxis] slice, with shape [2, 1, 3, 4].
+     * @example
+     *    let e = numts.arange(24).reshape(2, 3, 4).slice(null, null, [null, null, -1]); // e is the [:, :, ::-1] slice.
      *
      */
-    slice(...indices: Array<number | number[]>): tensor {
+    slice(...indices: USlice): tensor {
+        if (indices.some(e => indexing.is_ellipsis(e) || e === indexing.NEWAXIS)) {
+            const [expanded, new_axes] = indexing.expand_uslice(indices, this.shape.length);
+            return this.slice(...expanded).expand_dims(...new_axes);
+        }
 
         // Handle empty inputs.
         // @ts-ignore
-        if (indices.length === 1 && !utils.is_numeric(indices[0]) && indices[0].length === 0) {
+        if (indices.length === 1 && indices[0] !== null && !utils.is_numeric(indices[0]) && indices[0].length === 0) {
             return this;
         }
-        const positive_indices = indexing.convert_negative_indices(indices, this.shape);
-        let start = new Uint32Array(this.shape.length);
-        let end = this.shape.slice();
-        let steps = new Uint32Array(this.shape.length);
+        let start = new Int32Array(this.shape.length);
+        let end = Int32Array.from(this.shape);
+        let steps = new Int32Array(this.shape.length);
         let dims_to_drop = new Set();
 
         steps.fill(1);
         let initial_offset = this.initial_offset;
         let i = 0;
-        for (let index of positive_indices) {
+        for (let index of indices) {
             if (index === null) {
 
             } else if (utils.is_numeric(index)) {
-                start[i] = index;
-                end[i] = index + 1;
+                const positive_index = index < 0 ? index + this.shape[i] : index;
+                start[i] = positive_index;
+                end[i] = positive_index + 1;
                 dims_to_drop.add(i);
-                // initial_offset += index * this.dstride[i];
-            } else if (index.length === 2) {
-                start[i] = index[0];
-                end[i] = index[1];
-            } else if (index.length === 3) {
-                start[i] = index[0];
-                end[i] = index[1];
-                steps[i] = index[2];
+            } else if (Array.isArray(index) && (index.length === 2 || index.length === 3)) {
+                [start[i], end[i], steps[i]] = indexing.normalize_slice(index, this.shape[i]);
             } else {
-                throw new Error(`Arguments to slice were wrong: ${positive_indices}. Broke on ${index}.`);
+                throw new Error(`Arguments to slice were wrong: ${indices}. Broke on ${String(index)}.`);
             }
             i += 1;
         }
@@ -459,7 +823,8 @@ export class tensor {
 
         const offset = start.map((e, j) => e + this.offset[j]);
         const stride = steps.map((e, j) => e * this.stride[j]);
-        initial_offset += start.reduce((acc, e, j) => acc + e * this.stride[j], 0);
+        // Empty axes may start out of bounds, so they don't move the view.
+        initial_offset += start.reduce((acc, e, j) => new_shape[j] === 0 ? acc : acc + e * this.stride[j], 0);
 
         const filt = (e, j) => !dims_to_drop.has(j);
 
@@ -472,10 +837,100 @@ export class tensor {
         return view;
     }
 
+    /**
+     * Index the array, numpy style. Axes can be indexed by anything `slice` accepts, or by an integer tensor.
+     * A bool tensor with k dimensions indexes k axes, selecting the positions where it is true.
+     * If any axis is indexed by a tensor the result is a copy, otherwise it is a view.
+     * Index tensors are broadcast together. If they index adjacent axes the broadcast dimensions replace those axes,
+     * otherwise they come first.
+     * @param indices - The index for each axis. Missing axes are taken whole.
+     *
+     * @example
+     *    let rows = numts.arange(12).reshape(4, 3).index([numts.from_nested_array([3, 0], 'int32')]); // Rows 3 and 0.
+     */
+    index(indices: Array<USlice[number] | tensor>): tensor {
+        if (!indices.some(e => e instanceof tensor)) {
+            // @ts-ignore
+            return this.slice(...indices);
+        }
+        const [positions, shape] = this._fancy_positions(indices);
+        return constructors.from_iterable(utils.imap(positions, e => this._value_at(e)), shape, this.dtype);
+    }
+
+    /**
+     * Take elements along an axis.
+     * @param indices - The indices to take. Can be a tensor or a (possibly nested) array of integers.
+     * @param {number} axis - The axis to take along. If not passed the array is flattened first.
+     */
+    take(indices: tensor | number[], axis?: number): tensor {
+        if (axis === undefined) {
+            return this.flatten().take(indices, 0);
+        }
+        const index_tensor = indices instanceof tensor ? indices : constructors.from_nested_array(indices, 'int32');
+        const positive_axis = axis < 0 ? axis + this.shape.length : axis;
+        let full_index = new Array(positive_axis).fill(null);
+        full_index.push(index_tensor);
+        return this.index(full_index);
+    }
+
+    /**
+     * Select the elements where a condition is true.
+     * @param {tensor} condition - A bool tensor, e.g. the result of a comparison. Broadcast to the shape of this.
+     * @return {tensor} - A one-dimensional tensor of the selected elements, in index order.
+     *
+     * @example
+     *    let zeros = a.mask(a.eq(0));
+     */
+    mask(condition: tensor): tensor {
+        let values = [];
+        for (let [index, condition_index] of this._zip_broadcast(condition)) {
+            if (condition.data[condition_index]) {
+                values.push(this._value_at(index));
+            }
+        }
+        return constructors.from_iterable(values, [values.length], this.dtype);
+    }
+
+    /**
+     * Set the elements where a condition is true.
+     * @param {tensor} condition      - A bool tensor, e.g. the result of a comparison. Broadcast to the shape of this.
+     * @param {Broadcastable} values  - The values to set. Broadcast to the shape of this, and only used where the condition is true.
+     */
+    put_mask(condition: tensor, values: Broadcastable) {
+        const value_array = tensor._upcast_to_tensor(values);
+        const condition_iter = this._zip_broadcast(condition)[Symbol.iterator]();
+        const value_iter = this._zip_broadcast(value_array)[Symbol.iterator]();
+        for (let [[index, condition_index], [, value_index]] of utils.zip_iterable(condition_iter, value_iter)) {
+            if (condition.data[condition_index]) {
+                this._set_value(index, value_array._value_at(value_index));
+            }
+        }
+    }
+
+    /**
+     * Slice the array with a numpy-style index string. Does not copy the underlying data.
+     * @param {string} index - The index, e.g. '1:5, ::2, -1'. '...' and 'None' are also supported.
+     *
+     * @example
+     *    let a = numts.arange(24).reshape(2, 3, 4).at('1, :2, ::2'); // a is the [1, :2, ::2] slice.
+     */
+    at(index: string): tensor {
+        return this.slice(...indexing.parse_slice_string(index));
+    }
+
+    /**
+     * Set the elements selected by a numpy-style index string.
+     * @param {string} index          - The index, e.g. '1:5, ::2, -1'.
+     * @param {Broadcastable} values  - The values to set. Broadcast to the shape of the selection.
+     */
+    set_at(index: string, values: Broadcastable) {
+        this.s(values, ...indexing.parse_slice_string(index));
+    }
+
     /**
      * Get the value at the given index.
      * @param indices
-     * @return {number}
+     * @return {number} - A [real, imaginary] pair for complex tensors.
      */
     g(...indices): number {
         if (indices.length !== this.shape.length) {
@@ -483,15 +938,21 @@ export class tensor {
         }
         const positive_indices = indexing.convert_negative_indices(indices, this.shape);
         const real_index = this._compute_real_index(positive_indices);
-        return this.data[real_index];
+        return <any> this._value_at(real_index);
     }
 
     /**
      * Set an element of the array.
+     * If the only index is a bool tensor with the same shape as this, it is treated as a mask (see `put_mask`).
      * @param values
      * @param indices
      */
     s(values: Broadcastable, ...indices) {
+        if (indices.length === 1 && tensor._is_mask_for(indices[0], this)) {
+            this.put_mask(indices[0], values);
+            return;
+        }
+
         // Set a single element of the array.
         if (indexing.checks_indices_are_single_index(...indices) && indices.length === this.shape.length) {
             if (!utils.is_numeric(values)) {
@@ -499,7 +960,19 @@ export class tensor {
             }
             const positive_indices = indexing.convert_negative_indices(indices, this.shape);
             const real_index = this._compute_real_index(positive_indices);
-            this.data[real_index] = values;
+            this._set_value(real_index, values);
+            return;
+        }
+
+        // Set elements selected by integer tensors.
+        if (indices.some(e => e instanceof tensor)) {
+            const [positions, shape] = this._fancy_positions(indices);
+            const value_array = tensor._upcast_to_tensor(values);
+            const value_stride = indexing.broadcast_stride(value_array.shape, value_array.stride, shape);
+            const value_iter = indexing.iorder_data_iterator(new Uint32Array(shape.length), shape, utils.fixed_ones(shape.length), value_stride, value_array.initial_offset);
+            for (let [position, value_index] of utils.zip_iterable(positions[Symbol.iterator](), value_iter[Symbol.iterator]())) {
+                this._set_value(position, value_array._value_at(value_index));
+            }
             return;
         }
 
@@ -521,8 +994,7 @@ export class tensor {
         const iterator = utils.zip_longest(view._iorder_data_iterator(), b_array._iorder_data_iterator());
 
         for (let [a_index, b_index] of iterator) {
-
-            view.data[a_index] = b_array.data[b_index];
+            view._set_value(a_index, b_array._value_at(b_index));
         }
     }
 
@@ -538,6 +1010,155 @@ export class tensor {
             return indexing.index_in_data(indices, this.stride, this.initial_offset);
         }
 
+        /**
+         * Read the element at an index in the underlying data array.
+         * @param {number} index - The index in the data array.
+         * @return - The decoded value. A [real, imaginary] pair for complex tensors.
+         * @private
+         */
+        _value_at(index: number): number | bigint | [number, number] {
+            if (utils.is_complex(this.dtype)) {
+                return [this.data[index], this.data[index + 1]];
+            }
+            return utils.from_dtype_value(this.data[index], this.dtype);
+        }
+
+        /**
+         * Write an element at an index in the underlying data array, converting it to the dtype of this tensor.
+         * Real values written to complex tensors get an imaginary part of zero, and complex values written to real tensors
+         * keep only their real part.
+         * @param {number} index - The index in the data array.
+         * @param value          - The value. A [real, imaginary] pair for complex values.
+         * @private
+         */
+        _set_value(index: number, value: number | bigint | [number, number]) {
+            const [re, im] = Array.isArray(value) ? value : [value, 0];
+            if (utils.is_complex(this.dtype)) {
+                this.data[index] = Number(re);
+                this.data[index + 1] = im;
+            } else {
+                this.data[index] = utils.to_dtype_value(re, this.dtype);
+            }
+        }
+
+        /**
+         * Iterate over the data indices of this and another tensor broadcast to the shape of this, in index order.
+         * @param {tensor} other - The tensor to broadcast.
+         * @return {Iterable<number[]>} - Pairs of data indices into this and other.
+         * @private
+         */
+        _zip_broadcast(other: tensor): Iterable<number[]> {
+            const other_stride = indexing.broadcast_stride(other.shape, other.stride, this.shape);
+            const lower = new Uint32Array(this.shape.length);
+            const steps = utils.fixed_ones(this.shape.length);
+            const other_iter = indexing.iorder_data_iterator(lower, this.shape, steps, other_stride, other.initial_offset);
+            const self = this;
+            return {
+                [Symbol.iterator]: function* () {
+                    yield* utils.zip_iterable(self._iorder_data_iterator()[Symbol.iterator](), other_iter[Symbol.iterator]());
+                }
+            };
+        }
+
+        /**
+         * Compute the data indices selected by an index containing integer tensors, in index order.
+         * Numbers are treated as zero-dimensional index arrays, and bool tensors as the integer arrays of their nonzero positions, like numpy.
+         * @param indices - The index for each axis.
+         * @return {[Iterable<number>, Uint32Array]} - The data indices, and the shape of the result.
+         * @private
+         */
+        _fancy_positions(indices: Array<any>): [Iterable<number>, Uint32Array] {
+            const ndims = this.shape.length;
+            if (indices.some(e => e === indexing.NEWAXIS)) {
+                throw new Error('NEWAXIS cannot be combined with index arrays.');
+            }
+            // A bool tensor with k dimensions indexes k axes, at the positions where it is true.
+            let mask_sizes = new Map<tensor, number>();
+            indices = [].concat(...indices.map(e => {
+                if (!(e instanceof tensor && e.dtype === 'bool')) {
+                    return [e];
+                }
+                const positions = e.nonzero();
+                return Array.from(e.shape, (size, axis) => {
+                    const index = constructors.from_iterable(positions.map(p => p[axis]), [positions.length], 'int32');
+                    mask_sizes.set(index, size);
+                    return index;
+                });
+            }));
+            indices = indexing.expand_uslice(indices, ndims)[0];
+            const is_advanced = (e) => e instanceof tensor || utils.is_numeric(e);
+            const advanced_axes = [];
+            indices.forEach((e, i) => {
+                if (is_advanced(e)) {
+                    advanced_axes.push(i);
+                }
+            });
+
+            // Apply the ordinary slices first.
+            const view = this.slice(...indices.map(e => is_advanced(e) ? null : e));
+
+            // Broadcast the index arrays together, and work out the offset into the data for each element of the broadcast.
+            const index_shapes = advanced_axes.map(i => indices[i] instanceof tensor ? indices[i].shape : new Uint32Array(0));
+            const broadcast_shape = index_shapes.reduce((a, b) => indexing.calculate_broadcast_dimensions(a, b));
+            const broadcast_size = indexing.compute_size(broadcast_shape);
+            let offsets = new Array(broadcast_size).fill(0);
+            for (let axis of advanced_axes) {
+                const index = indices[axis];
+                const size = view.shape[axis];
+                if (mask_sizes.has(index) && mask_sizes.get(index) !== size) {
+                    throw new Error(`Boolean index has size ${mask_sizes.get(index)} but axis ${axis} has size ${size}.`);
+                }
+                const normalize = (raw: number | bigint) => {
+                    // Values from 64-bit integer index tensors are BigInts. Any too large to be exact numbers are out of bounds anyway.
+                    const value = Number(raw);
+                    if (!utils.is_int(value)) {
+                        throw new Error(`Index arrays must contain integers. Got ${raw}.`);
+                    }
+                    if (value < -size || value >= size) {
+                        throw new errors.IndexOutOfBounds(value, axis, size);
+                    }
+                    return value < 0 ? value + size : value;
+                };
+                if (index instanceof tensor) {
+                    const index_stride = indexing.broadcast_stride(index.shape, index.stride, broadcast_shape);
+                    const lower = new Uint32Array(broadcast_shape.length);
+                    const steps = utils.fixed_ones(broadcast_shape.length);
+                    let i = 0;
+                    for (let position of indexing.iorder_data_iterator(lower, broadcast_shape, steps, index_stride, index.initial_offset)) {
+                        offsets[i] += normalize(<number | bigint> index._value_at(position)) * view.stride[axis];
+                        i += 1;
+                    }
+                } else {
+                    const offset = normalize(index) * view.stride[axis];
+                    offsets = offsets.map(e => e + offset);
+                }
+            }
+
+            // If the index arrays are next to each other the broadcast dimensions go where they were, otherwise they go first.
+            const adjacent = advanced_axes.every((e, i) => e === advanced_axes[0] + i);
+            const basic_axes = Array.from(view.shape, (e, i) => i).filter(i => advanced_axes.indexOf(i) === -1);
+            const before = adjacent ? basic_axes.filter(i => i < advanced_axes[0]) : [];
+            const after = basic_axes.filter(i => before.indexOf(i) === -1);
+            const sub_shape = (axes: number[]) => new Uint32Array(axes.map(i => view.shape[i]));
+            const sub_stride = (axes: number[]) => new Int32Array(axes.map(i => view.stride[i]));
+            const shape = new Uint32Array([...sub_shape(before), ...broadcast_shape, ...sub_shape(after)]);
+
+            const outer = indexing.iorder_data_iterator(new Uint32Array(before.length), sub_shape(before), utils.fixed_ones(before.length), sub_stride(before), view.initial_offset);
+            const inner = indexing.iorder_data_iterator(new Uint32Array(after.length), sub_shape(after), utils.fixed_ones(after.length), sub_stride(after), 0);
+            const iter = {
+                [Symbol.iterator]: function* () {
+                    for (let outer_position of outer) {
+                        for (let offset of offsets) {
+                            for (let inner_position of inner) {
+                                yield outer_position + offset + inner_position;
+                            }
+                        }
+                    }
+                }
+            };
+            return [iter, shape];
+        }
+
         /**
          * Compute lower, upper, and steps for a slice of an array along `axis`.
          * @param {number} axis
@@ -596,7 +1217,7 @@ export class tensor {
         }
 
         /**
-         * Create an iterator over the values of the array, in index order.
+         * Create an iterator over the values of the array, in index order. The values of complex tensors are [real, imaginary] pairs.
          * @param lower_or_upper - The lower bounds of the slice if upper_bounds is defined. Otherwise this is the upper_bounds, and the lower bounds are the offset of the tensor.
          * @param upper_bounds - The upper bounds of the slice. Defaults to the shape of the tensor.
          * @param steps - The size of the steps to take along each axis.
@@ -609,7 +1230,7 @@ export class tensor {
             const iter = {
                 [Symbol.iterator]: function* () {
                     for (let index of index_iterator) {
-                        yield self.data[index];
+                        yield <number> self._value_at(index);
                     }
                 }
             }
@@ -644,7 +1265,7 @@ export class tensor {
         }
 
         /**
-         * Create an iterator over the values of the array, in data order.
+         * Create an iterator over the values of the array, in data order. The values of complex tensors are [real, imaginary] pairs.
          * @param lower_or_upper - The lower bounds of the slice if upper_bounds is defined. Otherwise this contains the upper bounds, and the lower bounds are the offset of the tensor.
          * @param upper_bounds - The upper bounds of the slice. Defaults to the shape of the tensor.
          * @param steps - The size of the steps to take along each axis.
@@ -657,7 +1278,7 @@ export class tensor {
             const iter = {
                 [Symbol.iterator]: function* () {
                     for (let index of index_iterator) {
-                        yield self.data[index];
+                        yield <number> self._value_at(index);
                     }
                 }
             }
@@ -698,41 +1319,57 @@ export class tensor {
         /**
          * Add `b` to `this`.
          * @param b - The value to add to the array.
+         * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
          */
-        add(b: Broadcastable): tensor {
-            return arithmetic._add(this, b);
+        add(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._add(this, b, options);
         }
 
         /**
          * Subtract a broadcastable value from this.
          * @param {Broadcastable} b - Value to subtract.
+         * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
          * @return {tensor | number}
          */
-        sub(b: Broadcastable): tensor {
-            return arithmetic._sub(this, b);
+        sub(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._sub(this, b, options);
         }
 
         /**
          * Multiply `this` by `b`.
          * @param b - A tensor to multiply by.
+         * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
          */
-        mult(b: Broadcastable): tensor {
-            return arithmetic._mult(this, b);
+        mult(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._mult(this, b, options);
         }
 
         /**
          * Divide `this` by `b`.
          * @param b - A tensor to divide by.
+         * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
          */
-        div(b: Broadcastable): tensor {
-            return arithmetic._div(this, b);
+        div(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._div(this, b, options);
         }
 
         /**
-         * Element-wise modulus.
+         * Divide `this` by `b`, rounding down. Matches numpy's floor_divide, including for negative values.
+         * Integer division by zero gives zero.
+         * @param b - A tensor to divide by.
+         * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
+         */
+        floor_divide(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._fdiv(this, b, options);
+        }
+
+        /**
+         * Element-wise modulus. The result has the sign of the divisor, like numpy's mod.
+         * @param b - The divisor.
+         * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
          */
-        mod(b: Broadcastable): tensor {
-            return arithmetic._mod(this, b);
+        mod(b: Broadcastable, options?: OperationOptions): tensor {
+            return arithmetic._mod(this, b, options);
         }
 
         eq(b: Broadcastable): tensor {
@@ -758,18 +1395,87 @@ export class tensor {
             return arithmetic.is_close(this, b, rel_tol, abs_tol);
         }
 
+        /**
+         * Element-wise logical and. Returns a bool tensor.
+         * @param b - The second operand. Nonzero elements are true.
+         */
+        logical_and(b: Broadcastable): tensor {
+            return arithmetic._logical_and(this, b);
+        }
+
+        /**
+         * Element-wise logical or. Returns a bool tensor.
+         * @param b - The second operand. Nonzero elements are true.
+         */
+        logical_or(b: Broadcastable): tensor {
+            return arithmetic._logical_or(this, b);
+        }
+
+        /**
+         * Element-wise logical exclusive or. Returns a bool tensor.
+         * @param b - The second operand. Nonzero elements are true.
+         */
+        logical_xor(b: Broadcastable): tensor {
+            return arithmetic._logical_xor(this, b);
+        }
+
         /**
          * Compute the dot product of this and another tensor
          * @param b - The tensor to dot with.
+         * @return {number} - A [real, imaginary] pair if either tensor is complex.
          **/
         dot(b: tensor): number {
             return arithmetic.dot(this, b);
         }
 
+        /**
+         * Compute the outer product of this and another tensor. Both are flattened first.
+         * @param b - The second factor.
+         */
+        outer(b: tensor): tensor {
+            return arithmetic.outer(this, b);
+        }
+
+        /**
+         * Compute the inner product of this and another tensor over their last axes. Two vectors give a scalar.
+         * @param b - The second factor.
+         */
+        inner(b: tensor): tensor | number {
+            return arithmetic.inner(this, b);
+        }
+
+        /**
+         * Compute the Kronecker product of this and another tensor.
+         * @param b - The second factor.
+         */
+        kron(b: tensor): tensor {
+            return arithmetic.kron(this, b);
+        }
+
+        /**
+         * Compute the cross product of this and another tensor of vectors.
+         * @param b - The second factor.
+         * @param axis - The axis holding the vectors. Defaults to the last axis. Two vectors of length 2 give a scalar.
+         */
+        cross(b: tensor, axis: number = -1): tensor | number {
+            return arithmetic.cross(this, b, axis);
+        }
+
     //#endregion BINARY METHODS
 
     //#region OPERATIONS
 
+        /**
+         * Check whether an index should be treated as a mask for a tensor.
+         * @param index - The index to check.
+         * @param {tensor} a - The tensor being indexed.
+         * @return {boolean}
+         * @private
+         */
+        private static _is_mask_for(index: any, a: tensor): boolean {
+            return index instanceof tensor && index.dtype === 'bool' && utils.array_equal(index.shape, a.shape);
+        }
+
         /**
          * Convert a broadcastable value to a tensor.
          * @param {Broadcastable} value - The value to convert. Numbers will be converted to 1x1 tensors, TypedArrays will be 1xn, and tensors will be left alone.
@@ -796,22 +1502,7 @@ export class tensor {
          * @returns {tensor}  - The matrix product.
          */
         static matmul_2d(a: tensor, b: tensor): tensor {
-            const new_shape = new Uint32Array([a.shape[0], b.shape[1]]);
-
-            let iter = {
-                [Symbol.iterator]: function* () {
-                    for (let i = 0; i < new_shape[0]; i++) {
-                        for (let j = 0; j < new_shape[1]; j++) {
-                            const a_vec = a.slice(i);
-                            const b_vec = b.slice(null, j);
-                            let x = tensor.dot(a_vec, b_vec);
-                            yield x;
-                        }
-                    }
-                }
-            };
-
-            return constructors.from_iterable(iter, new_shape);
+            return arithmetic.matmul_2d(a, b);
         }
 
         // TODO: Generalize to an inner product.
@@ -820,16 +1511,10 @@ export class tensor {
          * Compute the dot product of two arrays.
          * @param {tensor} a
          * @param {tensor} b
-         * @return {number}
+         * @return {number} - A [real, imaginary] pair if either array is complex.
          */
         static dot(a: tensor, b: tensor): number {
-            let acc = 0;
-            let a_iter = a._iorder_value_iterator();
-            let b_iter = b._iorder_value_iterator();
-            for (let [a_val, b_val] of utils.zip_iterable(a_iter[Symbol.iterator](), b_iter[Symbol.iterator]())) {
-                acc += a_val * b_val;
-            }
-            return acc;
+            return arithmetic.dot(a, b);
         }
 
         /**
@@ -858,6 +1543,8 @@ export class tensor {
 
     /**
      * Check if two n-dimensional arrays are equal.
+     * Arrays are equal if they have the same shape, dtype, and elements. How the elements are laid out in memory is ignored,
+     * so a view is equal to a copy of itself.
      * @param {tensor} array1
      * @param {tensor} array2
      * @return {boolean}
@@ -866,12 +1553,9 @@ export class tensor {
         return (
             (array1.length === array2.length) &&
             (tensor._equal_data(array1.shape, array2.shape)) &&
-            (tensor._equal_data(array1.offset, array2.offset)) &&
-            (tensor._equal_data(array1.stride, array2.stride)) &&
-            (tensor._equal_data(array1.dstride, array2.dstride)) &&
-            (array1.initial_offset === array2.initial_offset) &&
             (array1.dtype === array2.dtype) &&
-            (tensor._equal_data(array1, array2))
+            (tensor._equal_data(Array.from(complex.real(array1)._iorder_value_iterator()), Array.from(complex.real(array2)._iorder_value_iterator()))) &&
+            (!utils.is_complex(array1.dtype) || tensor.equals(complex.imag(array1), complex.imag(array2)))
         );
     }
 
@@ -910,6 +1594,7 @@ export class tensor {
 
     /**
      * Convert the tensor to a nested JS array.
+     * The elements of complex tensors are [real, imaginary] pairs, and the elements of bool tensors are true or false.
      */
     to_nested_array(): Array<any> {
         let array = [];
@@ -921,7 +1606,11 @@ export class tensor {
                 }
                 subarray = subarray[i];
             }
-            subarray[index[index.length - 1]] = this.g(...index);
+            if (this.dtype === 'bool') {
+                subarray[index[index.length - 1]] = this.g(...index) !== 0;
+            } else {
+                subarray[index[index.length - 1]] = this.g(...index);
+            }
         }
         return array;
     }
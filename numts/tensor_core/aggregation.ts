@@ -1,5 +1,7 @@
 import {tensor} from '../tensor';
 import {_div} from './binary_ops';
+import * as complex from './complex';
+import {utils} from '../utils';
 
 /**
  * Return the index of the minimum value.
@@ -8,6 +10,7 @@ import {_div} from './binary_ops';
  * @return {tensor | number}
  */
 export function _argmin(a: tensor, axis?: number): tensor | number {
+    complex._check_real('argmin', a);
     const min_index = (...args) => {
         let min = args[0];
         let index = 0;
@@ -29,6 +32,7 @@ export function _argmin(a: tensor, axis?: number): tensor | number {
  * @return {tensor | number}
  */
 export function _argmax(a: tensor, axis?: number): tensor | number {
+    complex._check_real('argmax', a);
     const max_index = (...args) => {
         let max = args[0];
         let index = 0;
@@ -47,9 +51,10 @@ export function _argmax(a: tensor, axis?: number): tensor | number {
  * Return true if all elements are true.
  * @param {tensor} a - The tensor.
  * @param {number} axis - The axis to take the and over.
- * @return {tensor | number}
+ * @return {tensor | number} - A bool tensor if an axis is passed.
  */
 export function _all(a: tensor, axis?: number): tensor | number {
+    complex._check_real('all', a);
     const f = data => {
         for (let value of data) {
             if (!value) {
@@ -58,7 +63,7 @@ export function _all(a: tensor, axis?: number): tensor | number {
         }
         return true;
     }
-    return a.apply_to_axis(f, axis);
+    return a.apply_to_axis(f, axis, 'bool');
 }
 
 /**
@@ -68,6 +73,7 @@ export function _all(a: tensor, axis?: number): tensor | number {
  * @return {tensor | number}
  */
 export function _any(a: tensor, axis?: number): tensor | number {
+    complex._check_real('any', a);
     const f = data => {
         for (let value of data) {
             if (value) {
@@ -76,7 +82,7 @@ export function _any(a: tensor, axis?: number): tensor | number {
         }
         return false;
     }
-    return a.apply_to_axis(f, axis);
+    return a.apply_to_axis(f, axis, 'bool');
 }
 
 /**
@@ -86,7 +92,9 @@ export function _any(a: tensor, axis?: number): tensor | number {
  * @return {tensor | number}
  */
 export function _max(a: tensor, axis?: number): tensor | number {
-    return a.apply_to_axis(e => Math.max(...e), axis);
+    complex._check_real('max', a);
+    // BigInts can't be passed to Math.max, so 64-bit integers are compared directly.
+    return a.apply_to_axis(e => typeof e[0] === 'bigint' ? e.reduce((x, y) => y > x ? y : x) : Math.max(...e), axis);
 }
 
 /**
@@ -96,15 +104,24 @@ export function _max(a: tensor, axis?: number): tensor | number {
  * @return {tensor | number}
  */
 export function _min(a: tensor, axis?: number): tensor | number {
-    return a.apply_to_axis(e => Math.min(...e), axis);
+    complex._check_real('min', a);
+    // BigInts can't be passed to Math.min, so 64-bit integers are compared directly.
+    return a.apply_to_axis(e => typeof e[0] === 'bigint' ? e.reduce((x, y) => y < x ? y : x) : Math.min(...e), axis);
 }
 
 /**
- * Sum the entries of the array along the specified axis.
+ * Sum the entries of the array along the specified axis. Bool tensors are counted in int32.
  * @param {tensor} a - The tensor.
  * @param {number} axis - The axis to sum over.
- * @return {tensor | number}
+ * @return {tensor | number} - A [real, imaginary] pair for complex tensors if no axis is passed.
  */
 export function _sum(a: tensor, axis?: number): tensor | number {
-    return a.reduce((a, e) => a + e, 0, axis);
+    if (utils.is_complex(a.dtype)) {
+        // The real and imaginary parts are summed separately.
+        const re = _sum(complex.real(a), axis);
+        const im = _sum(complex.imag(a), axis);
+        return axis === undefined ? <any> [re, im] : complex.complex(<tensor> re, <tensor> im, a.dtype);
+    }
+    // No initial value, so 64-bit integer tensors are summed as BigInts.
+    return a.reduce((a, e) => a + e, undefined, axis, a.dtype === 'bool' ? 'int32' : undefined);
 }
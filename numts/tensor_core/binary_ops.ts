@@ -1,27 +1,65 @@
-import {tensor, Broadcastable, errors} from '../tensor';
+import {tensor, Broadcastable, errors, OperationOptions, Overflow} from '../tensor';
 import * as constructors from './constructors';
+import * as complex from './complex';
 import {indexing} from './indexing';
 import {utils} from '../utils';
-import { Shape } from '../types';
+import * as dtypes from './dtypes';
+import {TypedArray} from '../types';
 
 /**
  * Convert a broadcastable value to a tensor.
  * @param {Broadcastable} value - The value to convert. Numbers will be converted to 1x1 tensors, TypedArrays will be 1xn, and tensors will be left alone.
+ *                                Half precision tensors are upcast to float32, so arithmetic on them is done in single precision
+ *                                and rounded back to their dtype when it is stored.
  * @return {tensor}           - The resulting tensor.
  * @
  */
 export function _upcast_to_tensor(value: Broadcastable): tensor {
     let a_array;
-    if (utils.is_numeric(value)) {
+    if (typeof value === 'bigint') {
+        a_array = constructors.array(new BigInt64Array([value]), new Uint32Array([1]), { disable_checks: true, dtype: 'int64' });
+    } else if (utils.is_numeric(value)) {
         a_array = constructors.array(new Float64Array([value]), new Uint32Array([1]), { disable_checks: true });
     } else if (utils.is_typed_array(value)) {
         a_array = constructors.array(value, new Uint32Array([value.length]), { disable_checks: true });
+    } else if (value instanceof tensor && utils.is_half(value.dtype)) {
+        a_array = value.as_type('float32');
     } else {
         a_array = value;
     }
     return a_array;
 }
 
+/**
+ * The dtype of the result of combining two broadcastable values. Scalars are weakly typed (see `dtypes.result_type`).
+ * Tensors count with their own dtype rather than the one they were upcast to, so half precision results stay half precision.
+ * @param {Broadcastable} a       - The first value.
+ * @param {tensor} a_array        - The first value converted to a tensor.
+ * @param {Broadcastable} b       - The second value.
+ * @param {tensor} b_array        - The second value converted to a tensor.
+ * @return {string}
+ */
+function _join_broadcastables(a: Broadcastable, a_array: tensor, b: Broadcastable, b_array: tensor): string {
+    const weak = (value: Broadcastable, array: tensor) => typeof value === 'number' || typeof value === 'bigint' || value instanceof tensor ? value : array;
+    return dtypes.result_type(weak(a, a_array), weak(b, b_array));
+}
+
+/**
+ * The dtype an operation should produce, if it was given one. Checks that the inputs can be cast to it.
+ * @param {Broadcastable} a             - The first input of the operation.
+ * @param {Broadcastable} b             - The second input of the operation.
+ * @param {OperationOptions} options    - The dtype and casting rule. Casting defaults to 'same_kind'.
+ * @param {string} dtype                - The dtype the operation produces if options doesn't set one.
+ * @return {string | undefined}
+ */
+function _output_dtype(a: Broadcastable, b: Broadcastable, options: OperationOptions, dtype?: string): string | undefined {
+    if (options.dtype === undefined) {
+        return dtype;
+    }
+    dtypes._check_casting([a, b], options.dtype, options.casting === undefined ? 'same_kind' : options.casting);
+    return options.dtype;
+}
+
 /**
  * Broadcast two values together.
  * Works like numpy broadcasting.
@@ -36,7 +74,7 @@ export function _broadcast_by_index(a: Broadcastable, b: Broadcastable): [Iterab
     let b_array = _upcast_to_tensor(b);
 
     const new_dimensions = indexing.calculate_broadcast_dimensions(a_array.shape, b_array.shape);
-    const new_dtype = utils._dtype_join(a_array.dtype, b_array.dtype);
+    const new_dtype = _join_broadcastables(a, a_array, b, b_array);
     let index_iter = indexing.iorder_index_iterator(new_dimensions);
 
     const iterator = utils.zip_longest(a_array._iorder_data_iterator(), b_array._iorder_data_iterator(), index_iter);
@@ -59,20 +97,43 @@ export function _broadcast_by_index(a: Broadcastable, b: Broadcastable): [Iterab
  * @param {Broadcastable} b - The second argument to f.
  * @param {(a: number, b: number) => number} f  - The function to apply.
  * @param {string} dtype  - Optional forced data type.
+ * @param {Overflow} overflow - What to do with results that don't fit in an integer dtype. Defaults to 'wrap'.
  * @return {tensor}  - The result of applying f to a and b.
  * @
  */
-export function _binary_broadcast(a: Broadcastable, b: Broadcastable, f: (a: number, b: number) => number, dtype?: string): tensor {
+export function _binary_broadcast(a: Broadcastable, b: Broadcastable, f: (a: number, b: number) => number, dtype?: string, overflow: Overflow = 'wrap'): tensor {
+    if (_has_complex(a, b)) {
+        throw new Error('This operation does not support complex tensors.');
+    }
     let [iter, shape, new_dtype] = _broadcast_by_index(a, b);
 
     if (dtype === undefined) {
+        dtypes._check_scalar_range([a, b], new_dtype);
         dtype = new_dtype
     }
 
     let new_array = constructors.filled(0, shape, dtype);
 
+    // Values from 64-bit integer tensors are BigInts, which can't be mixed with numbers. Float results are computed with numbers,
+    // and everything else with BigInts if either the result or the inputs are 64-bit integers.
+    const domain = dtype.startsWith('float') ? 'float64' : [dtype, new_dtype].find(utils.is_bigint_dtype) || 'float64';
+    const use_bigints = utils.is_bigint_dtype(domain);
+    const check_range = overflow !== 'wrap' && _is_integer_dtype(dtype);
+    const [min, max] = check_range ? utils.dtype_range(dtype) : [undefined, undefined];
+
     for (let [a_val, b_val, index] of iter) {
-        const new_val = f(a_val, b_val);
+        let new_val;
+        if (use_bigints || typeof a_val === 'bigint' || typeof b_val === 'bigint') {
+            new_val = f(<number> utils.to_dtype_value(a_val, domain), <number> utils.to_dtype_value(b_val, domain));
+        } else {
+            new_val = f(a_val, b_val);
+        }
+        if (check_range && (new_val < min || new_val > max)) {
+            if (overflow === 'error') {
+                throw new errors.IntegerOverflow(new_val, dtype);
+            }
+            new_val = new_val < min ? min : max;
+        }
         new_array.s(new_val, ...index);
     }
 
@@ -80,14 +141,82 @@ export function _binary_broadcast(a: Broadcastable, b: Broadcastable, f: (a: num
 }
 
 /**
- *
- * @param {Broadcastable} a -
- * @param {Broadcastable} b -
- * @returns {tensor}      -
+ * Check whether a dtype holds integers. Bool counts as an integer dtype.
+ * @param {string} dtype
+ * @return {boolean}
+ */
+function _is_integer_dtype(dtype: string): boolean {
+    return ['b', 'u', 'i'].indexOf(utils.dtype_kind(dtype)) !== -1;
+}
+
+/**
+ * Check whether either of two broadcastable values is a complex tensor.
+ * @param {Broadcastable} a
+ * @param {Broadcastable} b
+ * @return {boolean}
+ */
+function _has_complex(a: Broadcastable, b: Broadcastable): boolean {
+    return (a instanceof tensor && utils.is_complex(a.dtype)) || (b instanceof tensor && utils.is_complex(b.dtype));
+}
+
+/**
+ * Apply a binary function to two broadcastables, at least one of which is complex.
+ * Real values are treated as having an imaginary part of zero. 64-bit integer values are converted to numbers.
+ * @param {Broadcastable} a - The first argument to f.
+ * @param {Broadcastable} b - The second argument to f.
+ * @param f                 - Maps the real and imaginary parts of a and b to the real and imaginary parts of the result.
+ * @param {string} dtype    - Optional forced data type. Non-complex dtypes discard the imaginary parts of the result.
+ * @return {tensor}         - A complex tensor, unless a non-complex dtype was passed.
+ */
+function _complex_broadcast(a: Broadcastable, b: Broadcastable, f: (a_re: number, a_im: number, b_re: number, b_im: number) => [number, number], dtype?: string): tensor {
+    const a_array = _upcast_to_tensor(a);
+    const b_array = _upcast_to_tensor(b);
+    const a_complex = utils.is_complex(a_array.dtype);
+    const b_complex = utils.is_complex(b_array.dtype);
+
+    const shape = indexing.calculate_broadcast_dimensions(a_array.shape, b_array.shape);
+    const complex_dtype = dtype !== undefined && utils.is_complex(dtype) ? dtype : _join_broadcastables(a, a_array, b, b_array);
+    const result = constructors.zeros(shape, complex_dtype);
+    const iterator = utils.zip_longest(a_array._iorder_data_iterator(), b_array._iorder_data_iterator(), result._iorder_data_iterator());
+
+    // The imaginary part of a complex element is stored right after its real part.
+    for (let [a_index, b_index, index] of iterator) {
+        const a_im = a_complex ? a_array.data[a_index + 1] : 0;
+        const b_im = b_complex ? b_array.data[b_index + 1] : 0;
+        const [re, im] = f(Number(a_array.data[a_index]), a_im, Number(b_array.data[b_index]), b_im);
+        result.data[index] = re;
+        result.data[index + 1] = im;
+    }
+    return dtype === undefined || dtype === complex_dtype ? result : result.as_type(dtype);
+}
+
+/**
+ * Compute a product that is linear in both its inputs, at least one of which is complex, from products of their parts:
+ * (a_re + i a_im)(b_re + i b_im) = (a_re b_re - a_im b_im) + i (a_re b_im + a_im b_re).
+ * @param {tensor} a                                - The first input.
+ * @param {tensor} b                                - The second input.
+ * @param {(a: tensor, b: tensor) => tensor} product - The product for real inputs.
+ * @return {tensor}                                 - A complex tensor.
+ */
+function _complex_product(a: tensor, b: tensor, product: (a: tensor, b: tensor) => tensor): tensor {
+    const [a_re, a_im, b_re, b_im] = [complex.real(a), complex.imag(a), complex.real(b), complex.imag(b)];
+    const re = _sub(product(a_re, b_re), product(a_im, b_im));
+    const im = _add(product(a_re, b_im), product(a_im, b_re));
+    return complex.complex(re, im, utils._dtype_join(a.dtype, b.dtype));
+}
+
+/**
+ * Multiply two stacks of matrices, broadcasting over all but the last two axes.
+ * @param {Broadcastable} a - The first stack. Must be ... x m x n.
+ * @param {Broadcastable} b - The second stack. Must be ... x n x p.
+ * @returns {tensor}      - The stack of products, with shape (broadcast batch shape) x m x p.
  */
 export function broadcast_matmul(a: Broadcastable, b: Broadcastable): tensor {
     let a_array = _upcast_to_tensor(a);
     let b_array = _upcast_to_tensor(b);
+    if (_has_complex(a_array, b_array)) {
+        return _complex_product(a_array, b_array, broadcast_matmul);
+    }
 
     const a_shape: Uint32Array = a_array.shape;
     const b_shape: Uint32Array = b_array.shape;
@@ -97,33 +226,72 @@ export function broadcast_matmul(a: Broadcastable, b: Broadcastable): tensor {
         throw new Error(`Shapes ${a_shape} and ${b_shape} are not aligned for matrix multiplication.`);
     }
 
-    const broadcast = indexing.calculate_broadcast_dimensions(a_array.shape.slice(0, -2), b_array.shape.slice(0, -2));
+    const a_batch = a_shape.slice(0, -2);
+    const b_batch = b_shape.slice(0, -2);
+    const broadcast = indexing.calculate_broadcast_dimensions(a_batch, b_batch);
     const new_dimensions = new Uint32Array([...broadcast,
     a_shape[a_shape.length - 2],
     b_shape[b_shape.length - 1]
     ]);
 
     if (new_dimensions.length === 2) {
-        return tensor.matmul_2d(a_array, b_array);
-    } else {
-        const new_dtype = utils._dtype_join(a_array.dtype, b_array.dtype);
-        let array = constructors.zeros(new_dimensions, new_dtype);
-
-        const index_iter = indexing.iorder_index_iterator(new_dimensions.slice(0, -2));
-        const a_iter = indexing.iorder_index_iterator(a_shape.slice(0, -2));
-        const b_iter = indexing.iorder_index_iterator(b_shape.slice(0, -2));
-        const iter = utils.zip_longest(a_iter, b_iter, index_iter);
-        for (let [a_index, b_index, index] of iter) {
-            const slice = indexing.index_to_slice(index);
+        return matmul_2d(a_array, b_array);
+    }
 
-            const b1 = b_array.slice(...b_index);
-            const a1 = a_array.slice(...a_index);
-            const subarray = tensor.matmul_2d(a1, b1);
+    const new_dtype = utils._dtype_join(a_array.dtype, b_array.dtype);
+    const [m, k] = a_shape.slice(-2);
+    const n = b_shape[b_shape.length - 1];
+    const out = _product_buffer(indexing.compute_size(new_dimensions), new_dtype);
+    const out_stride = indexing.stride_from_shape(new_dimensions);
+    const batch_dims = broadcast.length;
 
-            array.s(subarray, ...slice);
-        }
-        return array;
+    for (let index of indexing.iorder_index_iterator(broadcast)) {
+        const a_matrix = _strided_matrix(a_array, _batch_offset(a_array, a_batch, index), new_dtype);
+        const b_matrix = _strided_matrix(b_array, _batch_offset(b_array, b_batch, index), new_dtype);
+        const c_offset = index.reduce((acc, e, i) => acc + e * out_stride[i], 0);
+        const c_matrix = {data: out, offset: c_offset, row_stride: out_stride[batch_dims], col_stride: out_stride[batch_dims + 1]};
+        _matmul_kernel(a_matrix, b_matrix, c_matrix, m, k, n);
     }
+
+    return _product_tensor(out, new_dimensions, new_dtype);
+}
+
+/**
+ * Allocate the array that `_matmul_kernel` accumulates a product into.
+ * 64-bit integer products are accumulated exactly, in an array of their dtype. Everything else is accumulated as float64.
+ * @param {number} size   - The number of elements of the product.
+ * @param {string} dtype  - The dtype of the product.
+ * @return {_KernelArray}
+ * @private
+ */
+function _product_buffer(size: number, dtype: string): _KernelArray {
+    return utils.is_bigint_dtype(dtype) ? new (utils.dtype_map(dtype))(size) : new Float64Array(size);
+}
+
+/**
+ * Wrap the output of `_matmul_kernel` in a tensor, converting it to the dtype of the product.
+ * @param {_KernelArray} out  - The output of the kernel, allocated by `_product_buffer`.
+ * @param {Uint32Array} shape - The shape of the product. out must be laid out with the default strides for it.
+ * @param {string} dtype      - The dtype of the product.
+ * @return {tensor}
+ * @private
+ */
+function _product_tensor(out: _KernelArray, shape: Uint32Array, dtype: string): tensor {
+    const data = dtype === 'float64' || utils.is_bigint_dtype(dtype) ? out : utils.dtype_map(dtype).from(out, e => utils.to_dtype_value(e, dtype));
+    return constructors.array(data, shape, {disable_checks: true, dtype: dtype});
+}
+
+/**
+ * Find the data offset of the sub-tensor of t at an index into a broadcast batch shape.
+ * @param {tensor} t                - The tensor. Its leading axes are the batch axes.
+ * @param {Uint32Array} batch_shape - The batch axes of t.
+ * @param {Uint32Array} index       - An index into the broadcast batch shape, which may have more axes than batch_shape.
+ * @return {number}                 - The offset into t.data.
+ * @private
+ */
+function _batch_offset(t: tensor, batch_shape: Uint32Array, index: Uint32Array): number {
+    const shift = index.length - batch_shape.length;
+    return batch_shape.reduce((acc, e, i) => e === 1 ? acc : acc + index[i + shift] * t.stride[i], t.initial_offset);
 }
 
 /**
@@ -134,22 +302,131 @@ export function broadcast_matmul(a: Broadcastable, b: Broadcastable): tensor {
  * @returns {tensor}  - The matrix product.
  */
 export function matmul_2d(a: tensor, b: tensor): tensor {
-    const new_shape = new Uint32Array([a.shape[0], b.shape[1]]);
+    a = _upcast_to_tensor(a);
+    b = _upcast_to_tensor(b);
+    if (a.shape.length !== 2 || b.shape.length !== 2 || a.shape[1] !== b.shape[0]) {
+        throw new errors.MismatchedShapes(a.shape, b.shape);
+    }
+    if (_has_complex(a, b)) {
+        return _complex_product(a, b, matmul_2d);
+    }
+    const [m, k] = a.shape;
+    const n = b.shape[1];
+    const new_shape = new Uint32Array([m, n]);
+    const new_dtype = utils._dtype_join(a.dtype, b.dtype);
+    const out = _product_buffer(m * n, new_dtype);
+    const out_stride = indexing.stride_from_shape(new_shape);
+    const c_matrix = {data: out, offset: 0, row_stride: out_stride[0], col_stride: out_stride[1]};
+    _matmul_kernel(_strided_matrix(a, a.initial_offset, new_dtype), _strided_matrix(b, b.initial_offset, new_dtype), c_matrix, m, k, n);
+    return _product_tensor(out, new_shape, new_dtype);
+}
 
-    let iter = {
-        [Symbol.iterator]: function* () {
-            for (let i = 0; i < new_shape[0]; i++) {
-                for (let j = 0; j < new_shape[1]; j++) {
-                    const a_vec = a.slice(i);
-                    const b_vec = b.slice(null, j);
-                    let x = tensor.dot(a_vec, b_vec);
-                    yield x;
+/**
+ * The arrays `_matmul_kernel` works on. Either all of its matrices hold numbers, or all of them hold BigInts.
+ * @private
+ */
+type _KernelArray = TypedArray | BigInt64Array | BigUint64Array;
+
+/**
+ * A matrix stored somewhere inside a flat array.
+ * Element (i, j) is at data[offset + i * row_stride + j * col_stride].
+ * @private
+ */
+interface _StridedMatrix {
+    data: _KernelArray;
+    offset: number;
+    row_stride: number;
+    col_stride: number;
+}
+
+/**
+ * View the last two axes of a tensor as a strided matrix.
+ * The data is copied if it holds numbers and the product holds BigInts, or the other way around, since the kernel can't mix them.
+ * @param {tensor} t        - The tensor.
+ * @param {number} offset   - The data offset of the matrix's first element.
+ * @param {string} dtype    - The dtype of the product.
+ * @return {_StridedMatrix}
+ * @private
+ */
+function _strided_matrix(t: tensor, offset: number, dtype: string): _StridedMatrix {
+    const ndims = t.shape.length;
+    const data = _kernel_data(t.data, t.dtype, dtype);
+    return {data: data, offset: offset, row_stride: t.stride[ndims - 2], col_stride: t.stride[ndims - 1]};
+}
+
+/**
+ * Convert values to the kind the kernel uses for a product: BigInts for 64-bit integer products, and numbers otherwise.
+ * @param {Iterable<any>} values  - The values.
+ * @param {string} from           - The dtype of the values.
+ * @param {string} dtype          - The dtype of the product.
+ * @return {_KernelArray}         - values itself if it is already an array of the right kind.
+ * @private
+ */
+function _kernel_data(values: any, from: string, dtype: string): _KernelArray {
+    if (utils.is_bigint_dtype(dtype)) {
+        return utils.is_bigint_dtype(from) && values instanceof utils.dtype_map(from) ? values : utils.dtype_map(dtype).from(values, e => BigInt(e));
+    }
+    return utils.is_bigint_dtype(from) || !utils.is_typed_array(values) ? Float64Array.from(values, Number) : values;
+}
+
+/**
+ * Size of the square tiles used by `_matmul_kernel`.
+ * @private
+ */
+const _BLOCK_SIZE = 64;
+
+/**
+ * Add the product of two strided matrices to a third: c += a x b. BigInt matrices are multiplied exactly, and wrap when stored.
+ * Works directly on the underlying arrays, so any layout (contiguous, transposed, sliced, negatively strided) is handled
+ * without copying. The loops are tiled so each block of a, b and c stays in cache, and within a tile the innermost loop
+ * runs along whichever output axis has the shorter strides.
+ * @param {_StridedMatrix} a  - The first matrix. Must be m x k.
+ * @param {_StridedMatrix} b  - The second matrix. Must be k x n.
+ * @param {_StridedMatrix} c  - The output matrix. Must be m x n.
+ * @param {number} m          - The number of rows of a.
+ * @param {number} k          - The number of columns of a.
+ * @param {number} n          - The number of columns of b.
+ * @private
+ */
+export function _matmul_kernel(a: _StridedMatrix, b: _StridedMatrix, c: _StridedMatrix, m: number, k: number, n: number): void {
+    // The arrays all hold numbers or all hold BigInts, which the type system can't express.
+    const a_data: any = a.data, a_rs = a.row_stride, a_cs = a.col_stride;
+    const b_data: any = b.data, b_rs = b.row_stride, b_cs = b.col_stride;
+    const c_data: any = c.data, c_rs = c.row_stride, c_cs = c.col_stride;
+    const rows_inner = Math.abs(a_rs) + Math.abs(c_rs) <= Math.abs(b_cs) + Math.abs(c_cs);
+
+    for (let ii = 0; ii < m; ii += _BLOCK_SIZE) {
+        const i_end = Math.min(ii + _BLOCK_SIZE, m);
+        for (let pp = 0; pp < k; pp += _BLOCK_SIZE) {
+            const p_end = Math.min(pp + _BLOCK_SIZE, k);
+            for (let jj = 0; jj < n; jj += _BLOCK_SIZE) {
+                const j_end = Math.min(jj + _BLOCK_SIZE, n);
+                if (rows_inner) {
+                    for (let j = jj; j < j_end; j++) {
+                        const c_col = c.offset + j * c_cs + ii * c_rs;
+                        const a_col = a.offset + ii * a_rs;
+                        for (let p = pp; p < p_end; p++) {
+                            const b_val = b_data[b.offset + p * b_rs + j * b_cs];
+                            for (let i = ii, a_idx = a_col + p * a_cs, c_idx = c_col; i < i_end; i++, a_idx += a_rs, c_idx += c_rs) {
+                                c_data[c_idx] += a_data[a_idx] * b_val;
+                            }
+                        }
+                    }
+                } else {
+                    for (let i = ii; i < i_end; i++) {
+                        const c_row = c.offset + i * c_rs + jj * c_cs;
+                        const b_row = b.offset + jj * b_cs;
+                        for (let p = pp; p < p_end; p++) {
+                            const a_val = a_data[a.offset + i * a_rs + p * a_cs];
+                            for (let j = jj, b_idx = b_row + p * b_rs, c_idx = c_row; j < j_end; j++, b_idx += b_cs, c_idx += c_cs) {
+                                c_data[c_idx] += a_val * b_data[b_idx];
+                            }
+                        }
+                    }
                 }
             }
         }
-    };
-
-    return constructors.from_iterable(iter, new_shape);
+    }
 }
 
 // TODO: Generalize to an inner product.
@@ -158,16 +435,31 @@ export function matmul_2d(a: tensor, b: tensor): tensor {
  * Compute the dot product of two arrays.
  * @param {tensor} a
  * @param {tensor} b
- * @return {number}
+ * @return {number} - A [real, imaginary] pair if either array is complex, and a BigInt if both are 64-bit integer arrays.
  */
 export function dot(a: tensor, b: tensor): number {
-    let acc = 0;
-    let a_iter = a._iorder_value_iterator();
-    let b_iter = b._iorder_value_iterator();
-    for (let [a_val, b_val] of utils.zip_iterable(a_iter[Symbol.iterator](), b_iter[Symbol.iterator]())) {
-        acc += a_val * b_val;
+    if (_has_complex(a, b)) {
+        const [a_re, a_im, b_re, b_im] = [complex.real(a), complex.imag(a), complex.real(b), complex.imag(b)];
+        return <any> [dot(a_re, b_re) - dot(a_im, b_im), dot(a_re, b_im) + dot(a_im, b_re)];
     }
-    return acc;
+    const [a_values, b_values] = _product_values(a, b);
+    let acc: any = a_values.length > 0 && typeof a_values[0] === 'bigint' ? BigInt(0) : 0;
+    for (let i = 0; i < a_values.length; i++) {
+        acc += a_values[i] * b_values[i];
+    }
+    return <number> acc;
+}
+
+/**
+ * Read the values of two tensors that are about to be multiplied together, in index order.
+ * The values are BigInts if both tensors are 64-bit integer tensors, so their products are exact, and numbers otherwise.
+ * @param {tensor} a
+ * @param {tensor} b
+ * @return {[any[], any[]]}
+ */
+function _product_values(a: tensor, b: tensor): [any[], any[]] {
+    const convert = utils.is_bigint_dtype(a.dtype) && utils.is_bigint_dtype(b.dtype) ? (x: number | bigint) => x : Number;
+    return [Array.from(a._iorder_value_iterator(), convert), Array.from(b._iorder_value_iterator(), convert)];
 }
 
 /**
@@ -178,7 +470,7 @@ export function dot(a: tensor, b: tensor): number {
  * @return {tensor}   - An array with the same shape as a and b. Its entries are the max of the corresponding entries of a and b.
  */
 export function take_max(a: tensor, b: tensor) {
-    return _binary_broadcast(a, b, (x, y) => Math.max(x, y));
+    return _binary_broadcast(a, b, (x, y) => typeof x === 'bigint' ? (x > y ? x : y) : Math.max(x, y));
 }
 
 /**
@@ -189,7 +481,7 @@ export function take_max(a: tensor, b: tensor) {
  * @return {tensor}   - An array with the same shape as a and b. Its entries are the min of the corresponding entries of a and b.
  */
 export function take_min(a: tensor, b: tensor) {
-    return _binary_broadcast(a, b, (x, y) => Math.min(x, y));
+    return _binary_broadcast(a, b, (x, y) => typeof x === 'bigint' ? (x < y ? x : y) : Math.min(x, y));
 }
 
 /**
@@ -197,10 +489,14 @@ export function take_min(a: tensor, b: tensor) {
  * output[i] = a[i] + [i].
  * @param a
  * @param b
+ * @param options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {number | tensor}
  */
-export function _add(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => x + y);
+export function _add(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}) {
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => [a_re + b_re, a_im + b_im], _output_dtype(a, b, options));
+    }
+    return _binary_broadcast(a, b, (x, y) => x + y, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
@@ -208,10 +504,14 @@ export function _add(a: Broadcastable, b: Broadcastable) {
  * output[i] = a[i] - b[i].
  * @param {Broadcastable} a - The minuend.
  * @param {Broadcastable} b - The subtrahend.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {Broadcastable} - The element-wise difference.
  */
-export function _sub(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => x - y);
+export function _sub(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => [a_re - b_re, a_im - b_im], _output_dtype(a, b, options));
+    }
+    return _binary_broadcast(a, b, (x, y) => x - y, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
@@ -219,62 +519,231 @@ export function _sub(a: Broadcastable, b: Broadcastable): tensor {
  * output[i] = a[i] * b[i].
  * @param {Broadcastable} a - First factor.
  * @param {Broadcastable} b - Second factor.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {Broadcastable} - The element-wise product of the two inputs.
  */
-export function _mult(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => x * y);
+export function _mult(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => [a_re * b_re - a_im * b_im, a_re * b_im + a_im * b_re], _output_dtype(a, b, options));
+    }
+    return _binary_broadcast(a, b, (x, y) => x * y, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
- * Compute the element-wise quotient of the two inputs.
+ * Compute the element-wise quotient of the two inputs. This is true division, so the result is always a float or complex tensor.
+ * Integer inputs give float64, like numpy.
  * output[i] = a[i] / b[i].
  * @param {Broadcastable} a - Dividend array.
  * @param {Broadcastable} b - Divisor array.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {Broadcastable}  - Quotient array.
  */
-export function _div(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => x / y, 'float64');
+export function _div(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => {
+            const denominator = b_re * b_re + b_im * b_im;
+            return [(a_re * b_re + a_im * b_im) / denominator, (a_im * b_re - a_re * b_im) / denominator];
+        }, _output_dtype(a, b, options));
+    }
+    const joined = dtypes.result_type(a, b);
+    const float_dtype = utils.dtype_kind(joined) === 'f' ? undefined : 'float64';
+    if (options.dtype !== undefined) {
+        // The quotient is cast to the requested dtype, so it has to be allowed as well as the inputs.
+        const casting = options.casting === undefined ? 'same_kind' : options.casting;
+        const quotient_dtype = float_dtype === undefined ? joined : float_dtype;
+        if (!dtypes.can_cast(quotient_dtype, options.dtype, casting)) {
+            throw new errors.CastingError(quotient_dtype, options.dtype, casting);
+        }
+    }
+    return _binary_broadcast(a, b, (x, y) => x / y, _output_dtype(a, b, options, float_dtype), options.overflow);
 }
 
 /**
- * Compute the element-wise power of two inputs
+ * Compute the element-wise power of two inputs.
+ * Integer inputs give an integer result, like numpy, so integers can't be raised to negative integer powers.
  * @param {Broadcastable} a - Base array.
  * @param {Broadcastable} b - Exponent array.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {tensor}       - Result array.
  * @
  */
-export function _power(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => Math.pow(x, y), 'float64');
+export function _power(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, _complex_power, _output_dtype(a, b, options));
+    }
+    const integer = _is_integer_dtype(options.dtype === undefined ? dtypes.result_type(a, b) : options.dtype);
+    const f = (x, y) => {
+        if (integer && y < 0) {
+            throw new Error('Integers cannot be raised to negative integer powers.');
+        }
+        return typeof x === 'bigint' ? _bigint_power(x, y) : Math.pow(x, y);
+    };
+    return _binary_broadcast(a, b, f, _output_dtype(a, b, options), options.overflow);
+}
+
+/**
+ * Raise a complex number to a complex power, using the principal value of the logarithm: a^b = exp(b log(a)).
+ * @param {number} a_re - The real part of the base.
+ * @param {number} a_im - The imaginary part of the base.
+ * @param {number} b_re - The real part of the exponent.
+ * @param {number} b_im - The imaginary part of the exponent.
+ * @return {[number, number]} - The real and imaginary parts of the power.
+ */
+function _complex_power(a_re: number, a_im: number, b_re: number, b_im: number): [number, number] {
+    if (b_re === 0 && b_im === 0) {
+        return [1, 0];
+    } else if (a_re === 0 && a_im === 0) {
+        return [0, 0];
+    }
+    const log_magnitude = Math.log(Math.hypot(a_re, a_im));
+    const angle = Math.atan2(a_im, a_re);
+    const magnitude = Math.exp(b_re * log_magnitude - b_im * angle);
+    const phase = b_im * log_magnitude + b_re * angle;
+    return [magnitude * Math.cos(phase), magnitude * Math.sin(phase)];
+}
+
+/**
+ * Raise a BigInt to a power by repeated squaring. The ** operator isn't available for BigInts when compiling to es6.
+ * @param {bigint} x  - The base.
+ * @param {bigint} y  - The exponent. Must not be negative.
+ * @return {bigint}
+ */
+function _bigint_power(x: bigint, y: bigint): bigint {
+    let result = BigInt(1);
+    while (y > 0) {
+        if (y % BigInt(2) === BigInt(1)) {
+            result *= x;
+        }
+        x *= x;
+        y /= BigInt(2);
+    }
+    return result;
+}
+
+/**
+ * Divide two BigInts, rounding up or down. BigInt division on its own rounds towards zero.
+ * Division by zero gives zero, like numpy's integer division.
+ * @param {bigint} x        - The dividend.
+ * @param {bigint} y        - The divisor.
+ * @param {boolean} ceil    - Round up if true, down otherwise.
+ * @return {bigint}
+ */
+function _bigint_div(x: bigint, y: bigint, ceil: boolean): bigint {
+    if (y === BigInt(0)) {
+        return y;
+    }
+    const quotient = x / y;
+    if (x % y === BigInt(0)) {
+        return quotient;
+    }
+    const positive = (x < 0) === (y < 0);
+    if (ceil && positive) {
+        return quotient + BigInt(1);
+    } else if (!ceil && !positive) {
+        return quotient - BigInt(1);
+    }
+    return quotient;
+}
+
+/**
+ * The remainder of x / y with the sign of y, like numpy's mod. Zero divisors give zero for BigInts and NaN for numbers.
+ * @param {number | bigint} x   - The dividend.
+ * @param {number | bigint} y   - The divisor.
+ * @return {number | bigint}
+ */
+function _floor_mod(x: number | bigint, y: number | bigint): number | bigint {
+    if (typeof x === 'bigint' || typeof y === 'bigint') {
+        const [x_big, y_big] = [BigInt(x), BigInt(y)];
+        if (y_big === BigInt(0)) {
+            return y_big;
+        }
+        const mod = x_big % y_big;
+        return mod !== BigInt(0) && (y_big < 0) !== (mod < 0) ? mod + y_big : mod;
+    }
+    const mod = x % y;
+    if (mod !== 0 && (y < 0) !== (mod < 0)) {
+        return mod + y;
+    } else if (mod === 0) {
+        // Zero remainders also take the sign of the divisor.
+        return y < 0 ? -0 : 0;
+    }
+    return mod;
+}
+
+/**
+ * Divide two numbers and round down, the same way numpy does.
+ * The quotient is computed from the remainder so that x = y * _floor_divide(x, y) + _floor_mod(x, y).
+ * @param {number} x  - The dividend.
+ * @param {number} y  - The divisor.
+ * @return {number}
+ */
+function _floor_divide(x: number, y: number): number {
+    if (y === 0) {
+        return x / y;
+    }
+    const mod = x % y;
+    let quotient = (x - mod) / y;
+    if (mod !== 0 && (y < 0) !== (mod < 0)) {
+        quotient -= 1;
+    }
+    if (quotient === 0) {
+        return (x / y) < 0 ? -0 : 0;
+    }
+    // The subtraction can leave the quotient just off an integer.
+    const floor = Math.floor(quotient);
+    return quotient - floor > 0.5 ? floor + 1 : floor;
 }
 
 /**
  * Compute the element-wise quotient of two arrays, rounding values up to the nearest integer.
+ * Integer division by zero gives zero.
  * @param {Broadcastable} a - Dividend array.
  * @param {Broadcastable} b - Divisor array.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {Broadcastable}  - Quotient array.
  */
-export function _cdiv(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => Math.ceil(x / y));
+export function _cdiv(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    const integer = _is_integer_dtype(options.dtype === undefined ? dtypes.result_type(a, b) : options.dtype);
+    const f = (x, y) => {
+        if (typeof x === 'bigint') {
+            return _bigint_div(x, y, true);
+        }
+        return integer && y === 0 ? 0 : -_floor_divide(-x, y);
+    };
+    return _binary_broadcast(a, b, f, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
  * Compute the element-wise quotient of two arrays, rounding values down to the nearest integer.
+ * Matches numpy's floor_divide, including for negative values. Integer division by zero gives zero.
  * @param {Broadcastable} a - Dividend array.
  * @param {Broadcastable} b - Divisor array.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {tensor}       - Quotient array.
  */
-export function _fdiv(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => Math.floor(x / y));
+export function _fdiv(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    const integer = _is_integer_dtype(options.dtype === undefined ? dtypes.result_type(a, b) : options.dtype);
+    const f = (x, y) => {
+        if (typeof x === 'bigint') {
+            return _bigint_div(x, y, false);
+        }
+        return integer && y === 0 ? 0 : _floor_divide(x, y);
+    };
+    return _binary_broadcast(a, b, f, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
- * Compute element-wise modulus of two arrays.
+ * Compute element-wise modulus of two arrays. The result has the sign of the divisor, like numpy's mod.
+ * Integer division by zero gives zero.
  * @param {Broadcastable} a - First array.
  * @param {Broadcastable} b - Second array.
+ * @param {OperationOptions} options - The dtype of the result, the casting rule for the inputs and the overflow mode.
  * @return {tensor}       - Modulus array.
  */
-export function _mod(a: Broadcastable, b: Broadcastable): tensor {
-    return _binary_broadcast(a, b, (x, y) => x % y);
+export function _mod(a: Broadcastable, b: Broadcastable, options: OperationOptions = {}): tensor {
+    const integer = _is_integer_dtype(options.dtype === undefined ? dtypes.result_type(a, b) : options.dtype);
+    const f = (x, y) => integer && y === 0 ? 0 : _floor_mod(x, y);
+    return _binary_broadcast(a, b, f, _output_dtype(a, b, options), options.overflow);
 }
 
 /**
@@ -283,7 +752,7 @@ export function _mod(a: Broadcastable, b: Broadcastable): tensor {
  * @param {tensor} b
  */
 export function _lt(a: tensor, b: tensor) {
-    return _binary_broadcast(a, b, (x, y) => +(x < y), 'uint8');
+    return _binary_broadcast(a, b, (x, y) => +(x < y), 'bool');
 }
 
 /**
@@ -292,7 +761,7 @@ export function _lt(a: tensor, b: tensor) {
  * @param {tensor} b
  */
 export function _gt(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => +(x > y), 'uint8');
+    return _binary_broadcast(a, b, (x, y) => +(x > y), 'bool');
 }
 
 /**
@@ -301,7 +770,7 @@ export function _gt(a: Broadcastable, b: Broadcastable) {
  * @param {Broadcastable} b
  */
 export function _le(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => +(x <= y), 'uint8');
+    return _binary_broadcast(a, b, (x, y) => +(x <= y), 'bool');
 }
 
 /**
@@ -310,7 +779,7 @@ export function _le(a: Broadcastable, b: Broadcastable) {
  * @param {Broadcastable} b
  */
 export function _ge(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => +(x >= y), 'uint8');
+    return _binary_broadcast(a, b, (x, y) => +(x >= y), 'bool');
 }
 
 /**
@@ -319,7 +788,10 @@ export function _ge(a: Broadcastable, b: Broadcastable) {
  * @param {Broadcastable} b
  */
 export function _ne(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => +(x !== y), 'uint8');
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => [+(a_re !== b_re || a_im !== b_im), 0], 'bool');
+    }
+    return _binary_broadcast(a, b, (x, y) => +(x !== y), 'bool');
 }
 
 /**
@@ -328,11 +800,14 @@ export function _ne(a: Broadcastable, b: Broadcastable) {
  * @param {Broadcastable} b
  */
 export function _eq(a: Broadcastable, b: Broadcastable) {
-    return _binary_broadcast(a, b, (x, y) => +(x === y), 'uint8');
+    if (_has_complex(a, b)) {
+        return _complex_broadcast(a, b, (a_re, a_im, b_re, b_im) => [+(a_re === b_re && a_im === b_im), 0], 'bool');
+    }
+    return _binary_broadcast(a, b, (x, y) => +(x === y), 'bool');
 }
 
 /**
- * Determine whether the elements of each tensor are close
+ * Determine whether the elements of each tensor are close. Complex elements are compared by the magnitude of their difference.
  * @param a  - First tensor
  * @param b - Second tensor
  * @param rel_tol - Relative tolerance
@@ -341,76 +816,276 @@ export function _eq(a: Broadcastable, b: Broadcastable) {
  */
 export function is_close(a: tensor, b: tensor, rel_tol: number = 1e-5, abs_tol: number = 1e-8): tensor {
     const compare = (x: number, y: number): number => {
-        return +(Math.abs(x - y) <= abs_tol + (rel_tol * Math.abs(y)));
+        return +(Math.abs(Number(x - y)) <= abs_tol + (rel_tol * Math.abs(Number(y))));
+    }
+    if (_has_complex(a, b)) {
+        const f = (a_re, a_im, b_re, b_im): [number, number] => [+(Math.hypot(a_re - b_re, a_im - b_im) <= abs_tol + rel_tol * Math.hypot(b_re, b_im)), 0];
+        return _complex_broadcast(a, b, f, 'bool');
+    }
+    return _binary_broadcast(a, b, compare, 'bool');
+}
+
+/**
+ * Compute element-wise logical and. Nonzero elements are true.
+ * @param {Broadcastable} a
+ * @param {Broadcastable} b
+ * @return {tensor} - A bool tensor.
+ */
+export function _logical_and(a: Broadcastable, b: Broadcastable): tensor {
+    return _binary_broadcast(a, b, (x, y) => +(Boolean(x) && Boolean(y)), 'bool');
+}
+
+/**
+ * Compute element-wise logical or. Nonzero elements are true.
+ * @param {Broadcastable} a
+ * @param {Broadcastable} b
+ * @return {tensor} - A bool tensor.
+ */
+export function _logical_or(a: Broadcastable, b: Broadcastable): tensor {
+    return _binary_broadcast(a, b, (x, y) => +(Boolean(x) || Boolean(y)), 'bool');
+}
+
+/**
+ * Compute element-wise logical exclusive or. Nonzero elements are true.
+ * @param {Broadcastable} a
+ * @param {Broadcastable} b
+ * @return {tensor} - A bool tensor.
+ */
+export function _logical_xor(a: Broadcastable, b: Broadcastable): tensor {
+    return _binary_broadcast(a, b, (x, y) => +(Boolean(x) !== Boolean(y)), 'bool');
+}
+
+/**
+ * Convert a list of axes to positive axes, checking that they are valid and distinct.
+ * @param {tensor} a        - The tensor the axes belong to.
+ * @param {number[]} axes   - The axes. Negative axes count from the end.
+ * @return {number[]}       - The positive axes.
+ * @private
+ */
+function _normalize_axes(a: tensor, axes: number[]): number[] {
+    const ndims = a.shape.length;
+    const positive = Array.from(axes, e => e < 0 ? e + ndims : e);
+    const valid = positive.every((e, i) => utils.is_int(e) && e >= 0 && e < ndims && positive.indexOf(e) === i);
+    if (!valid) {
+        throw new errors.BadShape(`Invalid axes ${axes} for a tensor with ${ndims} dimensions.`);
     }
-    return _binary_broadcast(a, b, compare);
+    return positive;
 }
 
 /**
- * Computer a tensor product along the given axes
+ * Compute a tensor product along the given axes.
+ * Works like numpy's tensordot: the contracted axes are moved to the end of a and the start of b, both tensors are
+ * reshaped to matrices, and the result is a single matrix multiplication.
  * @param a - The first tensor
  * @param b - The second tensor
- * @param axes - The axes to compute the product over
- * @returns - The tensor product
+ * @param axes - Either a number n, meaning the last n axes of a are contracted with the first n axes of b,
+ *  or a pair [a_axes, b_axes] of equal length lists of axes to contract. a_axes[i] is paired with b_axes[i].
+ * @returns - The tensor product. Its shape is the free axes of a followed by the free axes of b.
  */
-export function tensordot(a: tensor, b: tensor, axes: number | Shape): tensor {
+export function tensordot(a: tensor, b: tensor, axes: number | [number[], number[]]): tensor {
+    let a_axes: number[];
+    let b_axes: number[];
     if (typeof axes === 'number') {
-        return _one_axis_tensordot(a, b, axes);
+        if (!utils.is_int(axes) || axes < 0 || a.shape.length < axes || b.shape.length < axes) {
+            throw new Error(`Invalid axes for tensor dot. axes=${axes}, a.shape=${a.shape.length}, b.shape=${b.shape.length}`);
+        }
+        a_axes = Array.from(new Array(axes), (e, i) => a.shape.length - axes + i);
+        b_axes = Array.from(new Array(axes), (e, i) => i);
     } else {
-        throw new Error('Not implemented')
-    }
-}
-
-function _one_axis_tensordot(a: tensor, b: tensor, axis: number): tensor {
-    // Check axis isn't too big
-    if (a.shape.length < axis || b.shape.length < axis) {
-        throw new Error(`Invalid axes for tensor dot. axes=${axis}, a.shape=${a.shape.length}, b.shape=${b.shape.length}`);
+        a_axes = _normalize_axes(a, axes[0]);
+        b_axes = _normalize_axes(b, axes[1]);
+        if (a_axes.length !== b_axes.length) {
+            throw new Error(`Axes ${axes[0]} and ${axes[1]} have different lengths.`);
+        }
     }
 
-    // Check overlapping dimensions are the same
-    for (let i=0; i<axis; i++) {
-        const a_idx = a.shape.length - i - 1;
-        if (a.shape[a_idx] !== b.shape[i]) {
+    for (let i = 0; i < a_axes.length; i++) {
+        if (a.shape[a_axes[i]] !== b.shape[b_axes[i]]) {
             throw new errors.MismatchedShapes(a.shape, b.shape);
         }
     }
-
-    // Special case the dot product. Just easier to write this way
-    if (a.shape.length === 1 && b.shape.length === 1) {
-        const dtype = utils._dtype_join(a.dtype, b.dtype);
-        return constructors.from_nested_array([dot(a, b)], dtype);
+    if (_has_complex(a, b)) {
+        return _complex_product(a, b, (x, y) => tensordot(x, y, [a_axes, b_axes]));
     }
-    const a_dims = a.shape.slice(0, a.shape.length - axis);
-    const b_dims = b.shape.slice(axis);
-    let final_shape = new Uint32Array([...a_dims, ...b_dims]);
-    let iter_shape: Uint32Array;
+
+    const a_free = Array.from(a.shape, (e, i) => i).filter(e => a_axes.indexOf(e) === -1);
+    const b_free = Array.from(b.shape, (e, i) => i).filter(e => b_axes.indexOf(e) === -1);
+    const size = (t: tensor, dims: number[]) => dims.reduce((acc, e) => acc * t.shape[e], 1);
+    const m = size(a, a_free);
+    const k = size(a, a_axes);
+    const n = size(b, b_free);
+
+    // Transposing only permutes the strides, so the copies below are the only pass over the data.
+    const dtype = utils._dtype_join(a.dtype, b.dtype);
+    const a_values = _kernel_data(a.transpose(...a_free, ...a_axes)._iorder_value_iterator(), a.dtype, dtype);
+    const b_values = _kernel_data(b.transpose(...b_axes, ...b_free)._iorder_value_iterator(), b.dtype, dtype);
+    const product = _product_buffer(m * n, dtype);
+    _matmul_kernel(
+        {data: a_values, offset: 0, row_stride: k, col_stride: 1},
+        {data: b_values, offset: 0, row_stride: n, col_stride: 1},
+        {data: product, offset: 0, row_stride: n, col_stride: 1},
+        m, k, n
+    );
+
+    let final_shape = [...a_free.map(e => a.shape[e]), ...b_free.map(e => b.shape[e])];
     if (final_shape.length === 0) {
-        final_shape = new Uint32Array([1]);
-        iter_shape = new Uint32Array([1, 1]);
-    } else {
-        iter_shape = final_shape;
+        final_shape = [1];
     }
+    return constructors.from_iterable(product, final_shape, dtype);
+}
 
-    // Special case one-dimensional arrays
-    if (a.shape.length === 1) {
-        return _one_axis_tensordot(a.reshape([1, a.shape[0]]), b, axis).reshape(final_shape);
-    } else if (b.shape.length === 1) {
-        return _one_axis_tensordot(a, b.reshape([b.shape[0], 1]), axis).reshape(final_shape);
+/**
+ * Compute the outer product of two tensors.
+ * Both inputs are flattened first, so the result is always two dimensional.
+ * @param {tensor} a  - The first tensor. Has m elements.
+ * @param {tensor} b  - The second tensor. Has n elements.
+ * @return {tensor}   - An m x n tensor. output[i, j] = a[i] * b[j].
+ */
+export function outer(a: tensor, b: tensor): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_product(a, b, outer);
     }
-
-    const result_index_iterator = indexing.iorder_index_iterator(iter_shape);
+    const [a_values, b_values] = _product_values(a, b);
     const iter = {
-        [Symbol.iterator]: function* gen() {
-            for (let idx of result_index_iterator) {
-                // Dot product of axis -idx in a and axis idx in b.
-                const a_idx = axis - idx[0] - 1;
-                const a_slice = a.slice(a_idx, null);
-                const b_idx = idx[1];
-                const b_slice = b.slice(null, b_idx);
-                yield dot(a_slice, b_slice);
+        [Symbol.iterator]: function* () {
+            for (let a_val of a_values) {
+                for (let b_val of b_values) {
+                    yield a_val * b_val;
+                }
             }
         }
+    };
+    return constructors.from_iterable(iter, [a_values.length, b_values.length], utils._dtype_join(a.dtype, b.dtype));
+}
+
+/**
+ * Compute the inner product of two tensors over their last axes.
+ * For vectors this is the dot product. In general output[i..., j...] = sum_k a[i..., k] * b[j..., k].
+ * @param {tensor} a          - The first tensor.
+ * @param {tensor} b          - The second tensor. Its last axis must be the same size as the last axis of a.
+ * @return {tensor | number}  - The inner product. Its shape is the shape of a without its last axis, followed by the shape of b without its last axis.
+ *                              Like `dot`, two vectors give a scalar, which is a [real, imaginary] pair if either is complex.
+ */
+export function inner(a: tensor, b: tensor): tensor | number {
+    const product = tensordot(a, b, [[-1], [-1]]);
+    return a.shape.length === 1 && b.shape.length === 1 ? product.g(0) : product;
+}
+
+/**
+ * Compute the Kronecker product of two tensors.
+ * If the tensors have different numbers of dimensions, the shape of the smaller one is padded with ones at the front.
+ * @param {tensor} a  - The first tensor.
+ * @param {tensor} b  - The second tensor.
+ * @return {tensor}   - A tensor made of blocks of b, each scaled by an element of a. Its shape is the element-wise product of the shapes.
+ */
+export function kron(a: tensor, b: tensor): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_product(a, b, kron);
+    }
+    const ndims = Math.max(a.shape.length, b.shape.length);
+    const pad = (shape: Uint32Array) => new Uint32Array([...new Array(ndims - shape.length).fill(1), ...shape]);
+    const a_shape = pad(a.shape);
+    const b_shape = pad(b.shape);
+    const new_shape = a_shape.map((e, i) => e * b_shape[i]);
+
+    // The C-order strides of the output.
+    const out_stride = new Array(ndims).fill(1);
+    for (let i = ndims - 2; i >= 0; i--) {
+        out_stride[i] = out_stride[i + 1] * new_shape[i + 1];
+    }
+    const [a_values, b_values] = _product_values(a, b);
+    const values = new Array(indexing.compute_size(new_shape));
+    const b_indices = Array.from(indexing.iorder_index_iterator(b_shape), index => Array.from(index));
+
+    const a_iter = utils.zip_iterable(a_values[Symbol.iterator](), indexing.iorder_index_iterator(a_shape)[Symbol.iterator]());
+    for (let [a_val, a_index] of a_iter) {
+        const block_start = a_index.reduce((acc, e, i) => acc + e * b_shape[i] * out_stride[i], 0);
+        for (let j = 0; j < b_values.length; j++) {
+            const position = b_indices[j].reduce((acc, e, i) => acc + e * out_stride[i], block_start);
+            values[position] = a_val * b_values[j];
+        }
+    }
+    return constructors.from_iterable(values, new_shape, utils._dtype_join(a.dtype, b.dtype));
+}
+
+/**
+ * Compute the cross product of two tensors of vectors.
+ * Works like numpy's cross: vectors of length 2 are treated as having a z component of 0, and if both vectors have length 2
+ * only the z component of the product is returned. All other axes are broadcast together.
+ * @param {tensor} a          - The first tensor of vectors.
+ * @param {tensor} b          - The second tensor of vectors.
+ * @param {number} axis       - The axis of a and b (and of the output) that holds the vectors. Defaults to the last axis.
+ * @return {tensor | number}  - The cross products. Two single vectors of length 2 give a scalar, which is a [real, imaginary]
+ *                              pair if either is complex.
+ */
+export function cross(a: tensor, b: tensor, axis: number = -1): tensor | number {
+    a = _upcast_to_tensor(a);
+    b = _upcast_to_tensor(b);
+    const product = _cross(a, b, axis);
+    const vectors_2d = a.shape.length === 1 && b.shape.length === 1 && a.shape[0] === 2 && b.shape[0] === 2;
+    return vectors_2d ? product.g(0) : product;
+}
+
+/**
+ * Compute the cross product of two tensors of vectors, as a tensor. See `cross`.
+ * @param {tensor} a      - The first tensor of vectors.
+ * @param {tensor} b      - The second tensor of vectors.
+ * @param {number} axis   - The axis that holds the vectors.
+ * @return {tensor}       - The cross products. Has shape [1] for two single vectors of length 2.
+ * @private
+ */
+function _cross(a: tensor, b: tensor, axis: number): tensor {
+    if (_has_complex(a, b)) {
+        return _complex_product(a, b, (x, y) => _cross(x, y, axis));
+    }
+    const [a_axis] = _normalize_axes(a, [axis]);
+    const [b_axis] = _normalize_axes(b, [axis]);
+    const a_size = a.shape[a_axis];
+    const b_size = b.shape[b_axis];
+    if ((a_size !== 2 && a_size !== 3) || (b_size !== 2 && b_size !== 3)) {
+        throw new errors.BadShape(`Vectors must have length 2 or 3 for a cross product. Got ${a_size} and ${b_size}.`);
     }
 
-    return constructors.from_iterable(iter, final_shape, utils._dtype_join(a.dtype, b.dtype));
+    // Move the vector axes to the end so the leading axes can be broadcast like a batch.
+    const move_to_end = (t: tensor, t_axis: number) => t.transpose(...Array.from(t.shape, (e, i) => i).filter(e => e !== t_axis), t_axis);
+    const a_moved = move_to_end(a, a_axis);
+    const b_moved = move_to_end(b, b_axis);
+    const a_batch = a_moved.shape.slice(0, -1);
+    const b_batch = b_moved.shape.slice(0, -1);
+    const batch = indexing.calculate_broadcast_dimensions(a_batch, b_batch);
+    const a_step = a_moved.stride[a_moved.shape.length - 1];
+    const b_step = b_moved.stride[b_moved.shape.length - 1];
+
+    const dtype = utils._dtype_join(a.dtype, b.dtype);
+    const components = a_size === 2 && b_size === 2 ? 1 : 3;
+    const values: any = _product_buffer(batch.reduce((acc, e) => acc * e, components), dtype);
+    // 64-bit integer products are computed exactly with BigInts, and everything else with numbers.
+    const convert: (x: any) => any = utils.is_bigint_dtype(dtype) ? BigInt : Number;
+    let i = 0;
+    for (let index of indexing.iorder_index_iterator(batch)) {
+        const a_offset = _batch_offset(a_moved, a_batch, index);
+        const b_offset = _batch_offset(b_moved, b_batch, index);
+        const [a0, a1] = [convert(a_moved.data[a_offset]), convert(a_moved.data[a_offset + a_step])];
+        const [b0, b1] = [convert(b_moved.data[b_offset]), convert(b_moved.data[b_offset + b_step])];
+        const a2 = convert(a_size === 3 ? a_moved.data[a_offset + 2 * a_step] : 0);
+        const b2 = convert(b_size === 3 ? b_moved.data[b_offset + 2 * b_step] : 0);
+        if (components === 3) {
+            values[i++] = a1 * b2 - a2 * b1;
+            values[i++] = a2 * b0 - a0 * b2;
+        }
+        values[i++] = a0 * b1 - a1 * b0;
+    }
+
+    if (components === 1) {
+        return constructors.from_iterable(values, batch.length === 0 ? [1] : batch, dtype);
+    }
+    const result = constructors.from_iterable(values, [...batch, 3], dtype);
+    const ndims = result.shape.length;
+    const out_axis = axis < 0 ? axis + ndims : axis;
+    if (out_axis < 0 || out_axis >= ndims) {
+        throw new errors.BadShape(`Invalid axis ${axis} for a result with ${ndims} dimensions.`);
+    }
+    const order = Array.from(result.shape.slice(0, -1), (e, i) => i);
+    order.splice(out_axis, 0, ndims - 1);
+    return result.transpose(...order);
 }
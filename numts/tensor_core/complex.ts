@@ -0,0 +1,134 @@
+import {tensor, errors} from '../tensor';
+import * as constructors from './constructors';
+import {utils} from '../utils';
+
+/**
+ * The dtype of the real and imaginary parts of a complex dtype.
+ * @param {string} dtype  - A complex dtype.
+ * @return {string}
+ */
+function _part_dtype(dtype: string): string {
+    return dtype === 'complex64' ? 'float32' : 'float64';
+}
+
+/**
+ * Throw if any of the arguments is a complex tensor, for operations that only support real values.
+ * @param {string} name   - The name of the operation, for the error message.
+ * @param {any[]} args    - The arguments of the operation.
+ */
+export function _check_real(name: string, ...args: any[]) {
+    if (args.some(e => e instanceof tensor && utils.is_complex(e.dtype))) {
+        throw new Error(`${name} does not support complex tensors.`);
+    }
+}
+
+/**
+ * Create a complex tensor from its real and imaginary parts.
+ * @param {tensor} re     - The real parts.
+ * @param {tensor} im     - The imaginary parts. Must have the same shape as re. Zero if not passed.
+ * @param {string} dtype  - complex64 or complex128. Defaults to the smallest complex dtype that holds both parts.
+ * @return {tensor}
+ */
+export function complex(re: tensor, im?: tensor, dtype?: string): tensor {
+    if (utils.is_complex(re.dtype) || (im !== undefined && utils.is_complex(im.dtype))) {
+        throw new Error('The parts of a complex tensor must be real.');
+    }
+    if (im !== undefined && !utils.array_equal(re.shape, im.shape)) {
+        throw new errors.MismatchedShapes(re.shape, im.shape);
+    }
+    if (dtype === undefined) {
+        dtype = utils._dtype_join(im === undefined ? re.dtype : utils._dtype_join(re.dtype, im.dtype), 'complex64');
+    } else if (!utils.is_complex(dtype)) {
+        throw new Error(`${dtype} is not a complex dtype.`);
+    }
+
+    const result = constructors.zeros(re.shape, dtype);
+    const fill = (values: tensor, part: number) => {
+        const iter = utils.zip_iterable(result._iorder_data_iterator()[Symbol.iterator](), values._iorder_value_iterator()[Symbol.iterator]());
+        for (let [index, value] of iter) {
+            result.data[index + part] = Number(value);
+        }
+    };
+    fill(re, 0);
+    if (im !== undefined) {
+        fill(im, 1);
+    }
+    return result;
+}
+
+/**
+ * The real part of a tensor.
+ * For complex tensors this is a view, so writing to it changes the original tensor. Real tensors are returned as is.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function real(a: tensor): tensor {
+    if (!utils.is_complex(a.dtype)) {
+        return a;
+    }
+    return new tensor(a.data, a.shape, a.offset, a.stride, a.dstride, a.length, _part_dtype(a.dtype), true, a.initial_offset);
+}
+
+/**
+ * The imaginary part of a tensor.
+ * For complex tensors this is a view, so writing to it changes the original tensor. Real tensors give zeros.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function imag(a: tensor): tensor {
+    if (!utils.is_complex(a.dtype)) {
+        return constructors.zeros(a.shape, a.dtype);
+    }
+    return new tensor(a.data, a.shape, a.offset, a.stride, a.dstride, a.length, _part_dtype(a.dtype), true, a.initial_offset + 1);
+}
+
+/**
+ * The complex conjugate of a tensor. Real tensors are returned as is.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function conj(a: tensor): tensor {
+    if (!utils.is_complex(a.dtype)) {
+        return a;
+    }
+    const result = complex(real(a), imag(a), a.dtype);
+    for (let index of result._iorder_data_iterator()) {
+        result.data[index + 1] = -result.data[index + 1];
+    }
+    return result;
+}
+
+/**
+ * Apply a function to the real and imaginary parts of each element of a tensor.
+ * @param {tensor} a                              - The tensor.
+ * @param {(re: number, im: number) => number} f  - The function.
+ * @param {string} dtype                          - The dtype of the result.
+ * @return {tensor}
+ */
+function _map_parts(a: tensor, f: (re: number, im: number) => number, dtype: string): tensor {
+    const iter = utils.zip_iterable(real(a)._iorder_value_iterator()[Symbol.iterator](), imag(a)._iorder_value_iterator()[Symbol.iterator]());
+    return constructors.from_iterable(utils.imap(iter, ([re, im]) => f(re, im)), a.shape, dtype);
+}
+
+/**
+ * The absolute value of each element of a tensor. For complex tensors this is the magnitude, and has the dtype of the parts.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function abs(a: tensor): tensor {
+    if (!utils.is_complex(a.dtype)) {
+        const f = (x: number | bigint) => typeof x === 'bigint' ? (x < 0 ? -x : x) : Math.abs(x);
+        return constructors.from_iterable(utils.imap(a._iorder_value_iterator(), f), a.shape, a.dtype);
+    }
+    return _map_parts(a, Math.hypot, _part_dtype(a.dtype));
+}
+
+/**
+ * The angle of each element of a tensor in the complex plane, in radians in (-pi, pi].
+ * @param {tensor} a
+ * @return {tensor} - float32 for complex64 tensors, float64 otherwise.
+ */
+export function angle(a: tensor): tensor {
+    const dtype = utils.is_complex(a.dtype) ? _part_dtype(a.dtype) : 'float64';
+    return _map_parts(a, (re, im) => Math.atan2(im, re), dtype);
+}
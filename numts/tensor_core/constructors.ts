@@ -50,6 +50,7 @@ export function arange(start_or_stop: number, stop?: number, step?: number, shap
 
 /**
  * Create a tensor containing the specified data
+ * The data is in index order: the last axis varies fastest, like C order in numpy.
  * @param data
  * @param shape
  * @param options
@@ -60,14 +61,17 @@ export function array(data, shape?, options?: ArrayOptions): tensor {
     let size;
     let dtype;
 
-    if (shape === undefined) {
-        shape = new Uint32Array([data.length]);
-    }
-
     if (options && options.dtype) {
         dtype = options.dtype
     }
 
+    // Complex dtypes use two entries of data per element.
+    const width = utils.dtype_width(dtype);
+
+    if (shape === undefined) {
+        shape = new Uint32Array([data.length / width]);
+    }
+
     if (options && options.disable_checks === true) {
         final_shape = shape;
         size = indexing.compute_size(shape);
@@ -77,7 +81,7 @@ export function array(data, shape?, options?: ArrayOptions): tensor {
         }
 
         if (shape === undefined || shape === null) {
-            final_shape = new Uint32Array([data.length]);
+            final_shape = new Uint32Array([data.length / width]);
         } else {
             final_shape = indexing.compute_shape(shape);
         }
@@ -85,12 +89,12 @@ export function array(data, shape?, options?: ArrayOptions): tensor {
         // Compute length
         size = indexing.compute_size(final_shape);
 
-        if (size !== data.length) {
+        if (size * width !== data.length) {
             throw new errors.MismatchedShapeSize()
         }
     }
 
-    const stride = indexing.stride_from_shape(final_shape);
+    const stride = indexing.stride_from_shape(final_shape).map(e => e * width);
     const offset = new Uint32Array(final_shape.length);
     const dstride = stride.slice();
 
@@ -123,13 +127,13 @@ export function from_nested_array(arr: any[], dtype?: string): tensor {
 
     const size = indexing.compute_size(dimensions);
     const array_type = utils.dtype_map(dtype);
-    const data = new array_type(size);
+    const data = new array_type(size * utils.dtype_width(dtype));
 
     let ndarray = array(data, dimensions, { dtype: dtype, disable_checks: true });
 
     for (let indices of slice_iter) {
         const real_index = ndarray._compute_real_index(indices);
-        ndarray.data[real_index] = utils._nested_array_value_from_index(arr, indices);
+        ndarray.data[real_index] = utils.to_dtype_value(utils._nested_array_value_from_index(arr, indices), ndarray.dtype);
     }
 
     return ndarray;
@@ -137,6 +141,8 @@ export function from_nested_array(arr: any[], dtype?: string): tensor {
 
 /**
  * Create an n-dimensional array from an iterable.
+ * Complex values are [real, imaginary] pairs. Plain numbers given for a complex dtype are the real parts, with imaginary parts
+ * of zero, and pairs given for a real dtype keep only their real parts.
  * @param iterable
  * @param shape
  * @param {string} dtype
@@ -149,17 +155,25 @@ export function from_iterable(iterable: Iterable<number>, shape: Shape, dtype?:
     const array_type = utils.dtype_map(dtype);
     const index_iterator = indexing.iorder_index_iterator(final_shape);
     const val_gen = iterable[Symbol.iterator]();
-    let data = new array_type(size);
+    const width = utils.dtype_width(dtype);
+    let data = new array_type(size * width);
     const stride = indexing.stride_from_shape(final_shape);
     const initial_offset = 0;
     let i = 0;
     for (let index of index_iterator) {
         const real_index = indexing.index_in_data(index, stride, initial_offset);
         let val = val_gen.next();
-        data[real_index] = val.value;
+        if (Array.isArray(val.value)) {
+            data[real_index * width] = utils.to_dtype_value(val.value[0], dtype);
+            if (width === 2) {
+                data[real_index * width + 1] = val.value[1];
+            }
+        } else {
+            data[real_index * width] = utils.to_dtype_value(val.value, dtype);
+        }
     }
 
-    if (data.length !== size) {
+    if (data.length !== size * width) {
         throw new errors.MismatchedShapeSize(`Iterable passed has size ${data.length}. Size expected from shape was: ${size}`);
     }
 
@@ -168,6 +182,7 @@ export function from_iterable(iterable: Iterable<number>, shape: Shape, dtype?:
 
 /**
  * Produces an array of the desired shape filled with a single value.
+ * For complex dtypes the value is the real part, and the imaginary parts are zero.
  * @param {number} value                - The value to fill in.
  * @param shape - A numerical array or a number. If this is a number a one-dimensional array of that length is produced.
  * @param {string} dtype                - The data type to use for the array. float64 by default.
@@ -178,7 +193,12 @@ export function filled(value: number, shape, dtype?: string): tensor {
 
     const size = indexing.compute_size(final_shape);
     const array_type = utils.dtype_map(dtype);
-    const data = new array_type(size).fill(value);
+    const width = utils.dtype_width(dtype);
+    const data = new array_type(size * width);
+    const fill_value = utils.to_dtype_value(value, dtype);
+    for (let i = 0; i < data.length; i += width) {
+        data[i] = fill_value;
+    }
 
     return array(data, final_shape, { disable_checks: true, dtype: dtype });
 }
@@ -194,7 +214,7 @@ export function zeros(shape, dtype?: string): tensor {
     const final_shape = indexing.compute_shape(shape);
     const size = indexing.compute_size(final_shape);
     const array_type = utils.dtype_map(dtype);
-    const data = new array_type(size);
+    const data = new array_type(size * utils.dtype_width(dtype));
 
     return array(data, final_shape, { disable_checks: true, dtype: dtype });
 }
@@ -225,10 +245,10 @@ export function eye(m: number, dtype?: string): tensor {
 // TODO: Broadcasting
 /**
  * Return values from a or b according to the condition
- * @param {tensor} condition - Determines which array to pull from
+ * @param {tensor} condition - Determines which array to pull from. Usually a bool tensor; nonzero elements are true.
  * @param {tensor} a - Array to pull from when condition is true
  * @param {tensor} b - Array to pull from when condition is false
- * @returns {tensor} - Array of values from a or b
+ * @returns {tensor} - Array of values from a or b. Complex if either a or b is.
  **/
 export function where(condition: tensor, a: tensor, b: tensor): tensor {
     if (!utils.array_equal(condition.shape, a.shape) || !utils.array_equal(condition.shape, b.shape)) {
@@ -242,14 +262,15 @@ export function where(condition: tensor, a: tensor, b: tensor): tensor {
             for (let c of c_iter) {
                 const a_val = a_iter.next();
                 const b_val = b_iter.next();
-                if (c === 0) {
-                    yield b_val.value;
-                } else {
+                if (c) {
                     yield a_val.value;
+                } else {
+                    yield b_val.value;
                 }
             }
         }
     };
 
-    return from_iterable(iter, condition.shape, a.dtype);
+    const dtype = utils.is_complex(a.dtype) || utils.is_complex(b.dtype) ? utils._dtype_join(a.dtype, b.dtype) : a.dtype;
+    return from_iterable(iter, condition.shape, dtype);
 }
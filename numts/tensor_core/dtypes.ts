@@ -0,0 +1,103 @@
+import {tensor, errors, Broadcastable, Casting} from '../tensor';
+import {utils} from '../utils';
+
+/**
+ * The order of the kinds of dtypes. A same_kind cast can only go to a kind that is the same or later.
+ */
+const _KIND_ORDER = ['b', 'u', 'i', 'f', 'c'];
+
+/**
+ * Find the dtype that combining the arguments gives, like numpy's `result_type`.
+ * Numbers are weakly typed: they don't change the dtype of the tensors they're combined with unless they need a different kind.
+ * Integers keep integer and float dtypes, and other numbers turn bool and integer dtypes into float64.
+ * Arithmetic throws an IntegerOverflow if an integer doesn't fit in the integer dtype it keeps (see `_check_scalar_range`).
+ * @param {Array<Broadcastable | string | bigint>} args - Tensors, dtypes and scalars. Arrays count as float64 tensors.
+ * @return {string}
+ *
+ * @example
+ *    result_type('int8', 'uint8');             // 'int16'
+ *    result_type(numts.arange(3), 1);          // 'int32'
+ *    result_type(numts.arange(3), 0.5);        // 'float64'
+ */
+export function result_type(...args: Array<Broadcastable | string | bigint>): string {
+    const strong = [];
+    const weak = [];
+    for (let arg of args) {
+        if (arg instanceof tensor) {
+            strong.push(arg.dtype);
+        } else if (typeof arg === 'string') {
+            strong.push(arg);
+        } else if (typeof arg === 'number' || typeof arg === 'bigint') {
+            weak.push(arg);
+        } else {
+            strong.push('float64');
+        }
+    }
+    if (strong.length === 0) {
+        return weak.some(e => typeof e === 'bigint') ? 'int64' : 'float64';
+    }
+
+    const dtype = strong.reduce((a, b) => utils._dtype_join(a, b));
+    const kind = utils.dtype_kind(dtype);
+    if (weak.some(e => typeof e === 'number' && !Number.isInteger(e)) && (kind === 'b' || kind === 'u' || kind === 'i')) {
+        return 'float64';
+    } else if (weak.length > 0 && kind === 'b') {
+        return weak.some(e => typeof e === 'bigint') ? 'int64' : 'int32';
+    }
+    return dtype;
+}
+
+/**
+ * Throw if a scalar doesn't fit in the integer dtype it is combined into, like numpy's OverflowError, rather than letting it wrap.
+ * @param {any[]} args      - The arguments of an operation.
+ * @param {string} dtype    - The dtype of the result.
+ * @private
+ */
+export function _check_scalar_range(args: any[], dtype: string) {
+    const kind = utils.dtype_kind(dtype);
+    if (kind !== 'u' && kind !== 'i') {
+        return;
+    }
+    const [min, max] = utils.dtype_range(dtype);
+    for (let arg of args) {
+        if ((typeof arg === 'number' || typeof arg === 'bigint') && (arg < min || arg > max)) {
+            throw new errors.IntegerOverflow(arg, dtype);
+        }
+    }
+}
+
+/**
+ * Check whether values of one dtype can be converted to another under a casting rule.
+ * @param {tensor | string} from  - A dtype, or a tensor to use the dtype of.
+ * @param {string} to             - The dtype to convert to.
+ * @param {Casting} casting       - 'safe' only allows conversions that preserve every value, 'same_kind' also allows
+ *                                  conversions within a kind or to a later kind, and 'unsafe' allows anything.
+ * @return {boolean}
+ */
+export function can_cast(from: tensor | string, to: string, casting: Casting = 'safe'): boolean {
+    const from_dtype = from instanceof tensor ? from.dtype : from;
+    const safe = utils._dtype_join(from_dtype, to) === to;
+    if (casting === 'unsafe') {
+        return true;
+    } else if (casting === 'same_kind') {
+        return safe || _KIND_ORDER.indexOf(utils.dtype_kind(from_dtype)) <= _KIND_ORDER.indexOf(utils.dtype_kind(to));
+    } else if (casting === 'safe') {
+        return safe;
+    }
+    throw new Error(`Unknown casting rule ${casting}.`);
+}
+
+/**
+ * Throw if any of the tensors can't be converted to a dtype under a casting rule. Scalars are always allowed.
+ * @param {any[]} args        - The arguments of an operation.
+ * @param {string} to         - The dtype the arguments will be converted to.
+ * @param {Casting} casting   - The casting rule.
+ * @private
+ */
+export function _check_casting(args: any[], to: string, casting: Casting) {
+    for (let arg of args) {
+        if (arg instanceof tensor && !can_cast(arg.dtype, to, casting)) {
+            throw new errors.CastingError(arg.dtype, to, casting);
+        }
+    }
+}
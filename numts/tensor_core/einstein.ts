@@ -1,9 +1,543 @@
+import {tensor, errors} from '../tensor';
+import * as constructors from './constructors';
+import * as complex from './complex';
+import {utils} from '../utils';
 
+/**
+ * Evaluate an Einstein summation over the operands.
+ * Supports implicit ('ij,jk') and explicit ('ij,jk->ik') output, repeated indices within an operand (traces and diagonals),
+ * and ellipsis broadcasting ('...ij,...jk->...ik').
+ * When there are more than two operands they are contracted pairwise, greedily picking the pair with the smallest intermediate.
+ * @param {string} subscripts   - The subscripts for each operand, comma separated, optionally followed by '->' and the output subscripts.
+ * @param {tensor[]} operands   - The tensors to sum over.
+ * @return {tensor}             - The result. A tensor of shape [1] if the output has no indices.
+ *
+ * @example
+ *    einsum('ij,jk->ik', a, b); // Matrix multiplication.
+ * @example
+ *    einsum('ii', a); // The trace of a.
+ */
+export function einsum(subscripts: string, ...operands: tensor[]): tensor {
+    complex._check_real('einsum', ...operands);
+    operands = operands.map(e => utils.is_half(e.dtype) ? e.as_type('float32') : e);
+    const [operand_labels, output_labels] = _parse_subscripts(subscripts, operands);
+    const sizes = _label_sizes(operands, operand_labels);
+    const dtype = operands.map(e => e.dtype).reduce((a, b) => utils._dtype_join(a, b));
+    if (!utils.is_bigint_dtype(dtype) && operands.some(e => utils.is_bigint_dtype(e.dtype))) {
+        // 64-bit integers joined with floats are stored as BigInts, but their products are floats.
+        operands = operands.map(e => utils.is_bigint_dtype(e.dtype) ? e.as_type('float64') : e);
+    }
 
-export function einsum() {
+    let remaining = operands.slice();
+    let remaining_labels = operand_labels.slice();
+    while (remaining.length > 2) {
+        const [i, j, kept] = _cheapest_pair(remaining_labels, output_labels, sizes);
+        const intermediate = _contract([remaining[i], remaining[j]], [remaining_labels[i], remaining_labels[j]], kept, sizes, dtype);
+        remaining = remaining.filter((e, k) => k !== i && k !== j);
+        remaining_labels = remaining_labels.filter((e, k) => k !== i && k !== j);
+        remaining.push(intermediate);
+        remaining_labels.push(kept);
+    }
 
+    return _contract(remaining, remaining_labels, output_labels, sizes, dtype);
 }
 
-export function rearrange() {
+/**
+ * Split a subscripts string into the labels of each operand and the labels of the output.
+ * Ellipses are expanded into one label per broadcast dimension. Broadcast dimensions are aligned from the right, like numpy broadcasting.
+ * @param {string} subscripts - The subscripts passed to einsum.
+ * @param {tensor[]} operands - The operands passed to einsum.
+ * @return {[string[][], string[]]} - The labels for each operand, and the labels for the output.
+ * @private
+ */
+function _parse_subscripts(subscripts: string, operands: tensor[]): [string[][], string[]] {
+    const stripped = subscripts.replace(/\s/g, '');
+    const parts = stripped.split('->');
+    if (parts.length > 2) {
+        throw new Error(`Subscripts can only contain one '->'. Got: ${subscripts}`);
+    }
+    const inputs = parts[0].split(',');
+    if (inputs.length !== operands.length) {
+        throw new Error(`Subscripts describe ${inputs.length} operands, but ${operands.length} were passed.`);
+    }
 
+    const split_inputs = inputs.map(e => _split_ellipsis(e, subscripts));
+
+    // Work out how many dimensions each ellipsis covers.
+    const ellipsis_dims = split_inputs.map(([before, after, has_ellipsis], i) => {
+        const explicit = before.length + after.length;
+        const ndims = operands[i].shape.length;
+        if (has_ellipsis ? explicit > ndims : explicit !== ndims) {
+            throw new errors.BadShape(`Operand ${i} has ${ndims} dimensions, but its subscripts '${inputs[i]}' describe ${explicit}.`);
+        }
+        return has_ellipsis ? ndims - explicit : 0;
+    });
+    const max_ellipsis = Math.max(0, ...ellipsis_dims);
+    const broadcast_labels = Array.from({length: max_ellipsis}, (e, i) => `...${i}`);
+
+    const operand_labels = split_inputs.map(([before, after], i) => {
+        return [...before, ...broadcast_labels.slice(max_ellipsis - ellipsis_dims[i]), ...after];
+    });
+
+    let output_labels: string[];
+    if (parts.length === 2) {
+        const [before, after, has_ellipsis] = _split_ellipsis(parts[1], subscripts);
+        output_labels = has_ellipsis ? [...before, ...broadcast_labels, ...after] : [...before, ...after];
+        const all_labels = new Set([].concat(...operand_labels));
+        output_labels.forEach((e, i) => {
+            if (!all_labels.has(e)) {
+                throw new Error(`Output subscript ${e} does not appear in any input.`);
+            }
+            if (output_labels.indexOf(e) !== i) {
+                throw new Error(`Output subscript ${e} appears more than once.`);
+            }
+        });
+    } else {
+        // Implicit mode: the output is every label that appears exactly once, in alphabetical order.
+        let counts = new Map<string, number>();
+        for (let labels of split_inputs) {
+            for (let label of [...labels[0], ...labels[1]]) {
+                counts.set(label, (counts.get(label) || 0) + 1);
+            }
+        }
+        const singles = [...counts.keys()].filter(e => counts.get(e) === 1).sort();
+        output_labels = [...broadcast_labels, ...singles];
+    }
+
+    return [operand_labels, output_labels];
+}
+
+/**
+ * Split the subscripts of a single operand around its ellipsis (if it has one).
+ * @param {string} term       - The subscripts of the operand.
+ * @param {string} subscripts - The full subscripts string, for error messages.
+ * @return {[string[], string[], boolean]} - The labels before the ellipsis, the labels after it, and whether there was an ellipsis.
+ * @private
+ */
+function _split_ellipsis(term: string, subscripts: string): [string[], string[], boolean] {
+    const pieces = term.split('...');
+    if (pieces.length > 2) {
+        throw new Error(`Each term can contain at most one ellipsis. Got: ${subscripts}`);
+    }
+    for (let piece of pieces) {
+        if (!/^[a-zA-Z]*$/.test(piece)) {
+            throw new Error(`Invalid subscripts: ${subscripts}. Subscripts must be letters, optionally with a single '...' per term.`);
+        }
+    }
+    const after = pieces.length === 2 ? pieces[1].split('') : [];
+    return [pieces[0].split(''), after, pieces.length === 2];
+}
+
+/**
+ * Compute the size of every label, checking that all operands agree.
+ * Broadcast labels (from an ellipsis) may have size 1 in some operands.
+ * @param {tensor[]} operands         - The operands.
+ * @param {string[][]} operand_labels - The labels for each operand.
+ * @return {Map<string, number>}      - The size of each label.
+ * @private
+ */
+function _label_sizes(operands: tensor[], operand_labels: string[][]): Map<string, number> {
+    let sizes = new Map<string, number>();
+    operand_labels.forEach((labels, i) => {
+        labels.forEach((label, axis) => {
+            const size = operands[i].shape[axis];
+            const existing = sizes.get(label);
+            if (existing === undefined || (existing === 1 && label.startsWith('...'))) {
+                sizes.set(label, size);
+            } else if (size !== existing && !(size === 1 && label.startsWith('...'))) {
+                throw new errors.MismatchedShapes(...operands.map(e => e.shape));
+            }
+        });
+    });
+    return sizes;
+}
+
+/**
+ * Find the pair of operands whose contraction produces the smallest intermediate tensor.
+ * @param {string[][]} operand_labels - The labels of each remaining operand.
+ * @param {string[]} output_labels    - The labels of the final output.
+ * @param {Map<string, number>} sizes - The size of each label.
+ * @return {[number, number, string[]]} - The indices of the two operands, and the labels to keep in their contraction.
+ * @private
+ */
+function _cheapest_pair(operand_labels: string[][], output_labels: string[], sizes: Map<string, number>): [number, number, string[]] {
+    let best: [number, number, string[]];
+    let best_size = Infinity;
+    for (let i = 0; i < operand_labels.length; i++) {
+        for (let j = i + 1; j < operand_labels.length; j++) {
+            // A label has to be kept if anything other than this pair still needs it.
+            const needed = new Set([...output_labels, ...[].concat(...operand_labels.filter((e, k) => k !== i && k !== j))]);
+            const kept = [...new Set([...operand_labels[i], ...operand_labels[j]])].filter(e => needed.has(e));
+            const size = kept.reduce((acc, e) => acc * sizes.get(e), 1);
+            if (size < best_size) {
+                best = [i, j, kept];
+                best_size = size;
+            }
+        }
+    }
+    return best;
+}
+
+/**
+ * Directly contract a set of operands, looping over every combination of label values.
+ * @param {tensor[]} operands         - The operands to contract.
+ * @param {string[][]} operand_labels - The labels of each operand.
+ * @param {string[]} output_labels    - The labels of the result.
+ * @param {Map<string, number>} sizes - The size of each label.
+ * @param {string} dtype              - The dtype of the result. 64-bit integer results are computed exactly with BigInts.
+ * @return {tensor}
+ * @private
+ */
+function _contract(operands: tensor[], operand_labels: string[][], output_labels: string[], sizes: Map<string, number>, dtype: string): tensor {
+    const summed = [...new Set([].concat(...operand_labels))].filter(e => output_labels.indexOf(e) === -1);
+    const loop_labels = [...output_labels, ...summed];
+    const loop_shape = loop_labels.map(e => sizes.get(e));
+    const output_shape = output_labels.length === 0 ? [1] : output_labels.map(e => sizes.get(e));
+    let result = constructors.zeros(output_shape, dtype);
+
+    // The step taken through each operand's data when a label is incremented.
+    // Repeated labels add their strides together, which walks the diagonal. Broadcast axes of size 1 never move.
+    const operand_steps = operands.map((operand, i) => loop_labels.map(label => {
+        return operand_labels[i].reduce((acc, e, axis) => {
+            return e === label && operand.shape[axis] !== 1 ? acc + operand.stride[axis] : acc;
+        }, 0);
+    }));
+    const output_steps = loop_labels.map((e, i) => i < output_labels.length ? result.stride[i] : 0);
+
+    const total = loop_shape.reduce((a, b) => a * b, 1);
+    let counter = new Uint32Array(loop_labels.length);
+    let positions = operands.map(e => e.initial_offset);
+    let output_position = 0;
+    const bigints = utils.is_bigint_dtype(dtype);
+    for (let step = 0; step < total; step++) {
+        let product: any = bigints ? BigInt(1) : 1;
+        for (let i = 0; i < operands.length; i++) {
+            product *= bigints ? BigInt(operands[i].data[positions[i]]) : operands[i].data[positions[i]];
+        }
+        result.data[output_position] += product;
+
+        // Advance the counter, last label first.
+        let d = loop_labels.length - 1;
+        while (d >= 0) {
+            counter[d] += 1;
+            for (let i = 0; i < operands.length; i++) {
+                positions[i] += operand_steps[i][d];
+            }
+            output_position += output_steps[d];
+            if (counter[d] < loop_shape[d]) {
+                break;
+            }
+            for (let i = 0; i < operands.length; i++) {
+                positions[i] -= operand_steps[i][d] * loop_shape[d];
+            }
+            output_position -= output_steps[d] * loop_shape[d];
+            counter[d] = 0;
+            d -= 1;
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Rearrange the axes of a tensor according to an einops-style pattern.
+ * Axes can be split, merged, reordered, added (with size 1) or removed (if they have size 1).
+ * @param {tensor} t                          - The tensor to rearrange.
+ * @param {string} pattern                    - The pattern, e.g. 'b (h w) c -> b c h w'.
+ * @param {{[axis: string]: number}} axes_lengths - Sizes of axes that cannot be inferred from the shape of t.
+ * @return {tensor}
+ *
+ * @example
+ *    rearrange(t, 'b (h w) c -> b c h w', {h: 4});
+ */
+export function rearrange(t: tensor, pattern: string, axes_lengths: {[axis: string]: number} = {}): tensor {
+    const [left, right] = _parse_pattern(pattern);
+    const [left_names, right_names] = [_flatten_groups(left), _flatten_groups(right)];
+    const missing = left_names.filter(e => right_names.indexOf(e) === -1).concat(right_names.filter(e => left_names.indexOf(e) === -1));
+    if (missing.length > 0) {
+        throw new Error(`Axes ${missing} must appear on both sides of a rearrange pattern: ${pattern}.`);
+    }
+    return _einops(t, left, right, axes_lengths, 'sum');
+}
+
+/**
+ * Reduce a tensor according to an einops-style pattern.
+ * Axes that appear on the left of the pattern but not the right are reduced over.
+ * Reducing over an empty axis gives 0 for 'sum', 1 for 'prod' and NaN for 'mean', and throws for 'max' and 'min'.
+ * @param {tensor} t                          - The tensor to reduce.
+ * @param {string} pattern                    - The pattern, e.g. 'b c (h h2) (w w2) -> b c h w'.
+ * @param {string} reduction                  - One of 'sum', 'mean', 'max', 'min' or 'prod'.
+ * @param {{[axis: string]: number}} axes_lengths - Sizes of axes that cannot be inferred from the shape of t.
+ * @return {tensor}
+ *
+ * @example
+ *    reduce(t, 'b c (h h2) (w w2) -> b c h w', 'max', {h2: 2, w2: 2}); // 2x2 max pooling.
+ */
+export function reduce(t: tensor, pattern: string, reduction: string, axes_lengths: {[axis: string]: number} = {}): tensor {
+    const [left, right] = _parse_pattern(pattern);
+    const left_names = _flatten_groups(left);
+    const extra = _flatten_groups(right).filter(e => left_names.indexOf(e) === -1);
+    if (extra.length > 0) {
+        throw new Error(`Axes ${extra} appear on the right of a reduce pattern but not the left: ${pattern}.`);
+    }
+    return _einops(t, left, right, axes_lengths, reduction);
+}
+
+/**
+ * Repeat a tensor along new axes according to an einops-style pattern.
+ * Axes that appear on the right of the pattern but not the left are new, and their sizes must be given.
+ * @param {tensor} t                          - The tensor to repeat.
+ * @param {string} pattern                    - The pattern, e.g. 'h w -> h (w r)'.
+ * @param {{[axis: string]: number}} axes_lengths - Sizes of the new axes, and of any axes that cannot be inferred from the shape of t.
+ * @return {tensor}
+ *
+ * @example
+ *    repeat(t, 'h w -> h (w r)', {r: 2}); // Repeat each column twice.
+ */
+export function repeat(t: tensor, pattern: string, axes_lengths: {[axis: string]: number} = {}): tensor {
+    const [left, right] = _parse_pattern(pattern);
+    const right_names = _flatten_groups(right);
+    const removed = _flatten_groups(left).filter(e => right_names.indexOf(e) === -1);
+    if (removed.length > 0) {
+        throw new Error(`Axes ${removed} appear on the left of a repeat pattern but not the right: ${pattern}.`);
+    }
+    return _einops(t, left, right, axes_lengths, 'sum');
+}
+
+/**
+ * Parse both sides of an einops pattern into groups of axis names.
+ * A bare name is a group of one axis. '()' and '1' are empty groups, i.e. axes of size 1.
+ * Other integers are anonymous axes of that size. '...' is kept as a single name and expanded later.
+ * @param {string} pattern - The pattern to parse.
+ * @return {[string[][], string[][]]} - The groups on the left and on the right.
+ * @private
+ */
+function _parse_pattern(pattern: string): [string[][], string[][]] {
+    const sides = pattern.split('->');
+    if (sides.length !== 2) {
+        throw new Error(`Pattern must contain exactly one '->'. Got: ${pattern}`);
+    }
+    let anonymous = 0;
+    const parse_side = (side: string): string[][] => {
+        const tokens = side.match(/\.\.\.|[()]|[A-Za-z_][A-Za-z0-9_]*|\d+|\S/g) || [];
+        let groups: string[][] = [];
+        let current: string[] = null;
+        for (let token of tokens) {
+            if (token === '(') {
+                if (current !== null) {
+                    throw new Error(`Nested parentheses are not allowed: ${pattern}`);
+                }
+                current = [];
+            } else if (token === ')') {
+                if (current === null) {
+                    throw new Error(`Unbalanced parentheses: ${pattern}`);
+                }
+                groups.push(current);
+                current = null;
+            } else {
+                let name: string;
+                if (/^\d+$/.test(token)) {
+                    name = token === '1' ? null : `${token}#${anonymous++}`;
+                } else if (token === '...' || /^[A-Za-z_]/.test(token)) {
+                    name = token;
+                } else {
+                    throw new Error(`Unexpected character '${token}' in pattern: ${pattern}`);
+                }
+                const names = name === null ? [] : [name];
+                if (current === null) {
+                    groups.push(names);
+                } else {
+                    current.push(...names);
+                }
+            }
+        }
+        if (current !== null) {
+            throw new Error(`Unbalanced parentheses: ${pattern}`);
+        }
+        const names = _flatten_groups(groups);
+        names.forEach((e, i) => {
+            if (names.indexOf(e) !== i) {
+                throw new Error(`Axis ${e} appears more than once on one side of the pattern: ${pattern}`);
+            }
+        });
+        return groups;
+    };
+    return [parse_side(sides[0]), parse_side(sides[1])];
+}
+
+/**
+ * The names in a list of groups, in order.
+ * @param {string[][]} groups
+ * @return {string[]}
+ * @private
+ */
+function _flatten_groups(groups: string[][]): string[] {
+    return [].concat(...groups);
+}
+
+/**
+ * Replace '...' in a list of groups with the names of the axes it covers.
+ * @param {string[][]} groups   - The groups to expand.
+ * @param {string[]} ellipsis   - The names of the axes covered by the ellipsis.
+ * @return {string[][]}
+ * @private
+ */
+function _expand_ellipsis(groups: string[][], ellipsis: string[]): string[][] {
+    let expanded = [];
+    for (let group of groups) {
+        if (group.length === 1 && group[0] === '...') {
+            expanded.push(...ellipsis.map(e => [e]));
+        } else {
+            expanded.push([].concat(...group.map(e => e === '...' ? ellipsis : [e])));
+        }
+    }
+    return expanded;
+}
+
+/**
+ * Shared implementation of rearrange, reduce and repeat.
+ * Each axis of t is split into its elementary axes (which is always possible without copying),
+ * and the result is built by walking the elementary axes in the order given on the right of the pattern.
+ * Elementary axes that only appear on the left are reduced over. Those that only appear on the right are repeated.
+ * @param {tensor} t                          - The input tensor.
+ * @param {string[][]} left                   - The groups on the left of the pattern.
+ * @param {string[][]} right                  - The groups on the right of the pattern.
+ * @param {{[axis: string]: number}} axes_lengths - Sizes of axes given by the user.
+ * @param {string} reduction                  - The reduction to use over axes missing from the right.
+ * @return {tensor}
+ * @private
+ */
+function _einops(t: tensor, left: string[][], right: string[][], axes_lengths: {[axis: string]: number}, reduction: string): tensor {
+    const reducers = {
+        sum: (a: number, b: number) => a + b,
+        mean: (a: number, b: number) => a + b,
+        prod: (a: number, b: number) => a * b,
+        // BigInts can't be passed to Math.max and Math.min, so 64-bit integers are compared directly.
+        max: (a: number, b: number) => typeof a === 'bigint' ? (b > a ? b : a) : Math.max(a, b),
+        min: (a: number, b: number) => typeof a === 'bigint' ? (b < a ? b : a) : Math.min(a, b)
+    };
+    const f = reducers[reduction];
+    if (f === undefined) {
+        throw new Error(`Unknown reduction: ${reduction}. Must be one of ${Object.keys(reducers)}.`);
+    }
+    if (utils.is_complex(t.dtype)) {
+        // Moving and summing elements works on the real and imaginary parts separately.
+        if (reduction !== 'sum' && reduction !== 'mean') {
+            throw new Error(`The ${reduction} reduction does not support complex tensors.`);
+        }
+        const [re, im] = [complex.real(t), complex.imag(t)].map(e => _einops(e, left, right, axes_lengths, reduction));
+        return complex.complex(re, im, reduction === 'mean' ? 'complex128' : t.dtype);
+    }
+
+    // Expand the ellipsis.
+    const left_ellipsis = left.filter(e => e.indexOf('...') !== -1);
+    if (left_ellipsis.length > 0 && (left_ellipsis[0].length !== 1)) {
+        throw new Error('An ellipsis on the left of a pattern cannot be inside parentheses.');
+    }
+    const ellipsis_count = left_ellipsis.length === 0 ? 0 : t.shape.length - left.length + 1;
+    if (ellipsis_count < 0 || (left_ellipsis.length === 0 && left.length !== t.shape.length)) {
+        throw new errors.BadShape(`Pattern has ${left.length} axes on the left but tensor has shape ${t.shape}.`);
+    }
+    if (_flatten_groups(right).indexOf('...') !== -1 && left_ellipsis.length === 0) {
+        throw new Error('An ellipsis on the right of a pattern must also appear on the left.');
+    }
+    const ellipsis = Array.from({length: ellipsis_count}, (e, i) => `...${i}`);
+    const left_groups = _expand_ellipsis(left, ellipsis);
+    const right_groups = _expand_ellipsis(right, ellipsis);
+
+    // Work out the size of every elementary axis.
+    let sizes = new Map<string, number>();
+    const set_size = (name: string, size: number) => {
+        if (!utils.is_int(size) || size < 1) {
+            throw new errors.BadShape(`Axis ${name} must have a positive integer size. Got: ${size}.`);
+        }
+        sizes.set(name, size);
+    };
+    for (let name in axes_lengths) {
+        set_size(name, axes_lengths[name]);
+    }
+    for (let name of _flatten_groups(left_groups).concat(_flatten_groups(right_groups))) {
+        if (name.indexOf('#') !== -1) {
+            set_size(name, parseInt(name, 10));
+        }
+    }
+    left_groups.forEach((group, axis) => {
+        const dim = t.shape[axis];
+        const unknown = group.filter(e => !sizes.has(e));
+        const known = group.filter(e => sizes.has(e)).reduce((acc, e) => acc * sizes.get(e), 1);
+        if (unknown.length > 1) {
+            throw new errors.BadShape(`Could not infer sizes for axes ${unknown} in group (${group.join(' ')}) of length ${dim}. Pass all but one of them in axes_lengths.`);
+        } else if (unknown.length === 1) {
+            if (dim % known !== 0) {
+                throw new errors.BadShape(`Could not infer size of axis ${unknown[0]}: axis of length ${dim} is not divisible by ${known}.`);
+            }
+            sizes.set(unknown[0], dim / known);
+        } else if (known !== dim) {
+            throw new errors.BadShape(`Group (${group.join(' ')}) has size ${known}, but the corresponding axis has length ${dim}.`);
+        }
+    });
+    for (let name of _flatten_groups(right_groups)) {
+        if (!sizes.has(name)) {
+            throw new errors.BadShape(`Could not infer size of axis ${name}. Pass it in axes_lengths.`);
+        }
+    }
+
+    // Split each input axis into elementary axes. The last name in a group varies fastest.
+    let elementary_strides = new Map<string, number>();
+    left_groups.forEach((group, axis) => {
+        let stride = t.stride[axis];
+        for (let i = group.length - 1; i >= 0; i--) {
+            elementary_strides.set(group[i], stride);
+            stride *= sizes.get(group[i]);
+        }
+    });
+
+    const right_names = _flatten_groups(right_groups);
+    const reduced_names = _flatten_groups(left_groups).filter(e => right_names.indexOf(e) === -1);
+    const loop_names = right_names.concat(reduced_names);
+    const loop_shape = loop_names.map(e => sizes.get(e));
+    // Axes that are only on the right are repeated, i.e. never move through the data.
+    const loop_strides = loop_names.map(e => elementary_strides.has(e) ? elementary_strides.get(e) : 0);
+    const reduced_size = reduced_names.reduce((acc, e) => acc * sizes.get(e), 1);
+
+    const final_shape = right_groups.length === 0 ? [1] : right_groups.map(g => g.reduce((acc, e) => acc * sizes.get(e), 1));
+    // Bool tensors are counted rather than or-ed together when they are summed.
+    const dtype = reduction === 'mean' ? 'float64' : (reduction === 'sum' && t.dtype === 'bool' ? 'int32' : t.dtype);
+    if (reduced_size === 0) {
+        // Like numpy, an empty reduction gives the identity of the reduction, and max and min have none.
+        const identities = {sum: 0, mean: NaN, prod: 1};
+        if (!(reduction in identities)) {
+            throw new errors.BadShape(`Cannot take the ${reduction} over an empty axis, since it has no identity.`);
+        }
+        return constructors.filled(identities[reduction], final_shape, dtype);
+    }
+    // Half precision values are stored as their bits.
+    const data = utils.is_half(t.dtype) ? Float32Array.from(t.data, e => utils.decode_half(e, t.dtype)) : t.data;
+    const iter = {
+        [Symbol.iterator]: function* () {
+            const total = loop_shape.reduce((a, b) => a * b, 1);
+            let counter = new Uint32Array(loop_names.length);
+            let position = t.initial_offset;
+            let accum: number;
+            for (let step = 0; step < total; step++) {
+                accum = step % reduced_size === 0 ? data[position] : f(accum, data[position]);
+                if ((step + 1) % reduced_size === 0) {
+                    yield reduction === 'mean' ? Number(accum) / reduced_size : accum;
+                }
+
+                let d = loop_names.length - 1;
+                while (d >= 0) {
+                    counter[d] += 1;
+                    position += loop_strides[d];
+                    if (counter[d] < loop_shape[d]) {
+                        break;
+                    }
+                    position -= loop_strides[d] * loop_shape[d];
+                    counter[d] = 0;
+                    d -= 1;
+                }
+            }
+        }
+    };
+    return constructors.from_iterable(iter, final_shape, dtype);
 }
@@ -0,0 +1,403 @@
+import {tensor, errors} from '../tensor';
+import * as constructors from './constructors';
+import * as complex from './complex';
+import {indexing} from './indexing';
+import {utils} from '../utils';
+
+/**
+ * A complex tensor, stored as a pair of real tensors of the same shape: [real part, imaginary part].
+ */
+export type ComplexPair = [tensor, tensor];
+
+/**
+ * Check whether a length is a power of two.
+ * @param {number} n
+ * @return {boolean}
+ */
+function _is_power_of_two(n: number): boolean {
+    let m = 1;
+    while (m < n) {
+        m *= 2;
+    }
+    return m === n;
+}
+
+/**
+ * In-place iterative radix-2 FFT.
+ * @param {Float64Array} re     - The real parts. The length must be a power of two.
+ * @param {Float64Array} im     - The imaginary parts.
+ * @param {boolean} inverse     - Use the positive exponent. The result is not scaled.
+ */
+function _radix2(re: Float64Array, im: Float64Array, inverse: boolean) {
+    const n = re.length;
+
+    // Bit reversal permutation.
+    const bits = Math.round(Math.log2(n));
+    for (let i = 0; i < n; i++) {
+        let j = 0;
+        for (let b = 0, x = i; b < bits; b++, x = Math.floor(x / 2)) {
+            j = 2 * j + x % 2;
+        }
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+
+    const sign = inverse ? 1 : -1;
+    for (let size = 2; size <= n; size *= 2) {
+        const half = size / 2;
+        // Twiddle factors are computed directly rather than by repeated multiplication, which accumulates error.
+        const cos = new Float64Array(half);
+        const sin = new Float64Array(half);
+        for (let k = 0; k < half; k++) {
+            cos[k] = Math.cos(2 * Math.PI * k / size);
+            sin[k] = sign * Math.sin(2 * Math.PI * k / size);
+        }
+        for (let start = 0; start < n; start += size) {
+            for (let k = 0; k < half; k++) {
+                const even = start + k;
+                const odd = even + half;
+                const t_re = re[odd] * cos[k] - im[odd] * sin[k];
+                const t_im = re[odd] * sin[k] + im[odd] * cos[k];
+                re[odd] = re[even] - t_re;
+                im[odd] = im[even] - t_im;
+                re[even] += t_re;
+                im[even] += t_im;
+            }
+        }
+    }
+}
+
+/**
+ * Bluestein's FFT, for lengths that are not a power of two.
+ * Rewrites the transform as a convolution with a chirp, and computes the convolution with power of two FFTs.
+ * @param {Float64Array} re     - The real parts.
+ * @param {Float64Array} im     - The imaginary parts.
+ * @param {boolean} inverse     - Use the positive exponent. The result is not scaled.
+ * @return {[Float64Array, Float64Array]} - The transform.
+ */
+function _bluestein(re: Float64Array, im: Float64Array, inverse: boolean): [Float64Array, Float64Array] {
+    const n = re.length;
+    let m = 1;
+    while (m < 2 * n - 1) {
+        m *= 2;
+    }
+
+    // The chirp exp(-i pi k^2 / n). k^2 is reduced mod 2n first so the angle stays accurate for large k.
+    const sign = inverse ? 1 : -1;
+    const chirp_re = new Float64Array(n);
+    const chirp_im = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+        const angle = Math.PI * ((k * k) % (2 * n)) / n;
+        chirp_re[k] = Math.cos(angle);
+        chirp_im[k] = sign * Math.sin(angle);
+    }
+
+    const a_re = new Float64Array(m);
+    const a_im = new Float64Array(m);
+    for (let k = 0; k < n; k++) {
+        a_re[k] = re[k] * chirp_re[k] - im[k] * chirp_im[k];
+        a_im[k] = re[k] * chirp_im[k] + im[k] * chirp_re[k];
+    }
+
+    // The conjugate chirp, wrapped around so the convolution is circular.
+    const b_re = new Float64Array(m);
+    const b_im = new Float64Array(m);
+    b_re[0] = chirp_re[0];
+    b_im[0] = -chirp_im[0];
+    for (let k = 1; k < n; k++) {
+        b_re[k] = b_re[m - k] = chirp_re[k];
+        b_im[k] = b_im[m - k] = -chirp_im[k];
+    }
+
+    _radix2(a_re, a_im, false);
+    _radix2(b_re, b_im, false);
+    for (let k = 0; k < m; k++) {
+        const product_re = a_re[k] * b_re[k] - a_im[k] * b_im[k];
+        a_im[k] = a_re[k] * b_im[k] + a_im[k] * b_re[k];
+        a_re[k] = product_re;
+    }
+    _radix2(a_re, a_im, true);
+
+    const out_re = new Float64Array(n);
+    const out_im = new Float64Array(n);
+    for (let k = 0; k < n; k++) {
+        const conv_re = a_re[k] / m;
+        const conv_im = a_im[k] / m;
+        out_re[k] = conv_re * chirp_re[k] - conv_im * chirp_im[k];
+        out_im[k] = conv_re * chirp_im[k] + conv_im * chirp_re[k];
+    }
+    return [out_re, out_im];
+}
+
+/**
+ * Compute the discrete Fourier transform of a single sequence.
+ * @param {Float64Array} re     - The real parts.
+ * @param {Float64Array} im     - The imaginary parts.
+ * @param {boolean} inverse     - Compute the inverse transform, including the 1/n scaling.
+ * @return {[Float64Array, Float64Array]} - The transform.
+ */
+function _transform(re: Float64Array, im: Float64Array, inverse: boolean): [Float64Array, Float64Array] {
+    const n = re.length;
+    let out_re: Float64Array;
+    let out_im: Float64Array;
+    if (n <= 1) {
+        [out_re, out_im] = [re.slice(), im.slice()];
+    } else if (_is_power_of_two(n)) {
+        [out_re, out_im] = [re.slice(), im.slice()];
+        _radix2(out_re, out_im, inverse);
+    } else {
+        [out_re, out_im] = _bluestein(re, im, inverse);
+    }
+    if (inverse) {
+        for (let k = 0; k < n; k++) {
+            out_re[k] /= n;
+            out_im[k] /= n;
+        }
+    }
+    return [out_re, out_im];
+}
+
+/**
+ * Split a possibly complex input into its real and imaginary parts.
+ * @param {tensor | ComplexPair} a - A real or complex tensor, or a pair of real tensors.
+ * @return {ComplexPair}
+ */
+function _as_pair(a: tensor | ComplexPair): ComplexPair {
+    if (a instanceof tensor && utils.is_complex(a.dtype)) {
+        return [complex.real(a), complex.imag(a)];
+    } else if (a instanceof tensor) {
+        return [a, constructors.zeros(a.shape, 'float64')];
+    }
+    const [re, im] = a;
+    if (utils.is_complex(re.dtype) || utils.is_complex(im.dtype)) {
+        throw new Error('The parts of a complex pair must be real.');
+    }
+    if (!utils.array_equal(re.shape, im.shape)) {
+        throw new errors.MismatchedShapes(re.shape, im.shape);
+    }
+    return [re, im];
+}
+
+/**
+ * Convert a possibly negative axis to a positive one.
+ * @param {number} axis   - The axis.
+ * @param {number} ndims  - The number of dimensions of the tensor.
+ * @return {number}
+ */
+function _positive_axis(axis: number, ndims: number): number {
+    const positive = axis < 0 ? axis + ndims : axis;
+    if (!utils.is_int(positive) || positive < 0 || positive >= ndims) {
+        throw new errors.BadShape(`Invalid axis ${axis} for a tensor with ${ndims} dimensions.`);
+    }
+    return positive;
+}
+
+/**
+ * Apply a function to every 1-D line of a tensor along an axis.
+ * Each line is cropped or zero padded to length n before it is passed to f.
+ * @param {ComplexPair} pair  - The real and imaginary parts of the input.
+ * @param {number} axis       - The axis the lines run along. Must be positive.
+ * @param {number} n          - The length each line is cropped or padded to.
+ * @param {number} out_length - The length of the lines f returns.
+ * @param f                   - Maps the real and imaginary parts of a line to the parts of an output line.
+ * @return {ComplexPair}      - The outputs, with the axis now of size out_length.
+ */
+function _along_axis(pair: ComplexPair, axis: number, n: number, out_length: number,
+                     f: (re: Float64Array, im: Float64Array) => [Float64Array, Float64Array]): ComplexPair {
+    const [re, im] = pair;
+    const ndims = re.shape.length;
+    if (!utils.is_int(n) || n < 1) {
+        throw new errors.BadShape(`Invalid number of points ${n}.`);
+    }
+
+    // Move the axis to the end so every line is contiguous in index order.
+    const order = Array.from(re.shape, (e, i) => i).filter(e => e !== axis);
+    order.push(axis);
+    const re_values = Float64Array.from(re.transpose(...order)._iorder_value_iterator(), Number);
+    const im_values = Float64Array.from(im.transpose(...order)._iorder_value_iterator(), Number);
+    const length = re.shape[axis];
+    const lines = re_values.length / length;
+
+    const out_re = new Float64Array(lines * out_length);
+    const out_im = new Float64Array(lines * out_length);
+    const copy = Math.min(n, length);
+    for (let i = 0; i < lines; i++) {
+        const line_re = new Float64Array(n);
+        const line_im = new Float64Array(n);
+        line_re.set(re_values.subarray(i * length, i * length + copy));
+        line_im.set(im_values.subarray(i * length, i * length + copy));
+        const [result_re, result_im] = f(line_re, line_im);
+        out_re.set(result_re, i * out_length);
+        out_im.set(result_im, i * out_length);
+    }
+
+    // Move the axis back, and copy into the standard layout.
+    const moved_shape = order.map(e => e === axis ? out_length : re.shape[e]);
+    const inverse = Array.from(order, (e, i) => order.indexOf(i));
+    const restore = (values: Float64Array) => {
+        const view = constructors.from_iterable(values, moved_shape, 'float64').transpose(...inverse);
+        return constructors.from_iterable(view._iorder_value_iterator(), view.shape, 'float64');
+    };
+    return ndims === 1 ? [constructors.array(out_re), constructors.array(out_im)] : [restore(out_re), restore(out_im)];
+}
+
+/**
+ * Compute the one dimensional discrete Fourier transform.
+ * @param {tensor | ComplexPair} a  - The input. Either a real or complex tensor, or a pair [real part, imaginary part].
+ * @param {number} n                - The length of the transform. The input is cropped or zero padded to this length. Defaults to the length of the axis.
+ * @param {number} axis             - The axis to transform over. Defaults to the last axis.
+ * @return {ComplexPair}            - The real and imaginary parts of the transform, as float64 tensors.
+ */
+export function fft(a: tensor | ComplexPair, n?: number, axis: number = -1): ComplexPair {
+    const pair = _as_pair(a);
+    const positive_axis = _positive_axis(axis, pair[0].shape.length);
+    const length = n === undefined ? pair[0].shape[positive_axis] : n;
+    return _along_axis(pair, positive_axis, length, length, (re, im) => _transform(re, im, false));
+}
+
+/**
+ * Compute the one dimensional inverse discrete Fourier transform.
+ * ifft(fft(a)) is a, up to rounding.
+ * @param {tensor | ComplexPair} a  - The input. Either a real or complex tensor, or a pair [real part, imaginary part].
+ * @param {number} n                - The length of the transform. The input is cropped or zero padded to this length. Defaults to the length of the axis.
+ * @param {number} axis             - The axis to transform over. Defaults to the last axis.
+ * @return {ComplexPair}            - The real and imaginary parts of the inverse transform, as float64 tensors.
+ */
+export function ifft(a: tensor | ComplexPair, n?: number, axis: number = -1): ComplexPair {
+    const pair = _as_pair(a);
+    const positive_axis = _positive_axis(axis, pair[0].shape.length);
+    const length = n === undefined ? pair[0].shape[positive_axis] : n;
+    return _along_axis(pair, positive_axis, length, length, (re, im) => _transform(re, im, true));
+}
+
+/**
+ * Compute the one dimensional discrete Fourier transform of a real input.
+ * Only the non-negative frequency terms are returned, since the others are their complex conjugates.
+ * @param {tensor} a      - The real input.
+ * @param {number} n      - The length of the transform. The input is cropped or zero padded to this length. Defaults to the length of the axis.
+ * @param {number} axis   - The axis to transform over. Defaults to the last axis.
+ * @return {ComplexPair}  - The real and imaginary parts of the transform. The axis has length floor(n / 2) + 1.
+ */
+export function rfft(a: tensor, n?: number, axis: number = -1): ComplexPair {
+    complex._check_real('rfft', a);
+    const pair = _as_pair(a);
+    const positive_axis = _positive_axis(axis, a.shape.length);
+    const length = n === undefined ? a.shape[positive_axis] : n;
+    const out_length = Math.floor(length / 2) + 1;
+    return _along_axis(pair, positive_axis, length, out_length, (re, im) => {
+        const [out_re, out_im] = _transform(re, im, false);
+        return [out_re.subarray(0, out_length), out_im.subarray(0, out_length)];
+    });
+}
+
+/**
+ * Compute the inverse of rfft.
+ * The input is treated as the non-negative frequency terms of a Hermitian-symmetric spectrum, so the output is real.
+ * @param {tensor | ComplexPair} a  - The non-negative frequency terms. Either a real or complex tensor, or a pair [real part, imaginary part].
+ * @param {number} n                - The length of the output. Defaults to 2 * (m - 1), where m is the length of the axis.
+ * @param {number} axis             - The axis to transform over. Defaults to the last axis.
+ * @return {tensor}                 - The real output, as a float64 tensor.
+ */
+export function irfft(a: tensor | ComplexPair, n?: number, axis: number = -1): tensor {
+    const pair = _as_pair(a);
+    const positive_axis = _positive_axis(axis, pair[0].shape.length);
+    const length = n === undefined ? 2 * (pair[0].shape[positive_axis] - 1) : n;
+    const half = Math.floor(length / 2) + 1;
+    const [result] = _along_axis(pair, positive_axis, half, length, (re, im) => {
+        const full_re = new Float64Array(length);
+        const full_im = new Float64Array(length);
+        for (let k = 0; k < half && k < length; k++) {
+            full_re[k] = re[k];
+            full_im[k] = im[k];
+        }
+        for (let k = 1; k < half; k++) {
+            if (length - k >= half) {
+                full_re[length - k] = re[k];
+                full_im[length - k] = -im[k];
+            }
+        }
+        const [out_re] = _transform(full_re, full_im, true);
+        return [out_re, new Float64Array(length)];
+    });
+    return result;
+}
+
+/**
+ * Compute the n dimensional discrete Fourier transform, by transforming along each axis in turn.
+ * @param {tensor | ComplexPair} a  - The input. Either a real or complex tensor, or a pair [real part, imaginary part].
+ * @param {number[]} s              - The length of the transform along each axis. Defaults to the shape of the input along the axes.
+ * @param {number[]} axes           - The axes to transform over. Defaults to all axes, or the last len(s) axes if s is passed.
+ * @return {ComplexPair}            - The real and imaginary parts of the transform, as float64 tensors.
+ */
+export function fftn(a: tensor | ComplexPair, s?: number[], axes?: number[]): ComplexPair {
+    let pair = _as_pair(a);
+    const ndims = pair[0].shape.length;
+    if (axes === undefined) {
+        const count = s === undefined ? ndims : s.length;
+        axes = Array.from(new Array(count), (e, i) => ndims - count + i);
+    }
+    if (s !== undefined && s.length !== axes.length) {
+        throw new errors.BadShape(`Got ${s.length} lengths for ${axes.length} axes.`);
+    }
+    const positive_axes = axes.map(e => _positive_axis(e, ndims));
+    if (positive_axes.some((e, i) => positive_axes.indexOf(e) !== i)) {
+        throw new errors.BadShape(`Repeated axes ${axes}.`);
+    }
+    positive_axes.forEach((axis, i) => {
+        pair = fft(pair, s === undefined ? undefined : s[i], axis);
+    });
+    return pair;
+}
+
+/**
+ * Compute the two dimensional discrete Fourier transform.
+ * @param {tensor | ComplexPair} a  - The input. Either a real or complex tensor, or a pair [real part, imaginary part].
+ * @param {number[]} s              - The length of the transform along each axis. Defaults to the shape of the input along the axes.
+ * @param {number[]} axes           - The axes to transform over. Defaults to the last two axes.
+ * @return {ComplexPair}            - The real and imaginary parts of the transform, as float64 tensors.
+ */
+export function fft2(a: tensor | ComplexPair, s?: number[], axes: number[] = [-2, -1]): ComplexPair {
+    return fftn(a, s, axes);
+}
+
+/**
+ * The sample frequencies of a discrete Fourier transform, in the order fft returns them.
+ * @param {number} n  - The length of the transform.
+ * @param {number} d  - The sample spacing.
+ * @return {tensor}   - [0, 1, ..., ceil(n / 2) - 1, -floor(n / 2), ..., -1] / (d * n), as a float64 tensor.
+ */
+export function fftfreq(n: number, d: number = 1): tensor {
+    if (!utils.is_int(n) || n < 1) {
+        throw new errors.BadShape(`Invalid number of points ${n}.`);
+    }
+    const values = Array.from(new Array(n), (e, i) => (i < Math.ceil(n / 2) ? i : i - n) / (d * n));
+    return constructors.from_iterable(values, [n], 'float64');
+}
+
+/**
+ * Shift the zero frequency term to the center of the spectrum, by rolling each axis by half its length.
+ * @param {tensor} a              - The spectrum.
+ * @param {number | number[]} axes  - The axes to shift. Defaults to all axes.
+ * @return {tensor}               - The shifted spectrum.
+ */
+export function fftshift(a: tensor, axes?: number | number[]): tensor {
+    const ndims = a.shape.length;
+    const shifted = axes === undefined ? Array.from(a.shape, (e, i) => i) : (typeof axes === 'number' ? [axes] : axes).map(e => _positive_axis(e, ndims));
+    const shifts = Array.from(a.shape, (e, i) => shifted.indexOf(i) === -1 ? 0 : Math.floor(e / 2));
+
+    const iter = {
+        [Symbol.iterator]: function* () {
+            for (let index of indexing.iorder_index_iterator(a.shape)) {
+                let position = a.initial_offset;
+                for (let i = 0; i < ndims; i++) {
+                    const source = (index[i] + a.shape[i] - shifts[i]) % a.shape[i];
+                    position += source * a.stride[i];
+                }
+                yield a._value_at(position);
+            }
+        }
+    };
+    return constructors.from_iterable(iter, a.shape, a.dtype);
+}
@@ -1,11 +1,25 @@
 import {tensor, TypedArray} from '../tensor';
 import * as constructors from './constructors';
+import * as complex from './complex';
 import {indexing} from './indexing';
+import {utils} from '../utils';
+
+/**
+ * Convert half precision tensors to float32, which functions that read the underlying data directly can work with.
+ * Other tensors are returned as is.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+function _upcast_half(a: tensor): tensor {
+    return utils.is_half(a.dtype) ? a.as_type('float32') : a;
+}
 
 /**
  * Accumulating map over the entire array or along a particular axis.
  * If no axis is provided a flat array is returned.
  * Otherwise the shape of the result is the same as the shape of the original array.
+ * The start value and the elements are converted to the dtype of the result before they are passed to f, so f never mixes
+ * BigInts and numbers.
  * @param f - function to use.
  * @param {number} axis - Axis to map over.
  * @param {number} start  - Initial value.
@@ -13,7 +27,10 @@ import {indexing} from './indexing';
  * @return {tensor | number}
  */
 export function _accum_map(a: tensor, f, axis?: number, start?: number, dtype?: string): tensor | number {
+    complex._check_real('accum_map', a);
+    a = _upcast_half(a);
     dtype = dtype === undefined ? a.dtype : dtype;
+    const convert = (value: number | bigint) => utils.to_dtype_value(value, dtype);
     let new_array;
     if (axis === undefined) {
         // TODO: Views: Use size of view.
@@ -21,13 +38,13 @@ export function _accum_map(a: tensor, f, axis?: number, start?: number, dtype?:
         new_array = constructors.zeros(a.length, dtype);
 
         if (start !== undefined) {
-            new_array.data[0] = start;
+            new_array.data[0] = convert(start);
         }
 
         let previous_index = 0;
         let index_in_new = 0;
         for (let index of a._iorder_data_iterator()) {
-            new_array.data[index_in_new] = f(new_array.data[previous_index], a.data[index]);
+            new_array.data[index_in_new] = f(new_array.data[previous_index], convert(a.data[index]));
             previous_index = index_in_new;
             index_in_new += 1;
         }
@@ -35,22 +52,26 @@ export function _accum_map(a: tensor, f, axis?: number, start?: number, dtype?:
         const [lower, upper, steps] = a._slice_for_axis(axis);
         new_array = constructors.zeros(a.shape, dtype);
         const step_along_axis = a.stride[axis];
+        const new_step_along_axis = new_array.stride[axis];
+        // a may be a view, so its data indices do not necessarily match those of new_array.
+        const a_iter = a._iorder_data_iterator(lower, upper, steps)[Symbol.iterator]();
+        const new_iter = new_array._iorder_data_iterator(lower, upper, steps)[Symbol.iterator]();
 
-        for (let index of a._iorder_data_iterator(lower, upper, steps)) {
+        for (let [index, new_index] of utils.zip_iterable(a_iter, new_iter)) {
             let first_value;
 
             if (start !== undefined) {
-                first_value = f(start, a.data[index]);
+                first_value = f(convert(start), convert(a.data[index]));
             } else {
-                first_value = a.data[index];
+                first_value = convert(a.data[index]);
             }
 
-            new_array.data[index] = first_value;
-            let previous_index = index;
+            new_array.data[new_index] = first_value;
+            let previous_index = new_index;
             for (let i = 1; i < a.shape[axis]; i++) {
-                const new_index = index + i * step_along_axis;
-                new_array.data[new_index] = f(new_array.data[previous_index], a.data[new_index]);
-                previous_index = new_index;
+                const current_index = new_index + i * new_step_along_axis;
+                new_array.data[current_index] = f(new_array.data[previous_index], convert(a.data[index + i * step_along_axis]));
+                previous_index = current_index;
             }
         }
     }
@@ -65,9 +86,11 @@ export function _accum_map(a: tensor, f, axis?: number, start?: number, dtype?:
  * @return {tensor | number}
  */
 export function _apply_to_axis(a: tensor, f: (a: TypedArray | number[]) => any, axis?: number, dtype?: string): tensor | number {
+    complex._check_real('apply_to_axis', a);
+    a = _upcast_half(a);
     dtype = dtype === undefined ? a.dtype : dtype;
     if (axis === undefined) {
-        return f(a.data);
+        return f(a.is_view ? Array.from(a._iorder_value_iterator()) : a.data);
     } else {
         const new_shape = indexing.new_shape_from_axis(a.shape, axis);
         let new_array = constructors.zeros(new_shape, dtype);
@@ -91,8 +114,14 @@ export function _apply_to_axis(a: tensor, f: (a: TypedArray | number[]) => any,
  * @return {tensor}
  */
 export function _map(a: tensor, f): tensor {
-    const new_data = a.data.map(f);
-    return constructors.array(new_data, a.shape, { disable_checks: true, dtype: a.dtype })
+    complex._check_real('map', a);
+    if (a.is_view || utils.is_half(a.dtype)) {
+        const iter = utils.imap(a._iorder_value_iterator(), f);
+        return constructors.from_iterable(iter, a.shape, a.dtype);
+    } else {
+        const new_data = a.data.map(f);
+        return constructors.array(new_data, a.shape, { disable_checks: true, dtype: a.dtype })
+    }
 }
 
 /**
@@ -102,6 +131,8 @@ export function _map(a: tensor, f): tensor {
  * @param {string} dtype
  */
 export function _reduce(a: tensor, f: (accum: number, e: number, i?: number, array?) => number, initial?: number, axis?: number, dtype?: string): number | tensor {
+    complex._check_real('reduce', a);
+    a = _upcast_half(a);
     dtype = dtype === undefined ? a.dtype : dtype;
     if (axis === undefined) {
         const iter = a._iorder_value_iterator()[Symbol.iterator]();
@@ -1,9 +1,19 @@
 import {utils} from "../utils";
-import {Broadcastable, Shape, USlice, ISlice} from "../types";
+import {Broadcastable, Shape, Stride, USlice, ISlice} from "../types";
 import {errors, tensor} from "../tensor";
 
 
 export namespace indexing {
+  /**
+   * Expands to as many full slices as are needed to index every axis. The string '...' can be used instead.
+   */
+  export const ELLIPSIS: unique symbol = Symbol('ellipsis');
+
+  /**
+   * Inserts a new axis of length 1.
+   */
+  export const NEWAXIS: unique symbol = Symbol('newaxis');
+
   /**
    * Computes the total length of the array from its shape.
    * @param {NumericalArray} shape
@@ -50,18 +60,47 @@ export namespace indexing {
   }
 
   /**
-   * Calculate a shape from a slice.
-   * @param {Uint32Array} start
-   * @param {Uint32Array} stop
-   * @param {Uint32Array} steps
+   * Calculate a shape from a slice. Steps can be negative, in which case stop should be below start.
+   * @param {Stride} start
+   * @param {Stride} stop
+   * @param {Stride} steps
    * @private
    */
-  export function new_shape_from_slice(start: Uint32Array, stop: Uint32Array, steps: Uint32Array) {
-    const diff = stop.map((e, i) => e - start[i]);
-    const required_steps = diff.map((e, i) => Math.floor(e / steps[i]));
+  export function new_shape_from_slice(start: Stride, stop: Stride, steps: Stride) {
+    const required_steps = Array.from(stop, (e: number, i) => Math.max(0, Math.ceil((e - start[i]) / steps[i])));
     return new Uint32Array(required_steps);
   }
 
+  /**
+   * Resolve a slice tuple against an axis, numpy style.
+   * Negative start and stop count from the end of the axis and out of range values are clipped.
+   * A null start or stop runs to the end of the axis in the direction of the step, so [null, null, -1] reverses an axis.
+   * If no step is given the step is 1, so a stop before start gives an empty slice.
+   * @param index - The [start, stop] or [start, stop, step] tuple.
+   * @param {number} size - The length of the axis.
+   * @return {[number, number, number]} - The start, stop, and step. Stop is -1 for a reversed slice that includes 0.
+   */
+  export function normalize_slice(index: Array<number | null>, size: number): [number, number, number] {
+    let [start, stop, step] = index;
+    if (step === 0) {
+      throw new Error('Slice step cannot be zero.');
+    }
+    const wrap = (e: number) => e < 0 ? e + size : e;
+    const clip = (e: number, lower: number, upper: number) => Math.min(Math.max(wrap(e), lower), upper);
+    if (step === undefined || step === null) {
+      step = 1;
+    }
+
+    if (step > 0) {
+      start = start === null ? 0 : clip(start, 0, size);
+      stop = stop === null ? size : clip(stop, 0, size);
+    } else {
+      start = start === null ? size - 1 : clip(start, -1, size - 1);
+      stop = stop === null ? -1 : clip(stop, -1, size - 1);
+    }
+    return [start, stop, step];
+  }
+
   /**
    *
    * @param indices
@@ -104,30 +143,89 @@ export namespace indexing {
   /**
    *
    * @param {Uint32Array} indices
-   * @param {Uint32Array} stride
+   * @param {Stride} stride
    * @param {number} initial_offset
    * @return {number}
    * @private
    */
-  export function index_in_data(indices: Uint32Array, stride: Uint32Array, initial_offset: number): number {
+  export function index_in_data(indices: Uint32Array, stride: Stride, initial_offset: number): number {
     return utils.dot(indices, stride) + initial_offset;
   }
 
   /**
-   * Produce a column-major stride from an array shape.
+   * Produce a row-major stride from an array shape, so that the data is stored in index order.
    * @param {Uint32Array} shape
    * @private
    */
   export  function stride_from_shape(shape: Uint32Array): Uint32Array {
     let stride = new Uint32Array(shape.length);
-    stride[0] = 1;
+    stride[shape.length - 1] = 1;
     let i;
-    for (i = 0; i < shape.length - 1; i++) {
-      stride[i + 1] = stride[i] * shape[i];
+    for (i = shape.length - 1; i > 0; i--) {
+      stride[i - 1] = stride[i] * shape[i];
     }
     return stride;
   }
 
+  /**
+   * Compute the strides needed to view an array with the given shape and strides as a new shape, in index order.
+   * Only possible when each group of old axes that is merged or split is laid out contiguously with respect to the others.
+   * @param {Uint32Array} old_shape   - The shape of the array.
+   * @param {Stride} old_stride      - The stride of the array.
+   * @param {Uint32Array} new_shape   - The shape to view the array as. Must have the same size as the old shape.
+   * @return {Int32Array | null}      - The new stride, or null if the array must be copied.
+   */
+  export function reshape_stride(old_shape: Uint32Array, old_stride: Stride, new_shape: Uint32Array): Int32Array | null {
+    // Axes of length 1 can have any stride, so ignore them.
+    const old_dims = [];
+    const old_strides = [];
+    old_shape.forEach((e, i) => {
+      if (e !== 1) {
+        old_dims.push(e);
+        old_strides.push(old_stride[i]);
+      }
+    });
+
+    let new_stride = new Int32Array(new_shape.length);
+    let old_start = 0;
+    let old_end = 1;
+    let new_start = 0;
+    let new_end = 1;
+    while (new_start < new_shape.length && old_start < old_dims.length) {
+      // Find the smallest groups of old and new axes with the same size.
+      let new_size = new_shape[new_start];
+      let old_size = old_dims[old_start];
+      while (new_size !== old_size) {
+        if (new_size < old_size) {
+          new_size *= new_shape[new_end++];
+        } else {
+          old_size *= old_dims[old_end++];
+        }
+      }
+
+      // The old axes in the group must be contiguous with respect to each other.
+      for (let k = old_start; k < old_end - 1; k++) {
+        if (old_strides[k] !== old_dims[k + 1] * old_strides[k + 1]) {
+          return null;
+        }
+      }
+
+      new_stride[new_end - 1] = old_strides[old_end - 1];
+      for (let k = new_end - 1; k > new_start; k--) {
+        new_stride[k - 1] = new_stride[k] * new_shape[k];
+      }
+      new_start = new_end++;
+      old_start = old_end++;
+    }
+
+    // Any remaining axes have length 1.
+    const last_stride = new_start > 0 ? new_stride[new_start - 1] : 1;
+    for (let k = new_start; k < new_shape.length; k++) {
+      new_stride[k] = last_stride;
+    }
+    return new_stride;
+  }
+
   /**
    * Convert negative to positive indices.
    * @param {Array<number | number[]>} indices
@@ -199,6 +297,30 @@ export namespace indexing {
     return new_dimensions;
   }
 
+  /**
+   * Compute the stride needed to broadcast an array to a larger shape without copying.
+   * Broadcast axes are given a stride of zero, so iterating over them repeats the same data.
+   * @param {Shape} shape   - The shape of the array.
+   * @param {Stride} stride - The stride of the array.
+   * @param {Shape} target  - The shape to broadcast to.
+   * @return {Int32Array}   - The stride of the broadcast array.
+   */
+  export function broadcast_stride(shape: Shape, stride: Stride, target: Shape): Int32Array {
+    const difference = target.length - shape.length;
+    if (difference < 0) {
+      throw new errors.BadShape(`Cannot broadcast shape ${shape} to ${target}.`);
+    }
+    let new_stride = new Int32Array(target.length);
+    for (let i = 0; i < shape.length; i++) {
+      if (shape[i] === target[i + difference]) {
+        new_stride[i + difference] = stride[i];
+      } else if (shape[i] !== 1) {
+        throw new errors.BadShape(`Cannot broadcast shape ${shape} to ${target}.`);
+      }
+    }
+    return new_stride;
+  }
+
   /**
    * Return an iterator over the indices of a slice.
    * Coordinates are updated last dimension first.
@@ -248,22 +370,40 @@ export namespace indexing {
     return <Iterable<Uint32Array>> iter
   }
 
-  export function iorder_data_iterator(lower_bounds: Uint32Array, upper_bounds: Uint32Array, steps: Uint32Array, stride: Uint32Array, initial_offset: number): Iterable<number> {
-
-    const upper_inclusive = upper_bounds.map(e => e - 1);
-    const start = index_in_data(lower_bounds, stride, initial_offset)
-    const step = stride[stride.length - 1];
-    const end = index_in_data(upper_inclusive, stride, initial_offset);
-    const index_stride = stride.slice(0, -1);
-    let starting_indices = indexing.iorder_index_iterator(lower_bounds.slice(0, -1), upper_bounds.slice(0, -1), steps.slice(0, -1));
+  /**
+   * Iterate over the data indices of the given slice in index order.
+   * Works for any stride, so views that reorder, share, or reverse axes (e.g. transposes, reshapes and flips) are iterated correctly.
+   * @param lower_bounds - The index to start iterating at.
+   * @param upper_bounds - The index to stop iterating at.
+   * @param steps - The size of the step to take (in array space, not data space).
+   * @param stride - The size of the strides in the underlying array. May be negative.
+   * @param initial_offset - The offset of the view.
+   */
+  export function iorder_data_iterator(lower_bounds: Uint32Array, upper_bounds: Uint32Array, steps: Uint32Array, stride: Stride, initial_offset: number): Iterable<number> {
+    const size = indexing.compute_slice_size(lower_bounds, upper_bounds, steps);
+    const start = index_in_data(lower_bounds, stride, initial_offset);
+    const end_dimension = upper_bounds.length - 1;
+    // The number of elements along each dimension, and the distance in the data between consecutive elements.
+    const counts = upper_bounds.map((e, i) => Math.ceil((e - lower_bounds[i]) / steps[i]));
+    const jumps = Array.from(steps, (e, i) => e * stride[i]);
     const iter = {
       [Symbol.iterator]: function* () {
-        for (let starting_index of starting_indices) {
-          let current_index = utils.dot(starting_index, index_stride) + start;
-          while (current_index <= end) {
+        let counter = new Uint32Array(upper_bounds.length);
+        let current_index = start;
+        for (let i = 0; i < size; i++) {
+          yield current_index;
 
-            yield current_index;
-            current_index += step;
+          // Carry the ones.
+          let current_dimension = end_dimension;
+          while (current_dimension >= 0) {
+            counter[current_dimension] += 1;
+            current_index += jumps[current_dimension];
+            if (counter[current_dimension] < counts[current_dimension]) {
+              break;
+            }
+            current_index -= jumps[current_dimension] * counts[current_dimension];
+            counter[current_dimension] = 0;
+            current_dimension--;
           }
         }
       }
@@ -273,97 +413,118 @@ export namespace indexing {
 
   /**
    * Iterate over the given slice in data order.
-   * Should in theory be faster than iterating in index order, since memory accesses are all in the correct order.
+   * Tensors are stored in index order (see `stride_from_shape`), so this is the same as `iorder_data_iterator`.
    * @param lower_bounds - The index to start iterating at.
    * @param upper_bounds - The index to stop iterating at.
    * @param steps - The size of the step to take (in array space, not data space).
-   * @param stride - The size of the strides in the underlying array.
+   * @param stride - The size of the strides in the underlying array. May be negative.
    * @param initial_offset - The offset of the view.
    */
-  export function dorder_data_iterator(lower_bounds: Uint32Array, upper_bounds: Uint32Array, steps: Uint32Array, stride: Uint32Array,  initial_offset: number): Iterable<number> {
-
-    const offset = lower_bounds.reduce((a, b) => a * b, 1);
-    // The size of a step to go from a[..., i, ...] to a[..., i+1, ...]
-    // For instance, if i is the last dimension and the array in question isn't a view,
-    // full_steps[i] == 1, because a single column of the last dimension is stored contiguously.
-    const full_steps = steps.map((e, i) => e * stride[i]);
-    // The number of steps to make along each dimension.
-    const max_steps = upper_bounds.map((e, i) => e - lower_bounds[i] - 1);
-    const distance_covered = full_steps.slice(0, -1).map((e, i) => e * max_steps[i]);
-    const step_size = full_steps.map((e, i) => {
-      // The amount covered by the inner steps.
-      const loss = (i === 0)? 0: distance_covered[i-1];
-      // The amount covered by the final step.
-      const secondary_loss = (i >= 2)? distance_covered[i-2]: 0;
-      // The amount needed to rotate through to the next row.
-      return e - loss - secondary_loss;
-    });
-    let iters = [];
-    // Each time we make a step along the ith dimension, we first do a full round of lower-level steps, recursively.
-    step_size.forEach((e, i) => {
-      const i_iter = {
-        [Symbol.iterator]: function* () {
-          for (let j = 0; j < max_steps[i]; j++) {
-            // Every time we make a step at dimension i, we go through all the dimensions < i.
-            if (i > 0) {
-              for (let k of iters[i - 1]) {
-                yield k;
-              }
-            }
-            // Make one step at the ith dimension.
-            yield e;
-          }
-          // Run through the i-1 level again.
-          if (i > 0) {
-            for (let k of iters[i - 1]) {
-              yield k;
-            }
-          }
-        }
-      };
-      iters.push(i_iter);
-    });
-    let index = initial_offset + offset;
-    const iter = {
-      [Symbol.iterator]: function* () {
-        for (let step of iters[iters.length-1]) {
-          yield index;
-          index += step;
-        }
-        // Yield the final index.
-        yield index;
-      }
-    };
-
-    return iter;
+  export function dorder_data_iterator(lower_bounds: Uint32Array, upper_bounds: Uint32Array, steps: Uint32Array, stride: Stride,  initial_offset: number): Iterable<number> {
+    return iorder_data_iterator(lower_bounds, upper_bounds, steps, stride, initial_offset);
   }
 
+  /**
+   * Iterate over the indices of the given slice in data order.
+   * Tensors are stored in index order (see `stride_from_shape`), so this is the same as `iorder_index_iterator`.
+   * @param lower_bounds - The index to start iterating at.
+   * @param upper_bounds - The index to stop iterating at.
+   * @param steps - The size of the step to take along each dimension.
+   */
   export function dorder_index_iterator(lower_bounds: Uint32Array, upper_bounds: Uint32Array, steps: Uint32Array): Iterable<Uint32Array> {
+    return iorder_index_iterator(lower_bounds, upper_bounds, steps);
+  }
 
-    const size = indexing.compute_slice_size(lower_bounds, upper_bounds, steps);
-    const end_dimension = upper_bounds.length - 1;
-    const iter = {
-      [Symbol.iterator]: function* () {
-        let current_index = lower_bounds.slice();
-
-        // Equivalent to stopping when the maximum index is reached, but saves actually checking for array equality.
-        for (let i = 0; i < size; i++) {
-          // Yield a copy of the current index.
-          yield current_index.slice();
+  /**
+   * Check whether an index is an ellipsis.
+   * @param index - The index to check.
+   * @return {boolean}
+   */
+  export function is_ellipsis(index: any): boolean {
+    return index === ELLIPSIS || index === '...';
+  }
 
-          current_index[0] += 1;
+  /**
+   * Replace the ellipsis in a user slice with full slices, and remove any new axes.
+   * @param slice - The slice provided by the user.
+   * @param {number} ndims - The number of dimensions of the array being sliced.
+   * @return {[USlice, number[]]} - The expanded slice, and the positions of the new axes in the sliced array.
+   */
+  export function expand_uslice(slice: USlice, ndims: number): [USlice, number[]] {
+    if (slice.filter(is_ellipsis).length > 1) {
+      throw new Error('An index can only contain a single ellipsis.');
+    }
+    const consumed = slice.filter(e => !is_ellipsis(e) && e !== NEWAXIS).length;
+    if (consumed > ndims) {
+      throw new Error(`Too many indices: ${consumed} for an array with ${ndims} dimensions.`);
+    }
 
-          // Carry the ones.
-          let current_dimension = 0;
-          while (current_dimension <= end_dimension && (current_index[current_dimension] === upper_bounds[current_dimension])) {
-            current_index[current_dimension] = lower_bounds[current_dimension];
-            current_dimension += 1;
-            current_index[current_dimension] += steps[current_dimension];
-          }
+    let expanded = [];
+    let new_axes = [];
+    // The number of dimensions of the sliced array so far.
+    let result_dims = 0;
+    for (let index of slice) {
+      if (is_ellipsis(index)) {
+        for (let i = 0; i < ndims - consumed; i++) {
+          expanded.push(null);
+          result_dims += 1;
         }
+      } else if (index === NEWAXIS) {
+        new_axes.push(result_dims);
+        result_dims += 1;
+      } else {
+        expanded.push(index);
+        if (!utils.is_numeric(index)) {
+          result_dims += 1;
+        }
+      }
+    }
+    return [expanded, new_axes];
+  }
+
+  /**
+   * Parse a numpy-style index string, e.g. '1:5, ::2, -1', into a user slice.
+   * Supports integers, start:stop:step slices with any part omitted, '...', and 'None' or 'newaxis' for new axes.
+   * @param {string} index - The index string. May be wrapped in square brackets.
+   * @return {USlice}
+   */
+  export function parse_slice_string(index: string): USlice {
+    const stripped = index.trim().replace(/^\[(.*)\]$/, '$1').trim();
+    if (stripped === '') {
+      return [];
+    }
+    const parse_int = (value: string, part: string): number => {
+      if (!/^[+-]?\d+$/.test(value)) {
+        throw new Error(`Invalid ${part} '${value}' in index '${index}'.`);
       }
+      return parseInt(value, 10);
     };
-    return <Iterable<Uint32Array>> iter
+
+    return stripped.split(',').map(e => e.trim()).map(term => {
+      if (term === '...') {
+        return ELLIPSIS;
+      } else if (term === 'None' || term === 'newaxis') {
+        return NEWAXIS;
+      } else if (term.indexOf(':') === -1) {
+        return parse_int(term, 'integer');
+      }
+
+      const parts = term.split(':').map(e => e.trim());
+      if (parts.length > 3) {
+        throw new Error(`Invalid slice '${term}' in index '${index}'.`);
+      }
+      const step = parts.length === 3 && parts[2] !== '' ? parse_int(parts[2], 'step') : 1;
+      if (step === 0) {
+        throw new Error(`Invalid step ${step} in index '${index}'. Steps cannot be zero.`);
+      }
+      const start = parts[0] === '' ? null : parse_int(parts[0], 'start');
+      const stop = parts[1] === '' ? null : parse_int(parts[1], 'stop');
+      if (start === null && stop === null && step === 1) {
+        return null;
+      }
+      // The step is always explicit, so a stop before the start gives an empty slice like in numpy.
+      return [start, stop, step];
+    });
   }
 
   /**
@@ -0,0 +1,1774 @@
+import {tensor, errors} from '../tensor';
+import * as constructors from './constructors';
+import * as complex from './complex';
+import {indexing} from './indexing';
+import {utils} from '../utils';
+
+/**
+ * The floating point dtype of the result of a decomposition of an array with the given dtype.
+ * float32 is preserved, everything else becomes float64.
+ * @param {string} dtype
+ * @return {string}
+ */
+function _float_dtype(dtype: string): string {
+    return dtype === 'float32' ? 'float32' : 'float64';
+}
+
+/**
+ * Check that an array is a square matrix or a stack of square matrices.
+ * @param {tensor} a    - The array to check.
+ * @param {string} name - The name of the calling function, for the error message.
+ */
+function _check_square(a: tensor, name: string) {
+    const ndims = a.shape.length;
+    if (ndims < 2 || a.shape[ndims - 1] !== a.shape[ndims - 2]) {
+        throw new errors.BadShape(`${name} requires a square matrix or a stack of square matrices. Got shape ${a.shape}.`);
+    }
+}
+
+/**
+ * Copy the values of a real tensor into a Float64Array, in index order. 64-bit integers are converted to numbers.
+ * @param {tensor} a    - The tensor.
+ * @param {string} name - The name of the calling function, for the error message.
+ * @return {Float64Array}
+ */
+function _float_values(a: tensor, name: string): Float64Array {
+    complex._check_real(name, a);
+    return Float64Array.from(a._iorder_value_iterator(), Number);
+}
+
+/**
+ * Copy each matrix in a stack into a row-major Float64Array.
+ * @param {tensor} a    - An array with at least two dimensions. The last two are the rows and columns of each matrix.
+ * @param {string} name - The name of the calling function, for the error message.
+ * @return {[Float64Array[], Uint32Array]} - The matrices, and the shape of the stack (all but the last two dimensions).
+ */
+function _unstack(a: tensor, name: string): [Float64Array[], Uint32Array] {
+    if (a.shape.length < 2) {
+        throw new errors.BadShape(`Expected a matrix or a stack of matrices. Got shape ${a.shape}.`);
+    }
+    const batch_shape = a.shape.slice(0, -2);
+    const batch_size = batch_shape.reduce((acc, e) => acc * e, 1);
+    const size = a.shape[a.shape.length - 2] * a.shape[a.shape.length - 1];
+    const values = _float_values(a, name);
+    let matrices = [];
+    for (let i = 0; i < batch_size; i++) {
+        matrices.push(values.slice(i * size, (i + 1) * size));
+    }
+    return [matrices, batch_shape];
+}
+
+/**
+ * Combine row-major matrices into a single tensor.
+ * @param {Float64Array[]} matrices - The matrices, in index order of the stack.
+ * @param {Uint32Array} batch_shape - The shape of the stack.
+ * @param {number} rows             - The number of rows of each matrix.
+ * @param {number} cols             - The number of columns of each matrix.
+ * @param {string} dtype            - The dtype of the result.
+ * @return {tensor}                 - An array with shape [...batch_shape, rows, cols].
+ */
+function _stack(matrices: Float64Array[], batch_shape: Uint32Array, rows: number, cols: number, dtype: string): tensor {
+    const size = rows * cols;
+    let data = new Float64Array(matrices.length * size);
+    matrices.forEach((e, i) => data.set(e, i * size));
+    return constructors.from_iterable(data, [...batch_shape, rows, cols], dtype);
+}
+
+/**
+ * Collect one value per matrix in a stack. Unstacked matrices give a plain number.
+ * @param {number[]} values         - The value for each matrix, in index order of the stack.
+ * @param {Uint32Array} batch_shape - The shape of the stack.
+ * @param {string} dtype            - The dtype of the result.
+ * @return {tensor | number}
+ */
+function _batch_result(values: number[], batch_shape: Uint32Array, dtype: string): tensor | number {
+    return batch_shape.length === 0 ? values[0] : constructors.from_iterable(values, batch_shape, dtype);
+}
+
+/**
+ * The position of an index of a broadcast stack in a stack of the given shape, in index order.
+ * @param {Uint32Array} index - The index into the broadcast stack.
+ * @param {Uint32Array} shape - The shape of the stack. Must broadcast to the shape index belongs to.
+ * @return {number}
+ */
+function _flat_index(index: Uint32Array, shape: Uint32Array): number {
+    const difference = index.length - shape.length;
+    let flat = 0;
+    for (let i = 0; i < shape.length; i++) {
+        flat = flat * shape[i] + (shape[i] === 1 ? 0 : index[i + difference]);
+    }
+    return flat;
+}
+
+/**
+ * Broadcast the shapes of two stacks of matrices together, like `broadcast_matmul` does.
+ * @param {Uint32Array} a_batch - The shape of the first stack.
+ * @param {Uint32Array} b_batch - The shape of the second stack.
+ * @return {[Uint32Array, Array<[number, number]>]} - The broadcast shape, and for each matrix in it the positions of the matching matrices in each stack.
+ */
+function _broadcast_batches(a_batch: Uint32Array, b_batch: Uint32Array): [Uint32Array, Array<[number, number]>] {
+    const batch_shape = indexing.calculate_broadcast_dimensions(a_batch, b_batch);
+    if (batch_shape.length === 0) {
+        return [batch_shape, [[0, 0]]];
+    }
+    let pairs: Array<[number, number]> = [];
+    for (let index of indexing.iorder_index_iterator(batch_shape)) {
+        pairs.push([_flat_index(index, a_batch), _flat_index(index, b_batch)]);
+    }
+    return [batch_shape, pairs];
+}
+
+/**
+ * Factor a square matrix as PA = LU using Gaussian elimination with partial pivoting.
+ * L and U are stored together in the returned matrix, with the unit diagonal of L left implicit.
+ * @param {Float64Array} a - The row-major matrix. Not modified.
+ * @param {number} n       - The number of rows and columns.
+ * @return {[Float64Array, Int32Array, number, boolean]} - The combined factors, the permutation (row i of PA is row perm[i] of A),
+ *                                                         the sign of the permutation, and whether the matrix is singular.
+ */
+function _lu_factor(a: Float64Array, n: number): [Float64Array, Int32Array, number, boolean] {
+    let lu = a.slice();
+    let perm = new Int32Array(n).map((e, i) => i);
+    let sign = 1;
+    let singular = false;
+    for (let k = 0; k < n; k++) {
+        // Pivot on the largest remaining entry in the column.
+        let pivot = k;
+        for (let i = k + 1; i < n; i++) {
+            if (Math.abs(lu[i * n + k]) > Math.abs(lu[pivot * n + k])) {
+                pivot = i;
+            }
+        }
+        if (lu[pivot * n + k] === 0) {
+            singular = true;
+            continue;
+        }
+        if (pivot !== k) {
+            for (let j = 0; j < n; j++) {
+                const temp = lu[k * n + j];
+                lu[k * n + j] = lu[pivot * n + j];
+                lu[pivot * n + j] = temp;
+            }
+            [perm[k], perm[pivot]] = [perm[pivot], perm[k]];
+            sign = -sign;
+        }
+
+        for (let i = k + 1; i < n; i++) {
+            const factor = lu[i * n + k] / lu[k * n + k];
+            lu[i * n + k] = factor;
+            for (let j = k + 1; j < n; j++) {
+                lu[i * n + j] -= factor * lu[k * n + j];
+            }
+        }
+    }
+    return [lu, perm, sign, singular];
+}
+
+/**
+ * Solve AX = B given the LU factorization of A.
+ * @param {Float64Array} lu   - The combined factors from `_lu_factor`.
+ * @param {Int32Array} perm   - The permutation from `_lu_factor`.
+ * @param {number} n          - The number of rows and columns of A.
+ * @param {Float64Array} b    - The row-major n x k right hand side.
+ * @param {number} k          - The number of columns of B.
+ * @return {Float64Array}     - The row-major n x k solution.
+ */
+function _lu_solve(lu: Float64Array, perm: Int32Array, n: number, b: Float64Array, k: number): Float64Array {
+    let x = new Float64Array(n * k);
+    for (let i = 0; i < n; i++) {
+        x.set(b.subarray(perm[i] * k, (perm[i] + 1) * k), i * k);
+    }
+
+    // Forward substitution with L.
+    for (let i = 0; i < n; i++) {
+        for (let r = 0; r < i; r++) {
+            const factor = lu[i * n + r];
+            for (let j = 0; j < k; j++) {
+                x[i * k + j] -= factor * x[r * k + j];
+            }
+        }
+    }
+
+    // Back substitution with U.
+    for (let i = n - 1; i >= 0; i--) {
+        for (let r = i + 1; r < n; r++) {
+            const factor = lu[i * n + r];
+            for (let j = 0; j < k; j++) {
+                x[i * k + j] -= factor * x[r * k + j];
+            }
+        }
+        const diagonal = lu[i * n + i];
+        for (let j = 0; j < k; j++) {
+            x[i * k + j] /= diagonal;
+        }
+    }
+    return x;
+}
+
+/**
+ * The n x n identity matrix.
+ * @param {number} n
+ * @return {Float64Array} - The row-major matrix.
+ */
+function _identity(n: number): Float64Array {
+    let identity = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        identity[i * n + i] = 1;
+    }
+    return identity;
+}
+
+/**
+ * Invert a square matrix.
+ * @param {Float64Array} a  - The row-major matrix.
+ * @param {number} n        - The number of rows and columns.
+ * @return {Float64Array}   - The row-major inverse.
+ */
+function _inverse(a: Float64Array, n: number): Float64Array {
+    const [lu, perm, , singular] = _lu_factor(a, n);
+    if (singular) {
+        throw new errors.SingularMatrix();
+    }
+    return _lu_solve(lu, perm, n, _identity(n), n);
+}
+
+/**
+ * Multiply two square matrices.
+ * @param {Float64Array} a  - The first row-major matrix.
+ * @param {Float64Array} b  - The second row-major matrix.
+ * @param {number} n        - The number of rows and columns.
+ * @return {Float64Array}   - The row-major product ab.
+ */
+function _square_matmul(a: Float64Array, b: Float64Array, n: number): Float64Array {
+    let product = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        for (let k = 0; k < n; k++) {
+            const a_ik = a[i * n + k];
+            for (let j = 0; j < n; j++) {
+                product[i * n + j] += a_ik * b[k * n + j];
+            }
+        }
+    }
+    return product;
+}
+
+/**
+ * Solve the linear system AX = B.
+ * Stacks of systems are broadcast together, like `broadcast_matmul`.
+ * @param {tensor} a - A square matrix or a stack of square matrices, with shape [..., n, n].
+ * @param {tensor} b - The right hand side. Either a vector with shape [n], or a stack of matrices with shape [..., n, k].
+ * @return {tensor}  - The solution, with the same shape as b (after broadcasting).
+ *
+ * @example
+ *    let x = linalg.solve(numts.from_nested_array([[3, 1], [1, 2]]), numts.from_nested_array([9, 8])); // [2, 3]
+ */
+export function solve(a: tensor, b: tensor): tensor {
+    _check_square(a, 'solve');
+    const n = a.shape[a.shape.length - 1];
+    const is_vector = b.shape.length === 1;
+    if (b.shape[is_vector ? 0 : b.shape.length - 2] !== n) {
+        throw new errors.MismatchedShapes(a.shape, b.shape);
+    }
+    const b_matrix = is_vector ? b.reshape(n, 1) : b;
+    const k = b_matrix.shape[b_matrix.shape.length - 1];
+
+    const [a_matrices, a_batch] = _unstack(a, 'solve');
+    const [b_matrices, b_batch] = _unstack(b_matrix, 'solve');
+    const [batch_shape, pairs] = _broadcast_batches(a_batch, b_batch);
+    const factors = a_matrices.map(e => _lu_factor(e, n));
+    const solutions = pairs.map(([i, j]) => {
+        const [lu, perm, , singular] = factors[i];
+        if (singular) {
+            throw new errors.SingularMatrix();
+        }
+        return _lu_solve(lu, perm, n, b_matrices[j], k);
+    });
+
+    const x = _stack(solutions, batch_shape, n, k, _float_dtype(utils._dtype_join(a.dtype, b.dtype)));
+    return is_vector ? x.reshape(...batch_shape, n) : x;
+}
+
+/**
+ * Compute the inverse of a matrix.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {tensor}  - The inverse of each matrix.
+ */
+export function inv(a: tensor): tensor {
+    _check_square(a, 'inv');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'inv');
+    return _stack(matrices.map(e => _inverse(e, n)), batch_shape, n, n, _float_dtype(a.dtype));
+}
+
+/**
+ * Compute the determinant of a matrix.
+ * @param {tensor} a          - A square matrix or a stack of square matrices.
+ * @return {tensor | number}  - The determinant. A number for a single matrix, otherwise a tensor with the shape of the stack.
+ */
+export function det(a: tensor): tensor | number {
+    _check_square(a, 'det');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'det');
+    const determinants = matrices.map(e => {
+        const [lu, , sign, singular] = _lu_factor(e, n);
+        if (singular) {
+            return 0;
+        }
+        let determinant = sign;
+        for (let i = 0; i < n; i++) {
+            determinant *= lu[i * n + i];
+        }
+        return determinant;
+    });
+    return _batch_result(determinants, batch_shape, _float_dtype(a.dtype));
+}
+
+/**
+ * Compute the sign and the log of the absolute value of the determinant of a matrix.
+ * Does not overflow or underflow for matrices whose determinant is too large or small to represent.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {[tensor | number, tensor | number]} - The sign (1, -1, or 0 for a singular matrix), and the log of the absolute
+ *                                                value of the determinant (-Infinity for a singular matrix).
+ */
+export function slogdet(a: tensor): [tensor | number, tensor | number] {
+    _check_square(a, 'slogdet');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'slogdet');
+    let signs = [];
+    let logs = [];
+    for (let matrix of matrices) {
+        let [lu, , sign, singular] = _lu_factor(matrix, n);
+        let log = 0;
+        for (let i = 0; i < n && !singular; i++) {
+            const diagonal = lu[i * n + i];
+            sign *= Math.sign(diagonal);
+            log += Math.log(Math.abs(diagonal));
+        }
+        signs.push(singular ? 0 : sign);
+        logs.push(singular ? -Infinity : log);
+    }
+    const dtype = _float_dtype(a.dtype);
+    return [_batch_result(signs, batch_shape, dtype), _batch_result(logs, batch_shape, dtype)];
+}
+
+/**
+ * Compute the pivoted LU decomposition of a matrix, A = PLU.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {[tensor, tensor, tensor]} - The permutation matrix P, the unit lower triangular matrix L, and the upper triangular matrix U.
+ *
+ * @example
+ *    let [p, l, u] = linalg.lu(numts.from_nested_array([[1, 2], [3, 4]]));
+ */
+export function lu(a: tensor): [tensor, tensor, tensor] {
+    _check_square(a, 'lu');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'lu');
+    let permutations = [];
+    let lowers = [];
+    let uppers = [];
+    for (let matrix of matrices) {
+        const [factors, perm] = _lu_factor(matrix, n);
+        let p = new Float64Array(n * n);
+        let l = new Float64Array(n * n);
+        let u = new Float64Array(n * n);
+        for (let i = 0; i < n; i++) {
+            p[perm[i] * n + i] = 1;
+            l[i * n + i] = 1;
+            for (let j = 0; j < n; j++) {
+                if (j < i) {
+                    l[i * n + j] = factors[i * n + j];
+                } else {
+                    u[i * n + j] = factors[i * n + j];
+                }
+            }
+        }
+        permutations.push(p);
+        lowers.push(l);
+        uppers.push(u);
+    }
+    const dtype = _float_dtype(a.dtype);
+    return [
+        _stack(permutations, batch_shape, n, n, dtype),
+        _stack(lowers, batch_shape, n, n, dtype),
+        _stack(uppers, batch_shape, n, n, dtype)
+    ];
+}
+
+/**
+ * Compute the QR decomposition of an m x n matrix using Householder reflections.
+ * @param {Float64Array} a - The row-major matrix. Not modified.
+ * @param {number} m       - The number of rows.
+ * @param {number} n       - The number of columns.
+ * @return {[Float64Array, Float64Array]} - The m x m orthogonal matrix Q and the m x n upper triangular matrix R.
+ */
+function _householder_qr(a: Float64Array, m: number, n: number): [Float64Array, Float64Array] {
+    let r = a.slice();
+    let q = new Float64Array(m * m);
+    for (let i = 0; i < m; i++) {
+        q[i * m + i] = 1;
+    }
+
+    let v = new Float64Array(m);
+    for (let j = 0; j < Math.min(m - 1, n); j++) {
+        // Reflect column j onto the jth axis. The sign is chosen to avoid cancellation.
+        let norm = 0;
+        for (let i = j; i < m; i++) {
+            norm = Math.hypot(norm, r[i * n + j]);
+        }
+        if (norm === 0) {
+            continue;
+        }
+        const alpha = r[j * n + j] < 0 ? norm : -norm;
+        let v_norm = 0;
+        for (let i = j; i < m; i++) {
+            v[i] = r[i * n + j] - (i === j ? alpha : 0);
+            v_norm = Math.hypot(v_norm, v[i]);
+        }
+        for (let i = j; i < m; i++) {
+            v[i] /= v_norm;
+        }
+
+        // R <- (I - 2vv^T) R
+        for (let col = j; col < n; col++) {
+            let projection = 0;
+            for (let i = j; i < m; i++) {
+                projection += v[i] * r[i * n + col];
+            }
+            for (let i = j; i < m; i++) {
+                r[i * n + col] -= 2 * projection * v[i];
+            }
+        }
+
+        // Q <- Q (I - 2vv^T)
+        for (let row = 0; row < m; row++) {
+            let projection = 0;
+            for (let i = j; i < m; i++) {
+                projection += q[row * m + i] * v[i];
+            }
+            for (let i = j; i < m; i++) {
+                q[row * m + i] -= 2 * projection * v[i];
+            }
+        }
+    }
+
+    // Clear the rounding errors left below the diagonal.
+    for (let i = 1; i < m; i++) {
+        for (let j = 0; j < Math.min(i, n); j++) {
+            r[i * n + j] = 0;
+        }
+    }
+    return [q, r];
+}
+
+/**
+ * Compute the QR decomposition of a matrix, A = QR, using Householder reflections.
+ * @param {tensor} a    - An m x n matrix or a stack of them.
+ * @param {string} mode - 'reduced' gives Q with shape m x k and R with shape k x n, where k = min(m, n).
+ *                        'complete' gives Q with shape m x m and R with shape m x n.
+ * @return {[tensor, tensor]} - Q, which has orthonormal columns, and the upper triangular matrix R.
+ */
+export function qr(a: tensor, mode: string = 'reduced'): [tensor, tensor] {
+    if (mode !== 'reduced' && mode !== 'complete') {
+        throw new Error(`Unknown mode ${mode}. Must be 'reduced' or 'complete'.`);
+    }
+    const [matrices, batch_shape] = _unstack(a, 'qr');
+    const m = a.shape[a.shape.length - 2];
+    const n = a.shape[a.shape.length - 1];
+    const k = mode === 'reduced' ? Math.min(m, n) : m;
+    let qs = [];
+    let rs = [];
+    for (let matrix of matrices) {
+        const [q, r] = _householder_qr(matrix, m, n);
+        if (k === m) {
+            qs.push(q);
+            rs.push(r);
+        } else {
+            let reduced_q = new Float64Array(m * k);
+            for (let i = 0; i < m; i++) {
+                reduced_q.set(q.subarray(i * m, i * m + k), i * k);
+            }
+            qs.push(reduced_q);
+            rs.push(r.slice(0, k * n));
+        }
+    }
+    const dtype = _float_dtype(a.dtype);
+    return [_stack(qs, batch_shape, m, k, dtype), _stack(rs, batch_shape, k, n, dtype)];
+}
+
+/**
+ * Compute the Cholesky decomposition of a symmetric positive definite matrix, A = LL^T.
+ * Only the lower triangle of A is used.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {tensor}  - The lower triangular matrix L.
+ */
+export function cholesky(a: tensor): tensor {
+    _check_square(a, 'cholesky');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'cholesky');
+    const factors = matrices.map(matrix => {
+        let l = new Float64Array(n * n);
+        for (let j = 0; j < n; j++) {
+            let diagonal = matrix[j * n + j];
+            for (let k = 0; k < j; k++) {
+                diagonal -= l[j * n + k] * l[j * n + k];
+            }
+            // Also catches NaN.
+            if (!(diagonal > 0)) {
+                throw new errors.NotPositiveDefinite();
+            }
+            l[j * n + j] = Math.sqrt(diagonal);
+
+            for (let i = j + 1; i < n; i++) {
+                let value = matrix[i * n + j];
+                for (let k = 0; k < j; k++) {
+                    value -= l[i * n + k] * l[j * n + k];
+                }
+                l[i * n + j] = value / l[j * n + j];
+            }
+        }
+        return l;
+    });
+    return _stack(factors, batch_shape, n, n, _float_dtype(a.dtype));
+}
+
+/**
+ * Find the eigenvalues and eigenvectors of a symmetric matrix with the cyclic Jacobi method.
+ * @param {Float64Array} matrix - The row-major matrix. Only the lower triangle is used. Not modified.
+ * @param {number} n            - The number of rows and columns.
+ * @return {[Float64Array, Float64Array]} - The eigenvalues in ascending order, and the row-major matrix whose columns are the eigenvectors.
+ */
+function _jacobi_eigh(matrix: Float64Array, n: number): [Float64Array, Float64Array] {
+    let a = matrix.slice();
+    let v = new Float64Array(n * n);
+    let norm = 0;
+    for (let i = 0; i < n; i++) {
+        v[i * n + i] = 1;
+        for (let j = 0; j < i; j++) {
+            a[j * n + i] = a[i * n + j];
+        }
+    }
+    a.forEach(e => norm = Math.hypot(norm, e));
+
+    let converged = false;
+    for (let sweep = 0; sweep < 100 && !converged; sweep++) {
+        let off_diagonal = 0;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                off_diagonal = Math.hypot(off_diagonal, a[p * n + q]);
+            }
+        }
+        converged = off_diagonal <= Number.EPSILON * norm;
+
+        for (let p = 0; p < n && !converged; p++) {
+            for (let q = p + 1; q < n; q++) {
+                const a_pq = a[p * n + q];
+                if (a_pq === 0) {
+                    continue;
+                }
+                // The rotation J that zeroes a_pq in J^T A J.
+                const theta = (a[q * n + q] - a[p * n + p]) / (2 * a_pq);
+                const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                const c = 1 / Math.sqrt(t * t + 1);
+                const s = t * c;
+                for (let k = 0; k < n; k++) {
+                    const a_kp = a[k * n + p];
+                    const a_kq = a[k * n + q];
+                    a[k * n + p] = c * a_kp - s * a_kq;
+                    a[k * n + q] = s * a_kp + c * a_kq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const a_pk = a[p * n + k];
+                    const a_qk = a[q * n + k];
+                    a[p * n + k] = c * a_pk - s * a_qk;
+                    a[q * n + k] = s * a_pk + c * a_qk;
+                }
+                for (let k = 0; k < n; k++) {
+                    const v_kp = v[k * n + p];
+                    const v_kq = v[k * n + q];
+                    v[k * n + p] = c * v_kp - s * v_kq;
+                    v[k * n + q] = s * v_kp + c * v_kq;
+                }
+            }
+        }
+    }
+    if (!converged) {
+        throw new errors.DidNotConverge('Eigenvalues did not converge.');
+    }
+
+    const order = Array.from({length: n}, (e, i) => i).sort((i, j) => a[i * n + i] - a[j * n + j]);
+    const values = Float64Array.from(order, i => a[i * n + i]);
+    let vectors = new Float64Array(n * n);
+    for (let k = 0; k < n; k++) {
+        order.forEach((e, j) => vectors[k * n + j] = v[k * n + e]);
+    }
+    return [values, vectors];
+}
+
+/**
+ * Compute the eigenvalues and eigenvectors of a symmetric matrix.
+ * Only the lower triangle of each matrix is used.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {[tensor, tensor]} - The eigenvalues in ascending order, and a matrix whose columns are the corresponding unit eigenvectors.
+ */
+export function eigh(a: tensor): [tensor, tensor] {
+    _check_square(a, 'eigh');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'eigh');
+    const decompositions = matrices.map(e => _jacobi_eigh(e, n));
+    const dtype = _float_dtype(a.dtype);
+    return [
+        _stack(decompositions.map(e => e[0]), batch_shape, 1, n, dtype).reshape(...batch_shape, n),
+        _stack(decompositions.map(e => e[1]), batch_shape, n, n, dtype)
+    ];
+}
+
+/**
+ * Divide two complex numbers.
+ * @return {[number, number]} - The real and imaginary parts of (xr + i xi) / (yr + i yi).
+ */
+function _complex_div(xr: number, xi: number, yr: number, yi: number): [number, number] {
+    if (Math.abs(yr) > Math.abs(yi)) {
+        const r = yi / yr;
+        const d = yr + r * yi;
+        return [(xr + r * xi) / d, (xi - r * xr) / d];
+    } else {
+        const r = yr / yi;
+        const d = yi + r * yr;
+        return [(r * xr + xi) / d, (r * xi - xr) / d];
+    }
+}
+
+/**
+ * Reduce a matrix to upper Hessenberg form with Householder similarity transformations, H = Q^T A Q.
+ * @param {Float64Array} h - The row-major matrix. Reduced in place.
+ * @param {number} n       - The number of rows and columns.
+ * @return {Float64Array}  - The row-major orthogonal matrix Q.
+ */
+function _hessenberg(h: Float64Array, n: number): Float64Array {
+    let ort = new Float64Array(n);
+    for (let m = 1; m < n - 1; m++) {
+        let scale = 0;
+        for (let i = m; i < n; i++) {
+            scale += Math.abs(h[i * n + m - 1]);
+        }
+        if (scale === 0) {
+            continue;
+        }
+
+        let norm_squared = 0;
+        for (let i = n - 1; i >= m; i--) {
+            ort[i] = h[i * n + m - 1] / scale;
+            norm_squared += ort[i] * ort[i];
+        }
+        const g = ort[m] > 0 ? -Math.sqrt(norm_squared) : Math.sqrt(norm_squared);
+        norm_squared -= ort[m] * g;
+        ort[m] -= g;
+
+        // H <- (I - uu^T / |u|^2) H (I - uu^T / |u|^2)
+        for (let j = m; j < n; j++) {
+            let f = 0;
+            for (let i = n - 1; i >= m; i--) {
+                f += ort[i] * h[i * n + j];
+            }
+            f /= norm_squared;
+            for (let i = m; i < n; i++) {
+                h[i * n + j] -= f * ort[i];
+            }
+        }
+        for (let i = 0; i < n; i++) {
+            let f = 0;
+            for (let j = n - 1; j >= m; j--) {
+                f += ort[j] * h[i * n + j];
+            }
+            f /= norm_squared;
+            for (let j = m; j < n; j++) {
+                h[i * n + j] -= f * ort[j];
+            }
+        }
+        ort[m] *= scale;
+        h[m * n + m - 1] = scale * g;
+    }
+
+    // Accumulate the transformations.
+    let q = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        q[i * n + i] = 1;
+    }
+    for (let m = n - 2; m >= 1; m--) {
+        if (h[m * n + m - 1] === 0) {
+            continue;
+        }
+        for (let i = m + 1; i < n; i++) {
+            ort[i] = h[i * n + m - 1];
+        }
+        for (let j = m; j < n; j++) {
+            let g = 0;
+            for (let i = m; i < n; i++) {
+                g += ort[i] * q[i * n + j];
+            }
+            // Double division avoids possible underflow.
+            g = (g / ort[m]) / h[m * n + m - 1];
+            for (let i = m; i < n; i++) {
+                q[i * n + j] += g * ort[i];
+            }
+        }
+    }
+    return q;
+}
+
+/**
+ * Find the eigenvalues and eigenvectors of a general real matrix.
+ * Reduces the matrix to Hessenberg form, then to real Schur form with the shifted (Francis double step) QR algorithm,
+ * and finally finds the eigenvectors by back substitution. This follows the EISPACK routines orthes and hqr2.
+ * @param {Float64Array} matrix - The row-major matrix. Not modified.
+ * @param {number} nn           - The number of rows and columns.
+ * @return {[Float64Array, Float64Array, Float64Array]} - The real and imaginary parts of the eigenvalues, and the row-major
+ *     matrix V of eigenvectors. For a real eigenvalue the column of V is its eigenvector. For a complex pair at j and j + 1
+ *     (positive imaginary part first) the eigenvectors are V[:, j] + i V[:, j + 1] and its conjugate.
+ */
+function _schur_eig(matrix: Float64Array, nn: number): [Float64Array, Float64Array, Float64Array] {
+    let h = matrix.slice();
+    let v = _hessenberg(h, nn);
+    let d = new Float64Array(nn);
+    let e = new Float64Array(nn);
+    const eps = Number.EPSILON;
+    const H = (i: number, j: number) => h[i * nn + j];
+
+    let norm = 0;
+    for (let i = 0; i < nn; i++) {
+        for (let j = Math.max(i - 1, 0); j < nn; j++) {
+            norm += Math.abs(H(i, j));
+        }
+    }
+
+    let n = nn - 1;
+    let exshift = 0;
+    let iter = 0;
+    let total_iter = 0;
+    let p = 0, q = 0, r = 0, s = 0, z = 0, t, w, x, y;
+    while (n >= 0) {
+        // Look for a single small subdiagonal element.
+        let l = n;
+        while (l > 0) {
+            s = Math.abs(H(l - 1, l - 1)) + Math.abs(H(l, l));
+            if (s === 0) {
+                s = norm;
+            }
+            if (Math.abs(H(l, l - 1)) < eps * s) {
+                break;
+            }
+            l--;
+        }
+
+        if (l === n) {
+            // One root found.
+            h[n * nn + n] += exshift;
+            d[n] = H(n, n);
+            e[n] = 0;
+            n--;
+            iter = 0;
+        } else if (l === n - 1) {
+            // Two roots found.
+            w = H(n, n - 1) * H(n - 1, n);
+            p = (H(n - 1, n - 1) - H(n, n)) / 2;
+            q = p * p + w;
+            z = Math.sqrt(Math.abs(q));
+            h[n * nn + n] += exshift;
+            h[(n - 1) * nn + n - 1] += exshift;
+            x = H(n, n);
+
+            if (q >= 0) {
+                // A real pair.
+                z = p >= 0 ? p + z : p - z;
+                d[n - 1] = x + z;
+                d[n] = z !== 0 ? x - w / z : d[n - 1];
+                e[n - 1] = 0;
+                e[n] = 0;
+                x = H(n, n - 1);
+                s = Math.abs(x) + Math.abs(z);
+                p = x / s;
+                q = z / s;
+                r = Math.sqrt(p * p + q * q);
+                p /= r;
+                q /= r;
+
+                for (let j = n - 1; j < nn; j++) {
+                    z = H(n - 1, j);
+                    h[(n - 1) * nn + j] = q * z + p * H(n, j);
+                    h[n * nn + j] = q * H(n, j) - p * z;
+                }
+                for (let i = 0; i <= n; i++) {
+                    z = H(i, n - 1);
+                    h[i * nn + n - 1] = q * z + p * H(i, n);
+                    h[i * nn + n] = q * H(i, n) - p * z;
+                }
+                for (let i = 0; i < nn; i++) {
+                    z = v[i * nn + n - 1];
+                    v[i * nn + n - 1] = q * z + p * v[i * nn + n];
+                    v[i * nn + n] = q * v[i * nn + n] - p * z;
+                }
+            } else {
+                // A complex pair.
+                d[n - 1] = x + p;
+                d[n] = x + p;
+                e[n - 1] = z;
+                e[n] = -z;
+            }
+            n -= 2;
+            iter = 0;
+        } else {
+            // No convergence yet, so form a shift.
+            x = H(n, n);
+            y = H(n - 1, n - 1);
+            w = H(n, n - 1) * H(n - 1, n);
+
+            // Exceptional shifts, in case the iteration is stuck.
+            if (iter === 10) {
+                exshift += x;
+                for (let i = 0; i <= n; i++) {
+                    h[i * nn + i] -= x;
+                }
+                s = Math.abs(H(n, n - 1)) + Math.abs(H(n - 1, n - 2));
+                x = y = 0.75 * s;
+                w = -0.4375 * s * s;
+            }
+            if (iter === 30) {
+                s = (y - x) / 2;
+                s = s * s + w;
+                if (s > 0) {
+                    s = Math.sqrt(s);
+                    if (y < x) {
+                        s = -s;
+                    }
+                    s = x - w / ((y - x) / 2 + s);
+                    for (let i = 0; i <= n; i++) {
+                        h[i * nn + i] -= s;
+                    }
+                    exshift += s;
+                    x = y = w = 0.964;
+                }
+            }
+            iter++;
+            total_iter++;
+            if (total_iter > 100 * nn) {
+                throw new errors.DidNotConverge('Eigenvalues did not converge.');
+            }
+
+            // Look for two consecutive small subdiagonal elements.
+            let m = n - 2;
+            while (m >= l) {
+                z = H(m, m);
+                r = x - z;
+                s = y - z;
+                p = (r * s - w) / H(m + 1, m) + H(m, m + 1);
+                q = H(m + 1, m + 1) - z - r - s;
+                r = H(m + 2, m + 1);
+                s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                p /= s;
+                q /= s;
+                r /= s;
+                if (m === l) {
+                    break;
+                }
+                if (Math.abs(H(m, m - 1)) * (Math.abs(q) + Math.abs(r)) <
+                    eps * (Math.abs(p) * (Math.abs(H(m - 1, m - 1)) + Math.abs(z) + Math.abs(H(m + 1, m + 1))))) {
+                    break;
+                }
+                m--;
+            }
+
+            for (let i = m + 2; i <= n; i++) {
+                h[i * nn + i - 2] = 0;
+                if (i > m + 2) {
+                    h[i * nn + i - 3] = 0;
+                }
+            }
+
+            // Double QR step on rows l to n and columns m to n.
+            for (let k = m; k <= n - 1; k++) {
+                const not_last = k !== n - 1;
+                if (k !== m) {
+                    p = H(k, k - 1);
+                    q = H(k + 1, k - 1);
+                    r = not_last ? H(k + 2, k - 1) : 0;
+                    x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                    if (x === 0) {
+                        continue;
+                    }
+                    p /= x;
+                    q /= x;
+                    r /= x;
+                }
+
+                s = Math.sqrt(p * p + q * q + r * r);
+                if (p < 0) {
+                    s = -s;
+                }
+                if (s === 0) {
+                    continue;
+                }
+                if (k !== m) {
+                    h[k * nn + k - 1] = -s * x;
+                } else if (l !== m) {
+                    h[k * nn + k - 1] = -H(k, k - 1);
+                }
+                p += s;
+                x = p / s;
+                y = q / s;
+                z = r / s;
+                q /= p;
+                r /= p;
+
+                for (let j = k; j < nn; j++) {
+                    p = H(k, j) + q * H(k + 1, j);
+                    if (not_last) {
+                        p += r * H(k + 2, j);
+                        h[(k + 2) * nn + j] -= p * z;
+                    }
+                    h[k * nn + j] -= p * x;
+                    h[(k + 1) * nn + j] -= p * y;
+                }
+                for (let i = 0; i <= Math.min(n, k + 3); i++) {
+                    p = x * H(i, k) + y * H(i, k + 1);
+                    if (not_last) {
+                        p += z * H(i, k + 2);
+                        h[i * nn + k + 2] -= p * r;
+                    }
+                    h[i * nn + k] -= p;
+                    h[i * nn + k + 1] -= p * q;
+                }
+                for (let i = 0; i < nn; i++) {
+                    p = x * v[i * nn + k] + y * v[i * nn + k + 1];
+                    if (not_last) {
+                        p += z * v[i * nn + k + 2];
+                        v[i * nn + k + 2] -= p * r;
+                    }
+                    v[i * nn + k] -= p;
+                    v[i * nn + k + 1] -= p * q;
+                }
+            }
+        }
+    }
+
+    if (norm === 0) {
+        return [d, e, v];
+    }
+
+    // Back substitute to find the eigenvectors of the Schur form.
+    for (n = nn - 1; n >= 0; n--) {
+        p = d[n];
+        q = e[n];
+
+        if (q === 0) {
+            // A real vector.
+            let l = n;
+            h[n * nn + n] = 1;
+            for (let i = n - 1; i >= 0; i--) {
+                w = H(i, i) - p;
+                r = 0;
+                for (let j = l; j <= n; j++) {
+                    r += H(i, j) * H(j, n);
+                }
+                if (e[i] < 0) {
+                    z = w;
+                    s = r;
+                    continue;
+                }
+                l = i;
+                if (e[i] === 0) {
+                    h[i * nn + n] = w !== 0 ? -r / w : -r / (eps * norm);
+                } else {
+                    x = H(i, i + 1);
+                    y = H(i + 1, i);
+                    q = (d[i] - p) * (d[i] - p) + e[i] * e[i];
+                    t = (x * s - z * r) / q;
+                    h[i * nn + n] = t;
+                    h[(i + 1) * nn + n] = Math.abs(x) > Math.abs(z) ? (-r - w * t) / x : (-s - y * t) / z;
+                }
+
+                // Overflow control.
+                t = Math.abs(H(i, n));
+                if ((eps * t) * t > 1) {
+                    for (let j = i; j <= n; j++) {
+                        h[j * nn + n] /= t;
+                    }
+                }
+            }
+        } else if (q < 0) {
+            // A complex vector, stored in columns n - 1 and n.
+            let l = n - 1;
+            if (Math.abs(H(n, n - 1)) > Math.abs(H(n - 1, n))) {
+                h[(n - 1) * nn + n - 1] = q / H(n, n - 1);
+                h[(n - 1) * nn + n] = -(H(n, n) - p) / H(n, n - 1);
+            } else {
+                [h[(n - 1) * nn + n - 1], h[(n - 1) * nn + n]] = _complex_div(0, -H(n - 1, n), H(n - 1, n - 1) - p, q);
+            }
+            h[n * nn + n - 1] = 0;
+            h[n * nn + n] = 1;
+            for (let i = n - 2; i >= 0; i--) {
+                let ra = 0;
+                let sa = 0;
+                for (let j = l; j <= n; j++) {
+                    ra += H(i, j) * H(j, n - 1);
+                    sa += H(i, j) * H(j, n);
+                }
+                w = H(i, i) - p;
+
+                if (e[i] < 0) {
+                    z = w;
+                    r = ra;
+                    s = sa;
+                    continue;
+                }
+                l = i;
+                if (e[i] === 0) {
+                    [h[i * nn + n - 1], h[i * nn + n]] = _complex_div(-ra, -sa, w, q);
+                } else {
+                    x = H(i, i + 1);
+                    y = H(i + 1, i);
+                    let vr = (d[i] - p) * (d[i] - p) + e[i] * e[i] - q * q;
+                    const vi = (d[i] - p) * 2 * q;
+                    if (vr === 0 && vi === 0) {
+                        vr = eps * norm * (Math.abs(w) + Math.abs(q) + Math.abs(x) + Math.abs(y) + Math.abs(z));
+                    }
+                    [h[i * nn + n - 1], h[i * nn + n]] = _complex_div(x * r - z * ra + q * sa, x * s - z * sa - q * ra, vr, vi);
+                    if (Math.abs(x) > Math.abs(z) + Math.abs(q)) {
+                        h[(i + 1) * nn + n - 1] = (-ra - w * H(i, n - 1) + q * H(i, n)) / x;
+                        h[(i + 1) * nn + n] = (-sa - w * H(i, n) - q * H(i, n - 1)) / x;
+                    } else {
+                        [h[(i + 1) * nn + n - 1], h[(i + 1) * nn + n]] = _complex_div(-r - y * H(i, n - 1), -s - y * H(i, n), z, q);
+                    }
+                }
+
+                // Overflow control.
+                t = Math.max(Math.abs(H(i, n - 1)), Math.abs(H(i, n)));
+                if ((eps * t) * t > 1) {
+                    for (let j = i; j <= n; j++) {
+                        h[j * nn + n - 1] /= t;
+                        h[j * nn + n] /= t;
+                    }
+                }
+            }
+        }
+    }
+
+    // Transform back to the eigenvectors of the original matrix.
+    for (let j = nn - 1; j >= 0; j--) {
+        for (let i = 0; i < nn; i++) {
+            z = 0;
+            for (let k = 0; k <= j; k++) {
+                z += v[i * nn + k] * H(k, j);
+            }
+            v[i * nn + j] = z;
+        }
+    }
+    return [d, e, v];
+}
+
+/**
+ * Compute the eigenvalues and right eigenvectors of a general matrix.
+ * Complex values are returned as pairs of tensors holding the real and imaginary parts.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {[[tensor, tensor], [tensor, tensor]]} - The real and imaginary parts of the eigenvalues, and the real and imaginary
+ *     parts of a matrix whose columns are the corresponding unit eigenvectors. Complex conjugate eigenvalues are adjacent,
+ *     with the positive imaginary part first.
+ *
+ * @example
+ *    let [[w_real, w_imag], [v_real, v_imag]] = linalg.eig(numts.from_nested_array([[0, -1], [1, 0]])); // w = [i, -i]
+ */
+export function eig(a: tensor): [[tensor, tensor], [tensor, tensor]] {
+    _check_square(a, 'eig');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'eig');
+    let values_real = [];
+    let values_imag = [];
+    let vectors_real = [];
+    let vectors_imag = [];
+    for (let matrix of matrices) {
+        const [d, e, v] = _schur_eig(matrix, n);
+        let real = new Float64Array(n * n);
+        let imag = new Float64Array(n * n);
+        for (let j = 0; j < n; j++) {
+            // Split the packed eigenvectors into real and imaginary parts.
+            if (e[j] === 0) {
+                for (let i = 0; i < n; i++) {
+                    real[i * n + j] = v[i * n + j];
+                }
+            } else if (e[j] > 0) {
+                for (let i = 0; i < n; i++) {
+                    real[i * n + j] = real[i * n + j + 1] = v[i * n + j];
+                    imag[i * n + j] = v[i * n + j + 1];
+                    imag[i * n + j + 1] = -v[i * n + j + 1];
+                }
+            }
+
+            let norm = 0;
+            for (let i = 0; i < n; i++) {
+                norm = Math.hypot(norm, real[i * n + j], imag[i * n + j]);
+            }
+            for (let i = 0; i < n && norm > 0; i++) {
+                real[i * n + j] /= norm;
+                imag[i * n + j] /= norm;
+            }
+        }
+        values_real.push(d);
+        values_imag.push(e);
+        vectors_real.push(real);
+        vectors_imag.push(imag);
+    }
+
+    const dtype = _float_dtype(a.dtype);
+    const values = (x: Float64Array[]) => _stack(x, batch_shape, 1, n, dtype).reshape(...batch_shape, n);
+    return [
+        [values(values_real), values(values_imag)],
+        [_stack(vectors_real, batch_shape, n, n, dtype), _stack(vectors_imag, batch_shape, n, n, dtype)]
+    ];
+}
+
+/**
+ * Replace the given columns of a matrix with unit vectors orthogonal to every other column.
+ * The other columns must already be orthonormal.
+ * @param {Float64Array} u    - The row-major matrix. Modified in place.
+ * @param {number} rows       - The number of rows.
+ * @param {number} cols       - The number of columns. Must not be more than rows.
+ * @param {number[]} missing  - The columns to replace.
+ */
+function _complete_basis(u: Float64Array, rows: number, cols: number, missing: number[]) {
+    const is_missing = new Set(missing);
+    let filled = Array.from({length: cols}, (e, i) => i).filter(e => !is_missing.has(e));
+    for (let column of missing) {
+        // Orthogonalize each standard basis vector against the columns so far, and keep the one that is left largest.
+        let best = new Float64Array(rows);
+        let best_norm = 0;
+        for (let candidate = 0; candidate < rows; candidate++) {
+            let vector = new Float64Array(rows);
+            vector[candidate] = 1;
+            // Project out the other columns twice for numerical stability.
+            for (let pass = 0; pass < 2; pass++) {
+                for (let j of filled) {
+                    let projection = 0;
+                    for (let i = 0; i < rows; i++) {
+                        projection += vector[i] * u[i * cols + j];
+                    }
+                    for (let i = 0; i < rows; i++) {
+                        vector[i] -= projection * u[i * cols + j];
+                    }
+                }
+            }
+            let norm = 0;
+            vector.forEach(e => norm = Math.hypot(norm, e));
+            if (norm > best_norm) {
+                best = vector;
+                best_norm = norm;
+            }
+        }
+        for (let i = 0; i < rows; i++) {
+            u[i * cols + column] = best[i] / best_norm;
+        }
+        filled.push(column);
+    }
+}
+
+/**
+ * Compute the singular value decomposition of a matrix with at least as many rows as columns, using one-sided Jacobi rotations.
+ * @param {Float64Array} matrix - The row-major matrix. Not modified.
+ * @param {number} m            - The number of rows.
+ * @param {number} n            - The number of columns.
+ * @param {boolean} full        - Whether to return all m columns of U, or only the first n.
+ * @return {[Float64Array, Float64Array, Float64Array]} - U, the singular values in descending order, and V (not transposed).
+ */
+function _jacobi_svd(matrix: Float64Array, m: number, n: number, full: boolean): [Float64Array, Float64Array, Float64Array] {
+    let a = matrix.slice();
+    let v = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+        v[i * n + i] = 1;
+    }
+
+    // Columns this small are numerically zero, and count as orthogonal to everything.
+    let negligible = 0;
+    a.forEach(e => negligible += e * e);
+    negligible *= Number.EPSILON * Number.EPSILON;
+
+    // Rotate pairs of columns until they are all orthogonal. The rotations accumulate in V.
+    let rotated = true;
+    for (let sweep = 0; rotated; sweep++) {
+        if (sweep === 100) {
+            throw new errors.DidNotConverge('SVD did not converge.');
+        }
+        rotated = false;
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                let alpha = 0;
+                let beta = 0;
+                let gamma = 0;
+                for (let k = 0; k < m; k++) {
+                    alpha += a[k * n + p] * a[k * n + p];
+                    beta += a[k * n + q] * a[k * n + q];
+                    gamma += a[k * n + p] * a[k * n + q];
+                }
+                if (gamma === 0 || Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta) || alpha <= negligible || beta <= negligible) {
+                    continue;
+                }
+                rotated = true;
+                const zeta = (beta - alpha) / (2 * gamma);
+                const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(1 + zeta * zeta));
+                const c = 1 / Math.sqrt(1 + t * t);
+                const s = c * t;
+                for (let k = 0; k < m; k++) {
+                    const a_kp = a[k * n + p];
+                    const a_kq = a[k * n + q];
+                    a[k * n + p] = c * a_kp - s * a_kq;
+                    a[k * n + q] = s * a_kp + c * a_kq;
+                }
+                for (let k = 0; k < n; k++) {
+                    const v_kp = v[k * n + p];
+                    const v_kq = v[k * n + q];
+                    v[k * n + p] = c * v_kp - s * v_kq;
+                    v[k * n + q] = s * v_kp + c * v_kq;
+                }
+            }
+        }
+    }
+
+    // The singular values are the norms of the columns, and U is the normalized columns.
+    let norms = new Float64Array(n);
+    for (let j = 0; j < n; j++) {
+        for (let k = 0; k < m; k++) {
+            norms[j] = Math.hypot(norms[j], a[k * n + j]);
+        }
+    }
+    const order = Array.from({length: n}, (e, i) => i).sort((i, j) => norms[j] - norms[i]);
+    const tolerance = Number.EPSILON * m * (n > 0 ? norms[order[0]] : 0);
+    const u_cols = full ? m : n;
+    let u = new Float64Array(m * u_cols);
+    let sorted_v = new Float64Array(n * n);
+    let missing = [];
+    for (let j = 0; j < u_cols; j++) {
+        if (j < n && norms[order[j]] > tolerance) {
+            for (let k = 0; k < m; k++) {
+                u[k * u_cols + j] = a[k * n + order[j]] / norms[order[j]];
+            }
+        } else {
+            missing.push(j);
+        }
+    }
+    _complete_basis(u, m, u_cols, missing);
+    order.forEach((e, j) => {
+        for (let k = 0; k < n; k++) {
+            sorted_v[k * n + j] = v[k * n + e];
+        }
+    });
+    return [u, Float64Array.from(order, i => norms[i]), sorted_v];
+}
+
+/**
+ * Transpose a row-major matrix.
+ * @param {Float64Array} a  - The matrix.
+ * @param {number} rows     - The number of rows.
+ * @param {number} cols     - The number of columns.
+ * @return {Float64Array}   - The row-major transpose.
+ */
+function _transpose(a: Float64Array, rows: number, cols: number): Float64Array {
+    let transposed = new Float64Array(rows * cols);
+    for (let i = 0; i < rows; i++) {
+        for (let j = 0; j < cols; j++) {
+            transposed[j * rows + i] = a[i * cols + j];
+        }
+    }
+    return transposed;
+}
+
+/**
+ * Compute the singular value decomposition of a matrix of any shape.
+ * @param {Float64Array} matrix - The row-major matrix. Not modified.
+ * @param {number} m            - The number of rows.
+ * @param {number} n            - The number of columns.
+ * @param {boolean} full        - Whether to return square U and Vh, or only the first min(m, n) columns and rows.
+ * @return {[Float64Array, Float64Array, Float64Array]} - The row-major U, the singular values in descending order, and the row-major Vh.
+ */
+function _svd(matrix: Float64Array, m: number, n: number, full: boolean): [Float64Array, Float64Array, Float64Array] {
+    if (m >= n) {
+        const [u, s, v] = _jacobi_svd(matrix, m, n, full);
+        return [u, s, _transpose(v, n, n)];
+    } else {
+        // Decompose the transpose, A^T = U S V^T, so A = V S U^T.
+        const [u, s, v] = _jacobi_svd(_transpose(matrix, m, n), n, m, full);
+        return [v, s, _transpose(u, n, full ? n : m)];
+    }
+}
+
+/**
+ * Compute the singular value decomposition of a matrix, A = U diag(S) Vh.
+ * @param {tensor} a                - An m x n matrix or a stack of them.
+ * @param {boolean} full_matrices   - If true U is m x m and Vh is n x n. Otherwise U is m x k and Vh is k x n, where k = min(m, n).
+ * @return {[tensor, tensor, tensor]} - U, the singular values S in descending order, and Vh. U and Vh have orthonormal columns and rows.
+ */
+export function svd(a: tensor, full_matrices: boolean = true): [tensor, tensor, tensor] {
+    const [matrices, batch_shape] = _unstack(a, 'svd');
+    const m = a.shape[a.shape.length - 2];
+    const n = a.shape[a.shape.length - 1];
+    const k = Math.min(m, n);
+    const decompositions = matrices.map(e => _svd(e, m, n, full_matrices));
+    const dtype = _float_dtype(a.dtype);
+    return [
+        _stack(decompositions.map(e => e[0]), batch_shape, m, full_matrices ? m : k, dtype),
+        _stack(decompositions.map(e => e[1]), batch_shape, 1, k, dtype).reshape(...batch_shape, k),
+        _stack(decompositions.map(e => e[2]), batch_shape, full_matrices ? n : k, n, dtype)
+    ];
+}
+
+/**
+ * Compute the least squares solution to AX = B, i.e. the X that minimizes the Euclidean norm of B - AX.
+ * A can be tall, wide or rank deficient. In the last two cases the solution with the smallest norm is returned.
+ * @param {tensor} a      - An m x n matrix.
+ * @param {tensor} b      - A vector with shape [m], or a matrix with shape [m, k].
+ * @param {number} rcond  - Singular values at most rcond times the largest singular value are treated as zero.
+ *                          Defaults to machine precision times max(m, n).
+ * @return {[tensor, tensor, number, tensor]} - The solution, with shape [n] or [n, k]. The sum of squared residuals of
+ *     each column of B, which is empty unless A is tall and has full rank. The rank of A. The singular values of A.
+ */
+export function lstsq(a: tensor, b: tensor, rcond?: number): [tensor, tensor, number, tensor] {
+    if (a.shape.length !== 2) {
+        throw new errors.BadShape(`lstsq requires a matrix. Got shape ${a.shape}.`);
+    }
+    const m = a.shape[0];
+    const n = a.shape[1];
+    const is_vector = b.shape.length === 1;
+    if (b.shape.length > 2 || b.shape[0] !== m) {
+        throw new errors.MismatchedShapes(a.shape, b.shape);
+    }
+    const k = is_vector ? 1 : b.shape[1];
+    if (rcond === undefined) {
+        rcond = Number.EPSILON * Math.max(m, n);
+    }
+
+    const [[matrix]] = _unstack(a, 'lstsq');
+    const rhs = _float_values(b, 'lstsq');
+    const [u, s, vh] = _svd(matrix, m, n, false);
+    const rank = s.filter(e => e > rcond * s[0]).length;
+
+    // x = V diag(1 / s) U^T b, using only the first rank singular values.
+    let x = new Float64Array(n * k);
+    const r = Math.min(m, n);
+    for (let l = 0; l < rank; l++) {
+        for (let j = 0; j < k; j++) {
+            let projection = 0;
+            for (let i = 0; i < m; i++) {
+                projection += u[i * r + l] * rhs[i * k + j];
+            }
+            projection /= s[l];
+            for (let i = 0; i < n; i++) {
+                x[i * k + j] += vh[l * n + i] * projection;
+            }
+        }
+    }
+
+    let residuals = [];
+    if (rank === n && m > n) {
+        for (let j = 0; j < k; j++) {
+            let total = 0;
+            for (let i = 0; i < m; i++) {
+                let fitted = 0;
+                for (let l = 0; l < n; l++) {
+                    fitted += matrix[i * n + l] * x[l * k + j];
+                }
+                total += (rhs[i * k + j] - fitted) * (rhs[i * k + j] - fitted);
+            }
+            residuals.push(total);
+        }
+    }
+
+    const dtype = _float_dtype(utils._dtype_join(a.dtype, b.dtype));
+    return [
+        constructors.from_iterable(x, is_vector ? [n] : [n, k], dtype),
+        constructors.from_iterable(residuals, [residuals.length], dtype),
+        rank,
+        constructors.from_iterable(s, [r], dtype)
+    ];
+}
+
+/**
+ * Compute the Moore-Penrose pseudo-inverse of a matrix.
+ * @param {tensor} a      - An m x n matrix or a stack of them.
+ * @param {number} rcond  - Singular values at most rcond times the largest singular value are treated as zero.
+ * @return {tensor}       - The n x m pseudo-inverse of each matrix.
+ */
+export function pinv(a: tensor, rcond: number = 1e-15): tensor {
+    const [matrices, batch_shape] = _unstack(a, 'pinv');
+    const m = a.shape[a.shape.length - 2];
+    const n = a.shape[a.shape.length - 1];
+    const r = Math.min(m, n);
+    const inverses = matrices.map(matrix => {
+        const [u, s, vh] = _svd(matrix, m, n, false);
+        let inverse = new Float64Array(n * m);
+        for (let l = 0; l < r && s[l] > rcond * s[0]; l++) {
+            for (let i = 0; i < n; i++) {
+                const scaled = vh[l * n + i] / s[l];
+                for (let j = 0; j < m; j++) {
+                    inverse[i * m + j] += scaled * u[j * r + l];
+                }
+            }
+        }
+        return inverse;
+    });
+    return _stack(inverses, batch_shape, n, m, _float_dtype(a.dtype));
+}
+
+/**
+ * Compute the rank of a matrix: the number of singular values above a tolerance.
+ * @param {tensor} a    - An m x n matrix or a stack of them.
+ * @param {number} tol  - Singular values at most this are treated as zero.
+ *                        Defaults to the largest singular value times max(m, n) times machine precision.
+ * @return {tensor | number} - The rank. A number for a single matrix, otherwise an int32 tensor with the shape of the stack.
+ */
+export function matrix_rank(a: tensor, tol?: number): tensor | number {
+    const [matrices, batch_shape] = _unstack(a, 'matrix_rank');
+    const m = a.shape[a.shape.length - 2];
+    const n = a.shape[a.shape.length - 1];
+    const ranks = matrices.map(matrix => {
+        const [, s] = _svd(matrix, m, n, false);
+        const threshold = tol === undefined ? s[0] * Math.max(m, n) * Number.EPSILON : tol;
+        return s.filter(e => e > threshold).length;
+    });
+    return _batch_result(ranks, batch_shape, 'int32');
+}
+
+/**
+ * Compute the condition number of a matrix in the 2-norm: the ratio of its largest and smallest singular values.
+ * @param {tensor} a - An m x n matrix or a stack of them.
+ * @return {tensor | number} - The condition number. Infinity for a singular matrix.
+ */
+export function cond(a: tensor): tensor | number {
+    const [matrices, batch_shape] = _unstack(a, 'cond');
+    const m = a.shape[a.shape.length - 2];
+    const n = a.shape[a.shape.length - 1];
+    const conditions = matrices.map(matrix => {
+        const [, s] = _svd(matrix, m, n, false);
+        return s[0] / s[s.length - 1];
+    });
+    return _batch_result(conditions, batch_shape, _float_dtype(a.dtype));
+}
+
+/**
+ * Compute the p-norm of a vector, scaled by its largest element so that intermediate powers don't overflow or underflow.
+ * @param {Float64Array} values - The elements of the vector.
+ * @param {number} p            - The order of the norm. Can be any number, including +/-Infinity and 0 (the number of nonzero elements).
+ * @return {number}
+ */
+function _vector_norm(values: Float64Array, p: number): number {
+    const magnitudes = values.map(Math.abs);
+    if (p === Infinity) {
+        return magnitudes.reduce((acc, e) => Math.max(acc, e), 0);
+    } else if (p === -Infinity) {
+        return magnitudes.reduce((acc, e) => Math.min(acc, e), Infinity);
+    } else if (p === 0) {
+        return magnitudes.filter(e => e !== 0).length;
+    } else if (p === 1) {
+        return magnitudes.reduce((acc, e) => acc + e, 0);
+    }
+
+    const scale = magnitudes.reduce((acc, e) => Math.max(acc, e), 0);
+    if (scale === 0 || !isFinite(scale)) {
+        return scale;
+    }
+    const total = magnitudes.reduce((acc, e) => acc + Math.pow(e / scale, p), 0);
+    return scale * Math.pow(total, 1 / p);
+}
+
+/**
+ * Compute a norm of a matrix.
+ * @param {Float64Array} values - The row-major matrix.
+ * @param {number} rows         - The number of rows.
+ * @param {number} cols         - The number of columns.
+ * @param ord                   - 'fro', 'nuc', +/-1, +/-2 or +/-Infinity.
+ * @return {number}
+ */
+function _matrix_norm(values: Float64Array, rows: number, cols: number, ord: number | string): number {
+    if (ord === 'fro') {
+        return _vector_norm(values, 2);
+    } else if (ord === 'nuc' || ord === 2 || ord === -2) {
+        const [, s] = _svd(values, rows, cols, false);
+        if (ord === 'nuc') {
+            return s.reduce((acc, e) => acc + e, 0);
+        }
+        return ord === 2 ? s[0] : s[s.length - 1];
+    } else if (ord === 1 || ord === -1) {
+        const sums = Array.from({length: cols}, (e, j) => {
+            let total = 0;
+            for (let i = 0; i < rows; i++) {
+                total += Math.abs(values[i * cols + j]);
+            }
+            return total;
+        });
+        return ord === 1 ? Math.max(...sums) : Math.min(...sums);
+    } else if (ord === Infinity || ord === -Infinity) {
+        const sums = Array.from({length: rows}, (e, i) => _vector_norm(values.subarray(i * cols, (i + 1) * cols), 1));
+        return ord === Infinity ? Math.max(...sums) : Math.min(...sums);
+    }
+    throw new Error(`Invalid norm order ${ord} for matrices.`);
+}
+
+/**
+ * Compute a vector or matrix norm.
+ * @param {tensor} t            - The array.
+ * @param ord                   - The order of the norm. For vectors this can be any number, and defaults to 2.
+ *                                For matrices this can be 'fro' (the default), 'nuc', +/-1, +/-2 or +/-Infinity.
+ * @param axis                  - A single axis to take vector norms along, or a pair of axes (rows and columns) to take matrix norms over.
+ *                                If not passed, t must be a vector or a matrix, unless ord is also not passed, in which case the
+ *                                2-norm of the flattened array is returned.
+ * @param {boolean} keepdims    - Whether to keep the reduced axes, with length 1.
+ * @return {tensor | number}    - The norms. A number if every axis is reduced and keepdims is false.
+ *
+ * @example
+ *    linalg.norm(numts.from_nested_array([3, 4])); // 5
+ * @example
+ *    linalg.norm(numts.from_nested_array([[1, -2], [3, 4]]), 1, 1); // [3, 7]
+ */
+export function norm(t: tensor, ord?: number | string, axis?: number | number[], keepdims: boolean = false): tensor | number {
+    const ndims = t.shape.length;
+    let axes: number[];
+    if (axis === undefined) {
+        if (ord !== undefined && ndims > 2) {
+            throw new errors.BadShape(`Pass the axes to take the norm of an array with ${ndims} dimensions.`);
+        }
+        axes = Array.from(t.shape, (e, i) => i);
+    } else {
+        axes = typeof axis === 'number' ? [axis] : axis;
+        axes = axes.map(e => e < 0 ? e + ndims : e);
+        if (axes.length > 2 || axes.some(e => !utils.is_int(e) || e < 0 || e >= ndims) || (axes.length === 2 && axes[0] === axes[1])) {
+            throw new errors.BadShape(`Invalid axes ${axis} for an array with ${ndims} dimensions.`);
+        }
+    }
+
+    // Move the reduced axes to the end, so each norm is over a contiguous block of values in index order.
+    const kept = Array.from(t.shape, (e, i) => i).filter(e => axes.indexOf(e) === -1);
+    const values = _float_values(t.transpose(...kept, ...axes), 'norm');
+    const block = axes.reduce((acc, e) => acc * t.shape[e], 1);
+    const rows = axes.length === 2 ? t.shape[axes[0]] : 1;
+    const cols = t.shape[axes[axes.length - 1]];
+
+    const count = kept.reduce((acc, e) => acc * t.shape[e], 1);
+    let norms = [];
+    for (let i = 0; i < count; i++) {
+        const chunk = values.subarray(i * block, (i + 1) * block);
+        if (axis === undefined && ord === undefined) {
+            norms.push(_vector_norm(chunk, 2));
+        } else if (axes.length === 2) {
+            norms.push(_matrix_norm(chunk, rows, cols, ord === undefined ? 'fro' : ord));
+        } else if (typeof ord === 'string') {
+            throw new Error(`Invalid norm order ${ord} for vectors.`);
+        } else {
+            norms.push(_vector_norm(chunk, ord === undefined ? 2 : ord));
+        }
+    }
+
+    const shape = keepdims ? Array.from(t.shape, (e, i) => axes.indexOf(i) === -1 ? e : 1) : kept.map(e => t.shape[e]);
+    if (shape.length === 0) {
+        return norms[0];
+    }
+    return constructors.from_iterable(norms, shape, _float_dtype(t.dtype));
+}
+
+/**
+ * Raise a square matrix to an integer power by repeated squaring.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @param {number} n - The power. Negative powers are powers of the inverse, and 0 gives the identity.
+ * @return {tensor}  - The power of each matrix. Has the dtype of a for non-negative powers.
+ */
+export function matrix_power(a: tensor, n: number): tensor {
+    _check_square(a, 'matrix_power');
+    if (!utils.is_int(n)) {
+        throw new Error(`The power must be an integer. Got ${n}.`);
+    }
+    const size = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'matrix_power');
+    const powers = matrices.map(matrix => {
+        let base = n < 0 ? _inverse(matrix, size) : matrix;
+        let result = _identity(size);
+        for (let remaining = Math.abs(n); remaining > 0; remaining = Math.floor(remaining / 2)) {
+            if (remaining % 2 === 1) {
+                result = _square_matmul(result, base, size);
+            }
+            if (remaining > 1) {
+                base = _square_matmul(base, base, size);
+            }
+        }
+        return result;
+    });
+    return _stack(powers, batch_shape, size, size, n < 0 ? _float_dtype(a.dtype) : a.dtype);
+}
+
+/**
+ * Compute the exponential of a square matrix with a degree 6 Padé approximant and scaling and squaring.
+ * The matrix is scaled by a power of two until its norm is at most 1/2, the approximant is applied, and the result squared back up.
+ * @param {Float64Array} a  - The row-major matrix.
+ * @param {number} n        - The number of rows and columns.
+ * @return {Float64Array}   - The row-major exponential.
+ */
+function _expm(a: Float64Array, n: number): Float64Array {
+    const q = 6;
+    const a_norm = _matrix_norm(a, n, n, Infinity);
+    const squarings = a_norm > 0 ? Math.max(0, Math.floor(Math.log2(a_norm)) + 2) : 0;
+    const scaled = a.map(e => e / Math.pow(2, squarings));
+
+    // The numerator and denominator of the approximant, N(A) and D(A) = N(-A).
+    let c = 0.5;
+    let x = scaled;
+    let numerator = _identity(n);
+    let denominator = _identity(n);
+    for (let i = 0; i < n * n; i++) {
+        numerator[i] += c * scaled[i];
+        denominator[i] -= c * scaled[i];
+    }
+    for (let k = 2; k <= q; k++) {
+        c *= (q - k + 1) / (k * (2 * q - k + 1));
+        x = _square_matmul(scaled, x, n);
+        const sign = k % 2 === 0 ? 1 : -1;
+        for (let i = 0; i < n * n; i++) {
+            numerator[i] += c * x[i];
+            denominator[i] += sign * c * x[i];
+        }
+    }
+
+    const [lu, perm] = _lu_factor(denominator, n);
+    let result = _lu_solve(lu, perm, n, numerator, n);
+    for (let i = 0; i < squarings; i++) {
+        result = _square_matmul(result, result, n);
+    }
+    return result;
+}
+
+/**
+ * Compute the matrix exponential.
+ * @param {tensor} a - A square matrix or a stack of square matrices.
+ * @return {tensor}  - The exponential of each matrix.
+ */
+export function expm(a: tensor): tensor {
+    _check_square(a, 'expm');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'expm');
+    return _stack(matrices.map(e => _expm(e, n)), batch_shape, n, n, _float_dtype(a.dtype));
+}
+
+/**
+ * Compute the principal square root of a square matrix with the Denman-Beavers iteration.
+ * @param {Float64Array} a  - The row-major matrix. Must not have eigenvalues on the closed negative real axis.
+ * @param {number} n        - The number of rows and columns.
+ * @return {Float64Array}   - The row-major square root.
+ */
+function _sqrtm(a: Float64Array, n: number): Float64Array {
+    // Y converges to the square root of A, and Z to its inverse.
+    let y = a;
+    let z = _identity(n);
+    for (let iteration = 0; iteration < 100; iteration++) {
+        const [y_lu, y_perm, , y_singular] = _lu_factor(y, n);
+        const [z_lu, z_perm, , z_singular] = _lu_factor(z, n);
+        // The iteration breaks down if A has an eigenvalue on the closed negative real axis.
+        if (y_singular || z_singular) {
+            break;
+        }
+        const y_inverse = _lu_solve(y_lu, y_perm, n, _identity(n), n);
+        const z_inverse = _lu_solve(z_lu, z_perm, n, _identity(n), n);
+        let change = 0;
+        let next_y = new Float64Array(n * n);
+        for (let i = 0; i < n * n; i++) {
+            next_y[i] = (y[i] + z_inverse[i]) / 2;
+            z[i] = (z[i] + y_inverse[i]) / 2;
+            change = Math.hypot(change, next_y[i] - y[i]);
+        }
+        y = next_y;
+        if (change <= 10 * n * Number.EPSILON * _vector_norm(y, 2)) {
+            return y;
+        }
+    }
+    throw new errors.DidNotConverge('Matrix square root did not converge. The matrix may have eigenvalues on the negative real axis.');
+}
+
+/**
+ * Compute the principal square root of a matrix, i.e. the square root whose eigenvalues have positive real part.
+ * @param {tensor} a - A square matrix or a stack of square matrices. Must not have eigenvalues that are negative or zero.
+ * @return {tensor}  - The square root of each matrix.
+ */
+export function sqrtm(a: tensor): tensor {
+    _check_square(a, 'sqrtm');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'sqrtm');
+    return _stack(matrices.map(e => _sqrtm(e, n)), batch_shape, n, n, _float_dtype(a.dtype));
+}
+
+/**
+ * The nodes and weights of Gauss-Legendre quadrature on [0, 1].
+ * @param {number} m - The number of nodes.
+ * @return {[number[], number[]]}
+ */
+function _gauss_legendre(m: number): [number[], number[]] {
+    let nodes = [];
+    let weights = [];
+    for (let i = 1; i <= m; i++) {
+        // Newton's method on the Legendre polynomial P_m, starting from an approximation of the ith root.
+        let x = Math.cos(Math.PI * (i - 0.25) / (m + 0.5));
+        let derivative = 1;
+        for (let iteration = 0; iteration < 100; iteration++) {
+            let p = 1;
+            let previous = 0;
+            for (let j = 1; j <= m; j++) {
+                [p, previous] = [((2 * j - 1) * x * p - (j - 1) * previous) / j, p];
+            }
+            derivative = m * (x * p - previous) / (x * x - 1);
+            const step = p / derivative;
+            x -= step;
+            if (Math.abs(step) < Number.EPSILON) {
+                break;
+            }
+        }
+        nodes.push((1 - x) / 2);
+        weights.push(1 / ((1 - x * x) * derivative * derivative));
+    }
+    return [nodes, weights];
+}
+
+/**
+ * Compute the principal logarithm of a square matrix by inverse scaling and squaring.
+ * Square roots are taken until the matrix is close to the identity, then log(I + X) = X (I + tX)^-1 integrated over t in [0, 1]
+ * is evaluated with Gauss-Legendre quadrature, which is the diagonal Padé approximant of the logarithm.
+ * @param {Float64Array} a  - The row-major matrix.
+ * @param {number} n        - The number of rows and columns.
+ * @return {Float64Array}   - The row-major logarithm.
+ */
+function _logm(a: Float64Array, n: number): Float64Array {
+    const identity = _identity(n);
+    let root = a;
+    let roots = 0;
+    while (_matrix_norm(root.map((e, i) => e - identity[i]), n, n, 1) > 0.25) {
+        if (roots === 64) {
+            throw new errors.DidNotConverge('Matrix logarithm did not converge.');
+        }
+        root = _sqrtm(root, n);
+        roots++;
+    }
+
+    const x = root.map((e, i) => e - identity[i]);
+    const [nodes, weights] = _gauss_legendre(8);
+    let log = new Float64Array(n * n);
+    nodes.forEach((t, j) => {
+        // X (I + tX)^-1 = (I + tX)^-1 X, since the two commute.
+        const [lu, perm] = _lu_factor(identity.map((e, i) => e + t * x[i]), n);
+        const term = _lu_solve(lu, perm, n, x, n);
+        for (let i = 0; i < n * n; i++) {
+            log[i] += weights[j] * term[i];
+        }
+    });
+    return log.map(e => e * Math.pow(2, roots));
+}
+
+/**
+ * Compute the principal logarithm of a matrix, the inverse of `expm`.
+ * @param {tensor} a - A square matrix or a stack of square matrices. Must not have eigenvalues that are negative or zero.
+ * @return {tensor}  - The logarithm of each matrix.
+ */
+export function logm(a: tensor): tensor {
+    _check_square(a, 'logm');
+    const n = a.shape[a.shape.length - 1];
+    const [matrices, batch_shape] = _unstack(a, 'logm');
+    return _stack(matrices.map(e => _logm(e, n)), batch_shape, n, n, _float_dtype(a.dtype));
+}
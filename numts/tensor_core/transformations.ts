@@ -1,12 +1,23 @@
-import {tensor, TypedArray} from '../tensor';
+import {tensor, TypedArray, errors, Casting} from '../tensor';
 import * as constructors from './constructors';
+import * as complex from './complex';
 import {indexing} from './indexing';
 import {utils} from '../utils';
+import * as dtypes from './dtypes';
 
 /**
  * Return a copy of the tensor cast to the specified type.
+ * Throws a CastingError if the casting rule doesn't allow the conversion.
  */
-export function _as_type(a: tensor, dtype: string): tensor {
+export function _as_type(a: tensor, dtype: string, casting: Casting = 'unsafe'): tensor {
+    dtypes._check_casting([a], dtype, casting);
+    const needs_conversion = utils.is_bigint_dtype(a.dtype) !== utils.is_bigint_dtype(dtype) || (dtype === 'bool' && a.dtype !== 'bool') ||
+        (a.dtype !== dtype && (utils.is_half(a.dtype) || utils.is_half(dtype)));
+    if (utils.dtype_width(a.dtype) !== utils.dtype_width(dtype) || needs_conversion) {
+        // Converting between real and complex changes the layout. Complex to real keeps the real parts.
+        // Converting between numbers and BigInts, to bool, or to or from half precision needs each value converted individually.
+        return constructors.from_iterable(a._iorder_value_iterator(), a.shape, dtype);
+    }
     const array_type = utils.dtype_map(dtype);
     const new_data = new array_type(a.data.slice(0));
     return new tensor(new_data, a.shape.slice(0), a.offset.slice(0), a.stride.slice(0), a.dstride.slice(0), a.length, dtype, a.is_view, a.initial_offset);
@@ -14,15 +25,17 @@ export function _as_type(a: tensor, dtype: string): tensor {
 
 /**
  * Clip all values in the array to be in the specified range.
+ * The bounds of 64-bit integer tensors are rounded inwards to integers, since they hold BigInts.
  * @param lower - The lower bound of the range.
  * @param upper - The upper bound of the range.
  */
 export function _clip(a: tensor, lower: number, upper: number): tensor {
+    complex._check_real('clip', a);
     return a.map(e => {
         if (e < lower) {
-            return lower;
+            return typeof e === 'bigint' ? BigInt(Math.ceil(lower)) : lower;
         } else if (e > upper) {
-            return upper;
+            return typeof e === 'bigint' ? BigInt(Math.floor(upper)) : upper;
         } else {
             return e;
         }
@@ -31,7 +44,8 @@ export function _clip(a: tensor, lower: number, upper: number): tensor {
 
 
 /**
- * Create a copy of this with a different shape.
+ * Give a tensor a different shape.
+ * Returns a view sharing the underlying data whenever the strides allow it, and a copy otherwise.
  * @param {Uint32Array} new_shape - The shape to make the new array.
  * @return {tensor}             - The reshaped array.
  */
@@ -54,8 +68,17 @@ export function _reshape(a: tensor, ...new_shape: Array<Uint32Array | number[] |
     if (size !== new_size) {
         throw new Error(`Array cannot be reshaped because sizes do not match. Size of underlying array: ${size}. Size of reshaped array: ${shape}`);
     }
-    let value_iter = a._iorder_value_iterator();
-    return constructors.from_iterable(value_iter, shape, a.dtype);
+
+    const stride = size === 0 ? null : indexing.reshape_stride(a.shape, a.stride, shape);
+    if (stride === null && utils.is_complex(a.dtype)) {
+        return complex.complex(_reshape(complex.real(a), shape), _reshape(complex.imag(a), shape), a.dtype);
+    } else if (stride === null) {
+        let value_iter = a._iorder_value_iterator();
+        return constructors.from_iterable(value_iter, shape, a.dtype);
+    } else {
+        const offset = new Uint32Array(shape.length);
+        return new tensor(a.data, shape, offset, stride, stride.slice(0), size, a.dtype, true, a.initial_offset);
+    }
 }
 
 /**
@@ -71,22 +94,56 @@ export function _flatten(a: tensor): tensor {
  * Returns the negation of this array.
  */
 export function _neg(a: tensor): tensor {
-    const new_data = a.data.map(x => -x);
-    return constructors.array(new_data, a.shape, { disable_checks: true, dtype: a.dtype });
+    if (utils.is_complex(a.dtype)) {
+        return complex.complex(_neg(complex.real(a)), _neg(complex.imag(a)), a.dtype);
+    }
+    return a.map(x => -x);
+}
+
+/**
+ * Returns the element-wise logical negation of this array as a bool tensor. Nonzero elements are true, and complex elements
+ * are true if either part is nonzero.
+ */
+export function _logical_not(a: tensor): tensor {
+    const f = x => Array.isArray(x) ? +(x[0] === 0 && x[1] === 0) : +!x;
+    return constructors.from_iterable(utils.imap(a._iorder_value_iterator(), f), a.shape, 'bool');
+}
+
+/**
+ * Permute the axes of this array. Does not copy the underlying data.
+ * @param axes - The new order of the axes. Reverses the axes if not passed.
+ */
+export function _transpose(a: tensor, ...axes: number[]): tensor {
+    const ndims = a.shape.length;
+    if (axes.length === 0) {
+        axes = Array.from(a.shape, (e, i) => ndims - i - 1);
+    }
+    const positive_axes = axes.map(e => e < 0 ? e + ndims : e);
+    const is_permutation = positive_axes.length === ndims && positive_axes.every((e, i) => utils.is_int(e) && e >= 0 && e < ndims && positive_axes.indexOf(e) === i);
+    if (!is_permutation) {
+        throw new errors.BadShape(`Axes ${axes} are not a permutation of the axes of an array with ${ndims} dimensions.`);
+    }
+    const permute = (x: Uint32Array | Int32Array) => positive_axes.map(e => x[e]);
+    return new tensor(a.data, new Uint32Array(permute(a.shape)), new Int32Array(permute(a.offset)), new Int32Array(permute(a.stride)),
+        new Int32Array(permute(a.dstride)), a.length, a.dtype, true, a.initial_offset);
 }
 
 /**
- * Return the transpose of this array.
+ * Reverse the order of the elements along an axis. Does not copy the underlying data.
+ * @param {number} axis - The axis to reverse. Reverses every axis if not passed.
  */
-export function _transpose(a: tensor): tensor {
-    const new_shape = a.shape.slice(0).reverse();
-    let new_array = constructors.zeros(new_shape, a.dtype);
-    for (let index of a._iorder_index_iterator()) {
-        const value = a.g(...index);
-        const new_index = index.reverse();
-        new_array.s(value, ...new_index);
+export function _flip(a: tensor, axis?: number): tensor {
+    const ndims = a.shape.length;
+    if (axis === undefined) {
+        return a.slice(...new Array(ndims).fill([null, null, -1]));
     }
-    return new_array;
+    const positive_axis = axis < 0 ? axis + ndims : axis;
+    if (!utils.is_int(positive_axis) || positive_axis < 0 || positive_axis >= ndims) {
+        throw new errors.BadShape(`Cannot flip axis ${axis} of an array with ${ndims} dimensions.`);
+    }
+    let slice = new Array(positive_axis).fill(null);
+    slice.push([null, null, -1]);
+    return a.slice(...slice);
 }
 
 /**
@@ -119,6 +176,60 @@ export function _tril(a: tensor): tensor {
     return constructors.from_iterable(iter, a.shape, a.dtype);
 }
 
-export function _round() {
+/**
+ * Round each element to the given number of decimals, rounding halves to even like numpy.
+ * Integer tensors are only changed by negative decimals. The parts of complex elements are rounded separately.
+ * @param {tensor} a          - The tensor.
+ * @param {number} decimals   - The number of decimal places. Negative values round to the left of the decimal point.
+ * @return {tensor}           - A tensor with the dtype of a.
+ */
+export function _round(a: tensor, decimals: number = 0): tensor {
+    if (utils.is_complex(a.dtype)) {
+        return complex.complex(_round(complex.real(a), decimals), _round(complex.imag(a), decimals), a.dtype);
+    }
+    const is_float = utils.dtype_kind(a.dtype) === 'f';
+    if (!is_float && decimals >= 0) {
+        return constructors.from_iterable(a._iorder_value_iterator(), a.shape, a.dtype);
+    }
+
+    // Scale so the digit to round to is the ones digit, then scale back. Like numpy, this divides by 10^-decimals
+    // instead of multiplying by 10^decimals when decimals is negative, which is exact for more values.
+    const factor = Math.pow(10, Math.abs(decimals));
+    const f = (x: number | bigint) => {
+        if (typeof x === 'bigint') {
+            return _round_bigint(x, BigInt(factor));
+        } else if (decimals >= 0) {
+            return _round_half_even(x * factor) / factor;
+        }
+        return _round_half_even(x / factor) * factor;
+    };
+    return constructors.from_iterable(utils.imap(a._iorder_value_iterator(), f), a.shape, a.dtype);
+}
 
+/**
+ * Round a number to the nearest integer, breaking ties towards the even integer.
+ * Infinities and NaN are returned as is.
+ * @param {number} x
+ * @return {number}
+ */
+function _round_half_even(x: number): number {
+    const rounded = Math.round(x);
+    // Math.round breaks ties upwards, so only ties that went to an odd number need fixing.
+    return rounded - x === 0.5 && rounded % 2 !== 0 ? rounded - 1 : rounded;
+}
+
+/**
+ * Round a BigInt to a multiple of factor, breaking ties towards the even multiple.
+ * @param {bigint} x        - The value to round.
+ * @param {bigint} factor   - A positive BigInt.
+ * @return {bigint}
+ */
+function _round_bigint(x: bigint, factor: bigint): bigint {
+    let quotient = x / factor;
+    const remainder = x - quotient * factor;
+    const twice = (remainder < 0 ? -remainder : remainder) * BigInt(2);
+    if (twice > factor || (twice === factor && quotient % BigInt(2) !== BigInt(0))) {
+        quotient += remainder < 0 ? BigInt(-1) : BigInt(1);
+    }
+    return quotient * factor;
 }
@@ -0,0 +1,345 @@
+import {tensor} from '../tensor';
+import * as constructors from './constructors';
+import * as complex from './complex';
+import * as transformations from './transformations';
+import {utils} from '../utils';
+
+/**
+ * The dtype of the result of a floating point function.
+ * Floats, including half precision, and complex dtypes are kept. Integers give the smallest float of at least 32 bits
+ * that holds them.
+ * @param {string} dtype  - The dtype of the input.
+ * @return {string}
+ */
+function _float_dtype(dtype: string): string {
+    return utils.is_complex(dtype) || utils.is_half(dtype) ? dtype : utils._dtype_join(dtype, 'float32');
+}
+
+/**
+ * Apply a function to each element of a tensor, in index order.
+ * @param {tensor} a                - The tensor. May be a view.
+ * @param {(x: any) => any} f       - The function.
+ * @param {string} dtype            - The dtype of the result.
+ * @return {tensor}
+ */
+function _map(a: tensor, f: (x: any) => any, dtype: string): tensor {
+    return constructors.from_iterable(utils.imap(a._iorder_value_iterator(), f), a.shape, dtype);
+}
+
+/**
+ * Apply a function to the real and imaginary parts of each element of a complex tensor.
+ * @param {tensor} a                                        - A complex tensor.
+ * @param {(re: number, im: number) => [number, number]} f  - Maps the parts of an element to the parts of the result.
+ * @return {tensor}                                         - A complex tensor with the dtype of a.
+ */
+function _map_complex(a: tensor, f: (re: number, im: number) => [number, number]): tensor {
+    const result = constructors.zeros(a.shape, a.dtype);
+    const parts = utils.zip_iterable(complex.real(a)._iorder_value_iterator()[Symbol.iterator](), complex.imag(a)._iorder_value_iterator()[Symbol.iterator]());
+    const iter = utils.zip_iterable(result._iorder_data_iterator()[Symbol.iterator](), parts[Symbol.iterator]());
+    // The imaginary part of a complex element is stored right after its real part.
+    for (let [index, [re, im]] of iter) {
+        [result.data[index], result.data[index + 1]] = f(re, im);
+    }
+    return result;
+}
+
+/**
+ * Apply a floating point function to each element of a tensor.
+ * @param {tensor} a                  - The tensor.
+ * @param {string} name               - The name of the function, for errors.
+ * @param {(x: number) => number} f   - The function for real values.
+ * @param complex_f                   - The function for complex values. Complex tensors are an error if it isn't passed.
+ * @return {tensor}
+ */
+function _float_ufunc(a: tensor, name: string, f: (x: number) => number, complex_f?: (re: number, im: number) => [number, number]): tensor {
+    if (complex_f === undefined) {
+        complex._check_real(name, a);
+    } else if (utils.is_complex(a.dtype)) {
+        return _map_complex(a, complex_f);
+    }
+    return _map(a, x => f(Number(x)), _float_dtype(a.dtype));
+}
+
+/**
+ * e to the power of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function exp(a: tensor): tensor {
+    return _float_ufunc(a, 'exp', Math.exp, (re, im) => {
+        const magnitude = Math.exp(re);
+        return [magnitude * Math.cos(im), magnitude * Math.sin(im)];
+    });
+}
+
+/**
+ * The natural logarithm of each element. The principal value for complex tensors.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function log(a: tensor): tensor {
+    return _float_ufunc(a, 'log', Math.log, (re, im) => [Math.log(Math.hypot(re, im)), Math.atan2(im, re)]);
+}
+
+/**
+ * log(1 + x) for each element, accurate for small x.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function log1p(a: tensor): tensor {
+    return _float_ufunc(a, 'log1p', Math.log1p);
+}
+
+/**
+ * exp(x) - 1 for each element, accurate for small x.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function expm1(a: tensor): tensor {
+    return _float_ufunc(a, 'expm1', Math.expm1);
+}
+
+/**
+ * The square root of each element. Negative real values give NaN; the principal value for complex tensors.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function sqrt(a: tensor): tensor {
+    return _float_ufunc(a, 'sqrt', Math.sqrt, (re, im) => {
+        const magnitude = Math.hypot(re, im);
+        if (magnitude === 0) {
+            return [0, im];
+        }
+        const s = Math.sqrt((magnitude + Math.abs(re)) / 2);
+        return re >= 0 ? [s, im / (2 * s)] : [Math.abs(im) / (2 * s), im < 0 || Object.is(im, -0) ? -s : s];
+    });
+}
+
+/**
+ * The cube root of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function cbrt(a: tensor): tensor {
+    return _float_ufunc(a, 'cbrt', Math.cbrt);
+}
+
+/**
+ * The sine of each element, in radians.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function sin(a: tensor): tensor {
+    return _float_ufunc(a, 'sin', Math.sin);
+}
+
+/**
+ * The cosine of each element, in radians.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function cos(a: tensor): tensor {
+    return _float_ufunc(a, 'cos', Math.cos);
+}
+
+/**
+ * The tangent of each element, in radians.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function tan(a: tensor): tensor {
+    return _float_ufunc(a, 'tan', Math.tan);
+}
+
+/**
+ * The inverse sine of each element, in [-pi/2, pi/2].
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arcsin(a: tensor): tensor {
+    return _float_ufunc(a, 'arcsin', Math.asin);
+}
+
+/**
+ * The inverse cosine of each element, in [0, pi].
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arccos(a: tensor): tensor {
+    return _float_ufunc(a, 'arccos', Math.acos);
+}
+
+/**
+ * The inverse tangent of each element, in (-pi/2, pi/2).
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arctan(a: tensor): tensor {
+    return _float_ufunc(a, 'arctan', Math.atan);
+}
+
+/**
+ * The hyperbolic sine of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function sinh(a: tensor): tensor {
+    return _float_ufunc(a, 'sinh', Math.sinh);
+}
+
+/**
+ * The hyperbolic cosine of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function cosh(a: tensor): tensor {
+    return _float_ufunc(a, 'cosh', Math.cosh);
+}
+
+/**
+ * The hyperbolic tangent of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function tanh(a: tensor): tensor {
+    return _float_ufunc(a, 'tanh', Math.tanh);
+}
+
+/**
+ * The inverse hyperbolic sine of each element.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arcsinh(a: tensor): tensor {
+    return _float_ufunc(a, 'arcsinh', Math.asinh);
+}
+
+/**
+ * The inverse hyperbolic cosine of each element. Values below 1 give NaN.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arccosh(a: tensor): tensor {
+    return _float_ufunc(a, 'arccosh', Math.acosh);
+}
+
+/**
+ * The inverse hyperbolic tangent of each element. Values outside [-1, 1] give NaN.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function arctanh(a: tensor): tensor {
+    return _float_ufunc(a, 'arctanh', Math.atanh);
+}
+
+/**
+ * The sign of each element: -1, 0 or 1, with the dtype of the tensor. NaN stays NaN.
+ * For complex tensors this is the element divided by its magnitude, or 0.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function sign(a: tensor): tensor {
+    if (utils.is_complex(a.dtype)) {
+        return _map_complex(a, (re, im) => {
+            const magnitude = Math.hypot(re, im);
+            return magnitude === 0 ? [0, 0] : [re / magnitude, im / magnitude];
+        });
+    }
+    const f = x => typeof x === 'bigint' ? BigInt((x > 0) ? 1 : (x < 0 ? -1 : 0)) : Math.sign(x);
+    return _map(a, f, a.dtype);
+}
+
+/**
+ * Apply a rounding function to each element. Integer and bool tensors are copied, since their values are already whole.
+ * @param {tensor} a                  - The tensor.
+ * @param {string} name               - The name of the function, for errors.
+ * @param {(x: number) => number} f   - The rounding function.
+ * @return {tensor}                   - A tensor with the dtype of a.
+ */
+function _rounding_ufunc(a: tensor, name: string, f: (x: number) => number): tensor {
+    complex._check_real(name, a);
+    if (utils.dtype_kind(a.dtype) !== 'f') {
+        return _map(a, x => x, a.dtype);
+    }
+    return _map(a, f, a.dtype);
+}
+
+/**
+ * Round each element down to the nearest integer.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function floor(a: tensor): tensor {
+    return _rounding_ufunc(a, 'floor', Math.floor);
+}
+
+/**
+ * Round each element up to the nearest integer.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function ceil(a: tensor): tensor {
+    return _rounding_ufunc(a, 'ceil', Math.ceil);
+}
+
+/**
+ * Round each element towards zero.
+ * @param {tensor} a
+ * @return {tensor}
+ */
+export function trunc(a: tensor): tensor {
+    return _rounding_ufunc(a, 'trunc', Math.trunc);
+}
+
+/**
+ * Round each element to the given number of decimals, rounding halves to even like numpy.
+ * @param {tensor} a          - The tensor.
+ * @param {number} decimals   - The number of decimal places. Negative values round to the left of the decimal point.
+ * @return {tensor}           - A tensor with the dtype of a.
+ */
+export function round(a: tensor, decimals: number = 0): tensor {
+    return transformations._round(a, decimals);
+}
+
+/**
+ * Whether each element is NaN. Complex elements are NaN if either part is.
+ * @param {tensor} a
+ * @return {tensor} - A bool tensor.
+ */
+export function isnan(a: tensor): tensor {
+    return _classify(a, Number.isNaN);
+}
+
+/**
+ * Whether each element is positive or negative infinity. Complex elements are infinite if either part is.
+ * @param {tensor} a
+ * @return {tensor} - A bool tensor.
+ */
+export function isinf(a: tensor): tensor {
+    return _classify(a, x => x === Infinity || x === -Infinity);
+}
+
+/**
+ * Whether each element is neither infinite nor NaN. Complex elements are finite if both parts are.
+ * @param {tensor} a
+ * @return {tensor} - A bool tensor.
+ */
+export function isfinite(a: tensor): tensor {
+    return _classify(a, Number.isFinite, true);
+}
+
+/**
+ * Test each element of a tensor.
+ * @param {tensor} a                      - The tensor.
+ * @param {(x: number) => boolean} test   - The test for real values.
+ * @param {boolean} both_parts            - Whether both parts of a complex element have to pass, rather than either.
+ * @return {tensor}                       - A bool tensor.
+ */
+function _classify(a: tensor, test: (x: number) => boolean, both_parts: boolean = false): tensor {
+    if (utils.is_complex(a.dtype)) {
+        const parts = utils.zip_iterable(complex.real(a)._iorder_value_iterator()[Symbol.iterator](), complex.imag(a)._iorder_value_iterator()[Symbol.iterator]());
+        const combine = ([re, im]) => both_parts ? test(re) && test(im) : test(re) || test(im);
+        return constructors.from_iterable(utils.imap(parts, e => +combine(e)), a.shape, 'bool');
+    }
+    return _map(a, x => +test(Number(x)), 'bool');
+}
@@ -1,8 +1,10 @@
 import {tensor} from "./tensor";
+import {indexing} from "./tensor_core/indexing";
 
 export type TypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array| Int32Array | Uint32Array | Float32Array | Float64Array;
 export type Numeric = TypedArray | number[];
 export type Broadcastable = number | TypedArray | tensor | number[];
 export type Shape = number[] | Uint32Array;
-export type USlice = Array<null | number | [number, number] | [number, number, number]>;
+export type Stride = number[] | Uint32Array | Int32Array;
+export type USlice = Array<null | number | [number | null, number | null] | [number | null, number | null, number] | typeof indexing.ELLIPSIS | '...' | typeof indexing.NEWAXIS>;
 export type ISlice = Array<[number, number, number]>;
@@ -36,12 +36,15 @@ export namespace utils {
 
   /**
    * TODO: Test
-   * Checks whether a value is a number and isn't null.
+   * Checks whether a value is a number and isn't null. NaN counts as a number.
    * @param value - The value to check.
    * @return {boolean}
    */
   export function is_numeric(value: any): value is number {
-    return !isNaN(value) && value !== null && !ArrayBuffer.isView(value);
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return true;
+    }
+    return typeof value !== 'symbol' && !isNaN(value) && value !== null && !ArrayBuffer.isView(value);
   }
 
   /**
@@ -167,6 +170,9 @@ export namespace utils {
       case "uint8":
         array_type = Uint8Array;
         break;
+      case "bool":
+        array_type = Uint8Array;
+        break;
       case "uint8c":
         array_type = Uint8ClampedArray;
         break;
@@ -182,6 +188,24 @@ export namespace utils {
       case "float64":
         array_type = Float64Array;
         break;
+      case "int64":
+        array_type = BigInt64Array;
+        break;
+      case "uint64":
+        array_type = BigUint64Array;
+        break;
+      case "complex64":
+        array_type = Float32Array;
+        break;
+      case "complex128":
+        array_type = Float64Array;
+        break;
+      case "float16":
+        array_type = Uint16Array;
+        break;
+      case "bfloat16":
+        array_type = Uint16Array;
+        break;
       default:
         array_type = Float64Array;
     }
@@ -190,26 +214,276 @@ export namespace utils {
   }
 
   /**
-   *
+   * Check whether a dtype is complex.
+   * @param {string} dtype
+   * @return {boolean}
+   */
+  export function is_complex(dtype: string): boolean {
+    return dtype === 'complex64' || dtype === 'complex128';
+  }
+
+  /**
+   * Check whether a dtype stores its elements as BigInts.
+   * @param {string} dtype
+   * @return {boolean}
+   */
+  export function is_bigint_dtype(dtype: string): boolean {
+    return dtype === 'int64' || dtype === 'uint64';
+  }
+
+  /**
+   * Check whether a dtype is a half precision float, stored as its bits in a Uint16Array.
+   * @param {string} dtype
+   * @return {boolean}
+   */
+  export function is_half(dtype: string): boolean {
+    return dtype === 'float16' || dtype === 'bfloat16';
+  }
+
+  /**
+   * The number of exponent and mantissa bits of each half precision dtype.
+   */
+  const _HALF_FORMATS = {
+    float16: [5, 10],
+    bfloat16: [8, 7]
+  };
+
+  /**
+   * Round a number to the nearest integer, breaking ties towards the even integer.
+   * @param {number} value
+   * @return {number}
+   */
+  function _round_half_even(value: number): number {
+    const floor = Math.floor(value);
+    const difference = value - floor;
+    if (difference > 0.5 || (difference === 0.5 && floor % 2 !== 0)) {
+      return floor + 1;
+    }
+    return floor;
+  }
+
+  /**
+   * Encode a number as the bits of a half precision float, rounding to the nearest representable value with ties to even.
+   * Values too large for the format become infinities.
+   * @param {number} value  - The number to encode.
+   * @param {string} dtype  - float16 or bfloat16.
+   * @return {number}       - The bits of the encoded value.
+   */
+  export function encode_half(value: number, dtype: string): number {
+    const [exponent_bits, mantissa_bits] = _HALF_FORMATS[dtype];
+    const mantissa_size = Math.pow(2, mantissa_bits);
+    const max_exponent = Math.pow(2, exponent_bits) - 1;
+    const bias = Math.pow(2, exponent_bits - 1) - 1;
+    const sign = value < 0 || Object.is(value, -0) ? Math.pow(2, exponent_bits + mantissa_bits) : 0;
+    const magnitude = Math.abs(value);
+
+    if (Number.isNaN(value)) {
+      return max_exponent * mantissa_size + mantissa_size / 2;
+    } else if (magnitude < Math.pow(2, 1 - bias)) {
+      // Subnormal. Rounding up to the smallest normal value gives its encoding.
+      return sign + _round_half_even(magnitude / Math.pow(2, 1 - bias - mantissa_bits));
+    } else if (magnitude === Infinity) {
+      return sign + max_exponent * mantissa_size;
+    }
+
+    let exponent = Math.floor(Math.log2(magnitude));
+    // log2 can be off by one near powers of two.
+    if (Math.pow(2, exponent) > magnitude) {
+      exponent -= 1;
+    } else if (Math.pow(2, exponent + 1) <= magnitude) {
+      exponent += 1;
+    }
+    let mantissa = _round_half_even((magnitude / Math.pow(2, exponent) - 1) * mantissa_size);
+    if (mantissa === mantissa_size) {
+      mantissa = 0;
+      exponent += 1;
+    }
+    if (exponent + bias >= max_exponent) {
+      return sign + max_exponent * mantissa_size;
+    }
+    return sign + (exponent + bias) * mantissa_size + mantissa;
+  }
+
+  /**
+   * Decode the bits of a half precision float.
+   * @param {number} bits   - The bits of the value.
+   * @param {string} dtype  - float16 or bfloat16.
+   * @return {number}
+   */
+  export function decode_half(bits: number, dtype: string): number {
+    const [exponent_bits, mantissa_bits] = _HALF_FORMATS[dtype];
+    const mantissa_size = Math.pow(2, mantissa_bits);
+    const sign_bit = Math.pow(2, exponent_bits + mantissa_bits);
+    const sign = bits >= sign_bit ? -1 : 1;
+    const unsigned = bits % sign_bit;
+    const exponent = Math.floor(unsigned / mantissa_size);
+    const mantissa = unsigned % mantissa_size;
+    const bias = Math.pow(2, exponent_bits - 1) - 1;
+
+    if (exponent === 0) {
+      return sign * mantissa * Math.pow(2, 1 - bias - mantissa_bits);
+    } else if (exponent === Math.pow(2, exponent_bits) - 1) {
+      return mantissa === 0 ? sign * Infinity : NaN;
+    }
+    return sign * (1 + mantissa / mantissa_size) * Math.pow(2, exponent - bias);
+  }
+
+  /**
+   * Convert a value to the type a dtype stores: a BigInt for 64-bit integer dtypes, and a number otherwise.
+   * Numbers are truncated towards zero when converted to BigInts, and NaN and infinities become 0 like they do for the other
+   * integer dtypes. Values stored in bool tensors become 0 or 1, with NaN counting as true like in numpy, and values stored in
+   * half precision tensors become their bits.
+   * @param {number | bigint} value - The value to convert.
+   * @param {string} dtype          - The dtype.
+   * @return {number | bigint}
+   */
+  export function to_dtype_value(value: number | bigint, dtype: string): number | bigint {
+    if (is_bigint_dtype(dtype)) {
+      if (typeof value === 'bigint') {
+        return value;
+      }
+      return Number.isFinite(value) ? BigInt(Math.trunc(value)) : BigInt(0);
+    } else if (dtype === 'bool') {
+      return +(Boolean(value) || Number.isNaN(<number> value));
+    } else if (is_half(dtype)) {
+      return encode_half(Number(value), dtype);
+    }
+    return typeof value === 'bigint' ? Number(value) : value;
+  }
+
+  /**
+   * Convert a value stored in a tensor of the given dtype to the value it represents.
+   * This only changes half precision values, which are stored as their bits.
+   * @param {number | bigint} value - The stored value.
+   * @param {string} dtype          - The dtype.
+   * @return {number | bigint}
+   */
+  export function from_dtype_value(value: number | bigint, dtype: string): number | bigint {
+    return is_half(dtype) ? decode_half(<number> value, dtype) : value;
+  }
+
+  /**
+   * The number of entries of the underlying array used by each element of a dtype.
+   * Complex dtypes store the real and imaginary parts of each element next to each other.
+   * @param {string} dtype
+   * @return {number}
+   */
+  export function dtype_width(dtype: string): number {
+    return is_complex(dtype) ? 2 : 1;
+  }
+
+  /**
+   * The kind and size in bits of each dtype.
+   * Kinds are 'b' for bool, 'u' for unsigned integers, 'i' for signed integers, 'f' for floats and 'c' for complex numbers.
+   */
+  const _DTYPE_INFO: {[dtype: string]: [string, number]} = {
+    bool: ['b', 8],
+    int8: ['i', 8],
+    uint8: ['u', 8],
+    uint8c: ['u', 8],
+    int16: ['i', 16],
+    uint16: ['u', 16],
+    int32: ['i', 32],
+    uint32: ['u', 32],
+    int64: ['i', 64],
+    uint64: ['u', 64],
+    float16: ['f', 16],
+    bfloat16: ['f', 16],
+    float32: ['f', 32],
+    float64: ['f', 64],
+    complex64: ['c', 64],
+    complex128: ['c', 128]
+  };
+
+  /**
+   * The kind of a dtype: 'b' for bool, 'u' for unsigned integers, 'i' for signed integers, 'f' for floats and 'c' for complex numbers.
+   * @param {string} dtype
+   * @return {string}
+   */
+  export function dtype_kind(dtype: string): string {
+    return _dtype_info(dtype)[0];
+  }
+
+  /**
+   * Look up the kind and size of a dtype.
+   * @param {string} dtype
+   * @return {[string, number]}
+   */
+  function _dtype_info(dtype: string): [string, number] {
+    if (!(dtype in _DTYPE_INFO)) {
+      throw new Error(`Unknown dtype ${dtype}.`);
+    }
+    return _DTYPE_INFO[dtype];
+  }
+
+  /**
+   * The smallest and largest values of an integer or bool dtype. BigInts for 64-bit integers.
+   * @param {string} dtype
+   * @return {[number | bigint, number | bigint]}
+   */
+  export function dtype_range(dtype: string): [number | bigint, number | bigint] {
+    const [kind, bits] = _dtype_info(dtype);
+    if (kind === 'b') {
+      return [0, 1];
+    } else if (kind !== 'u' && kind !== 'i') {
+      throw new Error(`${dtype} is not an integer dtype.`);
+    }
+    const size = Math.pow(2, kind === 'u' ? bits : bits - 1);
+    const [min, max] = kind === 'u' ? [0, size - 1] : [-size, size - 1];
+    if (is_bigint_dtype(dtype)) {
+      // size - 1 isn't exact for 64 bits, so subtract as BigInts.
+      return [BigInt(min), BigInt(size) - BigInt(1)];
+    }
+    return [min, max];
+  }
+
+  /**
+   * Find the dtype two dtypes are promoted to when they're combined. Matches numpy's promotion table.
+   * Signed and unsigned integers are promoted to a signed integer that holds both, or to float64 if there is none.
+   * Integers combined with floats need a float that holds every value of the integer dtype exactly.
    * @param {string} a  - The first dtype.
    * @param {string} b  - The second dtype.
    * @return {string} - The smallest dtype that can contain a and b without losing data.
    * @private
    */
   export function _dtype_join(a: string, b: string): string {
-    // type TypedArray = Int8Array | Uint8Array | Uint8ClampedArray | Int16Array | Uint16Array| Int32Array | Uint32Array | Float32Array | Float64Array;
-    const ordering = [["int8", "uint8", "uint8c"], ["int16", "uint16"], ["int32", "uint32", "float32"], ["float64"]];
-    const a_index = ordering.reduce((acc, e, i) => e.indexOf(a) === -1 ? acc : i, -1);
-    const b_index = ordering.reduce((acc, e, i) => e.indexOf(b) === -1 ? acc : i, -1);
+    const [a_kind, a_bits] = _dtype_info(a);
+    const [b_kind, b_bits] = _dtype_info(b);
     if (a === b) {
       return a;
-    } else if (a_index === b_index) {
-      return ordering[a_index + 1][0];
-    } else if (a_index < b_index) {
+    } else if (a_kind === 'b') {
       return b;
-    } else {
+    } else if (b_kind === 'b') {
       return a;
     }
+
+    if (a_kind === 'c' || b_kind === 'c') {
+      // Join the dtypes of the real parts, then use the smallest complex dtype that holds the result.
+      const real_part = (dtype: string) => dtype === 'complex64' ? 'float32' : (dtype === 'complex128' ? 'float64' : dtype);
+      return _dtype_join(real_part(a), real_part(b)) === 'float64' ? 'complex128' : 'complex64';
+    }
+
+    if (a_kind === 'f' && b_kind === 'f') {
+      // float16 and bfloat16 have the same size but neither holds the other.
+      return a_bits === b_bits ? 'float32' : (a_bits > b_bits ? a : b);
+    } else if (a_kind === 'f' || b_kind === 'f') {
+      const [float, float_bits, int_bits] = a_kind === 'f' ? [a, a_bits, b_bits] : [b, b_bits, a_bits];
+      // The smallest float with enough mantissa bits for every integer of the given size.
+      const needed = Math.min(int_bits * 2, 64);
+      return needed <= float_bits ? float : `float${needed}`;
+    }
+
+    if (a_kind === b_kind) {
+      return `${a_kind === 'u' ? 'uint' : 'int'}${Math.max(a_bits, b_bits)}`;
+    }
+    const [signed_bits, unsigned_bits] = a_kind === 'i' ? [a_bits, b_bits] : [b_bits, a_bits];
+    if (signed_bits > unsigned_bits) {
+      return `int${signed_bits}`;
+    } else if (unsigned_bits < 64) {
+      return `int${unsigned_bits * 2}`;
+    } else {
+      return 'float64';
+    }
   }
 
   /**
@@ -1,7 +1,9 @@
 const numts = require('../../numts/numts');
 const binary_ops = require('../../numts/tensor_core/binary_ops');
+const constructors = require('../../numts/tensor_core/constructors');
 const call_python = require('../call_python');
 const tensor = numts.tensor;
+const errors = require('../../numts/tensor').errors;
 
 describe('binary_broadcast.', function () {
     test('return first.', function () {
@@ -105,7 +107,67 @@ describe('arithmetic.', function () {
 });
 
 describe('boolean.', function () {
+    const a = numts.from_nested_array([1, 5, 3], 'int32');
+    const b = numts.from_nested_array([2, 5, 1], 'float64');
+
+    test('comparisons are bool.', function () {
+        for (let f of [binary_ops._lt, binary_ops._gt, binary_ops._le, binary_ops._ge, binary_ops._ne, binary_ops._eq]) {
+            expect(f(a, b).dtype).toBe('bool');
+            expect(f(a, b).data).toBeInstanceOf(Uint8Array);
+        }
+        expect(binary_ops._le(a, b).to_nested_array()).toEqual([true, true, false]);
+        expect(a.is_close(b).dtype).toBe('bool');
+    });
+
+    test('logical operations.', function () {
+        const x = numts.from_nested_array([0, 0, 2, -1], 'int32');
+        const y = numts.from_nested_array([0, 1, 0, 3], 'float32');
+        expect(x.logical_and(y).to_nested_array()).toEqual([false, false, false, true]);
+        expect(x.logical_or(y).to_nested_array()).toEqual([false, true, true, true]);
+        expect(x.logical_xor(y).to_nested_array()).toEqual([false, true, true, false]);
+        expect(x.logical_not().dtype).toBe('bool');
+        expect(x.logical_not().to_nested_array()).toEqual([true, true, false, false]);
+    });
+
+    test('logical operations broadcast.', function () {
+        const x = numts.from_nested_array([[0, 1], [1, 1]], 'int32');
+        expect(x.logical_and(1).to_nested_array()).toEqual([[false, true], [true, true]]);
+    });
+
+    test('stored values become 0 or 1.', function () {
+        const x = numts.from_nested_array([0, 2, -3, true, false], 'bool');
+        expect(x.data).toEqual(new Uint8Array([0, 1, 1, 1, 0]));
+        x.s(7, 0);
+        expect(x.g(0)).toBe(1);
+    });
+
+    test('all, any and where.', function () {
+        const condition = binary_ops._gt(a, b);
+        expect(condition.any()).toBe(true);
+        expect(condition.all()).toBe(false);
+        expect(constructors.where(condition, a, b.as_type('int32')).to_nested_array()).toEqual([2, 5, 3]);
+        expect(condition.nonzero()).toEqual([new Uint32Array([2])]);
+    });
+
+    test('as_type.', function () {
+        expect(numts.from_nested_array([0, 0.5, 2], 'float64').as_type('bool').to_nested_array()).toEqual([false, true, true]);
+        expect(binary_ops._eq(a, b).as_type('int32').data).toEqual(new Int32Array([0, 1, 0]));
+    });
 
+    test('NaN is true.', function () {
+        expect(numts.from_nested_array([NaN, 0, -0], 'float64').as_type('bool').to_nested_array()).toEqual([true, false, false]);
+        expect(numts.from_nested_array([NaN], 'bool').to_nested_array()).toEqual([true]);
+    });
+
+    test('sums count.', function () {
+        const x = numts.from_nested_array([[1, 0], [1, 1]], 'bool');
+        expect(x.flatten().cumsum().dtype).toBe('int32');
+        expect(x.flatten().cumsum().to_nested_array()).toEqual([1, 1, 2, 3]);
+        expect(x.cumsum(0).to_nested_array()).toEqual([[1, 0], [2, 1]]);
+        expect(x.sum(0).to_nested_array()).toEqual([2, 1]);
+        expect(x.sum()).toBe(3);
+        expect(numts.reduce(x, 'a b -> b', 'sum').to_nested_array()).toEqual([2, 1]);
+    });
 })
 
 describe('matmul_2d.', function () {
@@ -113,7 +175,7 @@ describe('matmul_2d.', function () {
         let a = numts.arange(1, 2).reshape([1, 1]);
         let b = numts.arange(10, 11).reshape([1, 1]);
         let x = tensor.matmul_2d(a, b);
-        const expected = numts.from_nested_array([[10]]);
+        const expected = numts.from_nested_array([[10]], 'int32');
         expect(expected.equals(x)).toBe(true);
     });
 
@@ -123,13 +185,34 @@ describe('matmul_2d.', function () {
         const expected = numts.from_nested_array([
             [6, 7],
             [26, 31]
-        ]);
+        ], 'int32');
 
         const actual = tensor.matmul_2d(a, b);
         expect(actual.equals(expected)).toBe(true);
 
     });
 
+    test('transposed.', function () {
+        const a = numts.arange(6).reshape(3, 2).transpose();
+        const b = numts.arange(6).reshape(3, 2);
+        const actual = tensor.matmul_2d(a, b);
+        expect(actual.to_nested_array()).toEqual([[20, 26], [26, 35]]);
+    });
+
+    test('negative strides.', function () {
+        const a = numts.arange(4).reshape(2, 2).flip(1);
+        const b = numts.arange(4, 8).reshape(2, 2).slice([null, null, -1]);
+        const actual = tensor.matmul_2d(a, b);
+        expect(actual.to_nested_array()).toEqual([[6, 7], [26, 31]]);
+    });
+
+    test('larger than a block.', function () {
+        const a = numts.arange(100 * 70).reshape(100, 70);
+        const b = numts.arange(70 * 90).reshape(70, 90);
+        const expected = binary_ops.tensordot(a, b, 1);
+        expect(tensor.matmul_2d(a, b).to_nested_array()).toEqual(expected.to_nested_array());
+    });
+
     describe('from breaks.', function () {
         test('broken broadcast test.', function () {
             const a = numts.arange(24).reshape(2, 3, 4).slice(0);
@@ -138,7 +221,7 @@ describe('matmul_2d.', function () {
                 [56, 62, 68, 74],
                 [152, 174, 196, 218],
                 [248, 286, 324, 362]
-            ]);
+            ], 'int32');
 
             const actual = tensor.matmul_2d(a, b);
             expect(expected.equals(actual)).toBe(true);
@@ -153,7 +236,7 @@ describe('matmul.', function () {
         let a = numts.arange(1, 2).reshape([1, 1]);
         let b = numts.arange(10, 11).reshape([1, 1]);
         let x = binary_ops.broadcast_matmul(a, b);
-        const expected = numts.from_nested_array([[10]]);
+        const expected = numts.from_nested_array([[10]], 'int32');
         expect(expected.equals(x)).toBe(true);
     });
 
@@ -186,6 +269,25 @@ describe('matmul.', function () {
     });
 });
 
+describe('broadcast_matmul batches.', function () {
+    test('broadcast both sides.', function () {
+        const a = numts.arange(12).reshape(2, 1, 3, 2);
+        const b = numts.arange(12).reshape(3, 2, 2);
+        const x = binary_ops.broadcast_matmul(a, b);
+        expect(x.shape).toEqual(new Uint32Array([2, 3, 3, 2]));
+        const expected = tensor.matmul_2d(a.slice(1, 0), b.slice(2));
+        expect(x.slice(1, 2).to_nested_array()).toEqual(expected.to_nested_array());
+    });
+
+    test('sliced batches.', function () {
+        const a = numts.arange(24).reshape(2, 3, 4).slice([null, null, -1]);
+        const b = numts.arange(8).reshape(4, 2);
+        const x = binary_ops.broadcast_matmul(a, b);
+        expect(x.slice(0).to_nested_array()).toEqual(tensor.matmul_2d(a.slice(0), b).to_nested_array());
+        expect(x.slice(1).to_nested_array()).toEqual(tensor.matmul_2d(a.slice(1), b).to_nested_array());
+    });
+});
+
 describe('dot.', function () {
     test('simple.', function () {
         const a = numts.arange(10, 20);
@@ -197,11 +299,60 @@ describe('dot.', function () {
 
 
 describe('tensordot.', function () {
-    test.skip('simple.', function () {
+    test('simple.', function () {
         const a = numts.arange(60).reshape(3,4,5);
         const b = numts.arange(24).reshape(4,3,2);
         const c = binary_ops.tensordot(a, b, [[1, 0], [0, 1]]);
         expect(c.shape).toEqual(new Uint32Array([5, 2]));
+        expect(c.to_nested_array()).toEqual([[4400, 4730], [4532, 4874], [4664, 5018], [4796, 5162], [4928, 5306]]);
+    });
+
+    test('axis order.', function () {
+        const a = numts.arange(60).reshape(3,4,5);
+        const b = numts.arange(24).reshape(4,3,2);
+        const c = binary_ops.tensordot(a, b.transpose(1, 0, 2), [[0, 1], [0, 1]]);
+        expect(c.equals(binary_ops.tensordot(a, b, [[1, 0], [0, 1]]))).toBe(true);
+    });
+
+    test('negative axes.', function () {
+        const a = numts.arange(24).reshape(2, 3, 4);
+        const b = numts.arange(12).reshape(4, 3);
+        const c = binary_ops.tensordot(a, b, [[-1, -2], [0, 1]]);
+        expect(c.to_nested_array()).toEqual([440, 1232]);
+    });
+
+    test('four dimensional.', function () {
+        const a = numts.arange(120).reshape(2, 3, 4, 5);
+        const b = numts.arange(60).reshape(5, 4, 3);
+        const c = binary_ops.tensordot(a, b, [[3, 2], [0, 1]]);
+        expect(c.shape).toEqual(new Uint32Array([2, 3, 3]));
+        const expected = binary_ops.tensordot(a.reshape(6, 20), b.transpose(1, 0, 2).reshape(20, 3), 1);
+        expect(c.reshape(6, 3).equals(expected)).toBe(true);
+    });
+
+    test('zero axes.', function () {
+        const a = numts.arange(1, 3);
+        const b = numts.arange(1, 4);
+        const c = binary_ops.tensordot(a, b, 0);
+        expect(c.to_nested_array()).toEqual([[1, 2, 3], [2, 4, 6]]);
+    });
+
+    describe('Failures.', function () {
+        test('mismatched sizes.', function () {
+            const a = numts.arange(6).reshape(2, 3);
+            expect(() => binary_ops.tensordot(a, a, [[1], [1]])).not.toThrow();
+            expect(() => binary_ops.tensordot(a, a, [[1], [0]])).toThrow(errors.MismatchedShapes);
+        });
+
+        test('repeated axes.', function () {
+            const a = numts.arange(6).reshape(2, 3);
+            expect(() => binary_ops.tensordot(a, a, [[0, 0], [0, 1]])).toThrow(errors.BadShape);
+        });
+
+        test('different numbers of axes.', function () {
+            const a = numts.arange(6).reshape(2, 3);
+            expect(() => binary_ops.tensordot(a, a, [[0, 1], [0]])).toThrow();
+        });
     });
 
     describe('dot_product.', function () {
@@ -236,7 +387,421 @@ describe('tensordot.', function () {
             const a = numts.arange(4).reshape(2, 2);
             const c = binary_ops.tensordot(a, a, 1);
             expect(c.shape).toEqual(new Uint32Array([2, 2]));
-            expect(c.data).toEqual(new Int32Array([2, 6, 3, 11]));
+            expect(c.data).toEqual(new Int32Array([2, 3, 6, 11]));
         });
     });
 });
+
+describe('outer.', function () {
+    test('vectors.', function () {
+        const a = numts.arange(1, 3);
+        const b = numts.arange(1, 4);
+        const c = numts.outer(a, b);
+        expect(c.to_nested_array()).toEqual([[1, 2, 3], [2, 4, 6]]);
+        expect(c.dtype).toBe('int32');
+    });
+
+    test('flattens inputs.', function () {
+        const a = numts.arange(4).reshape(2, 2);
+        const c = a.outer(numts.arange(2));
+        expect(c.shape).toEqual(new Uint32Array([4, 2]));
+        expect(c.to_nested_array()).toEqual([[0, 0], [0, 1], [0, 2], [0, 3]]);
+    });
+
+    test('dtype promotion.', function () {
+        const a = numts.arange(2);
+        const b = numts.from_nested_array([0.5, 1.5], 'float64');
+        expect(numts.outer(a, b).dtype).toBe('float64');
+    });
+});
+
+describe('inner.', function () {
+    test('vectors.', function () {
+        const a = numts.arange(4);
+        expect(numts.inner(a, a)).toBe(14);
+        expect(a.inner(a)).toBe(a.dot(a));
+    });
+
+    test('last axes.', function () {
+        const a = numts.arange(6).reshape(2, 3);
+        const b = numts.arange(12).reshape(2, 2, 3);
+        const c = a.inner(b);
+        expect(c.shape).toEqual(new Uint32Array([2, 2, 2]));
+        expect(c.to_nested_array()).toEqual([[[5, 14], [23, 32]], [[14, 50], [86, 122]]]);
+    });
+
+    test('mismatched last axes.', function () {
+        expect(() => numts.inner(numts.arange(3), numts.arange(4))).toThrow(errors.MismatchedShapes);
+    });
+});
+
+describe('kron.', function () {
+    test('matrices.', function () {
+        const a = numts.from_nested_array([[1, 2], [3, 4]], 'int32');
+        const b = numts.from_nested_array([[0, 1], [1, 0]], 'int32');
+        expect(numts.kron(a, b).to_nested_array()).toEqual([
+            [0, 1, 0, 2],
+            [1, 0, 2, 0],
+            [0, 3, 0, 4],
+            [3, 0, 4, 0]
+        ]);
+    });
+
+    test('different dimensions.', function () {
+        const a = numts.arange(1, 3);
+        const b = numts.arange(4).reshape(2, 2);
+        const c = a.kron(b);
+        expect(c.shape).toEqual(new Uint32Array([2, 4]));
+        expect(c.to_nested_array()).toEqual([[0, 1, 0, 2], [2, 3, 4, 6]]);
+    });
+
+    test('strided input.', function () {
+        const a = numts.arange(4).reshape(2, 2).transpose();
+        const b = numts.from_nested_array([1, 10], 'int32');
+        expect(numts.kron(a, b).to_nested_array()).toEqual([[0, 0, 2, 20], [1, 10, 3, 30]]);
+    });
+});
+
+describe('cross.', function () {
+    test('unit vectors.', function () {
+        const x = numts.from_nested_array([1, 0, 0], 'int32');
+        const y = numts.from_nested_array([0, 1, 0], 'int32');
+        expect(numts.cross(x, y).to_nested_array()).toEqual([0, 0, 1]);
+        expect(y.cross(x).to_nested_array()).toEqual([0, 0, -1]);
+    });
+
+    test('broadcast.', function () {
+        const a = numts.arange(6).reshape(2, 3);
+        const b = numts.from_nested_array([1, 2, 3], 'int32');
+        expect(numts.cross(a, b).to_nested_array()).toEqual([[-1, 2, -1], [2, -4, 2]]);
+    });
+
+    test('two dimensional vectors.', function () {
+        const a = numts.from_nested_array([[1, 2], [3, 4]], 'int32');
+        const b = numts.from_nested_array([[5, 6], [7, 8]], 'int32');
+        expect(numts.cross(a, b).to_nested_array()).toEqual([-4, -4]);
+        expect(numts.cross(a.slice(0), b.slice(0))).toBe(-4);
+        const c = numts.cross(numts.from_nested_array([1, 2], 'int32'), numts.from_nested_array([3, 4, 5], 'int32'));
+        expect(c.to_nested_array()).toEqual([10, -5, -2]);
+    });
+
+    test('axis.', function () {
+        const a = numts.arange(6).reshape(3, 2);
+        const b = numts.from_nested_array([[1, 0], [2, 0], [3, 0]], 'int32');
+        const c = numts.cross(a, b, 0);
+        expect(c.shape).toEqual(new Uint32Array([3, 2]));
+        expect(c.to_nested_array()).toEqual([[-2, 0], [4, 0], [-2, 0]]);
+    });
+
+    test('dtype promotion.', function () {
+        const a = numts.from_nested_array([1, 0, 0], 'float64');
+        const b = numts.from_nested_array([0, 1, 0], 'int32');
+        expect(numts.cross(a, b).dtype).toBe('float64');
+    });
+
+    test('bad length.', function () {
+        expect(() => numts.cross(numts.arange(4), numts.arange(4))).toThrow(errors.BadShape);
+    });
+});
+
+describe('64-bit integers.', function () {
+    const big = BigInt(2) ** BigInt(60) + BigInt(1);
+    const a = numts.from_nested_array([big, BigInt(-5), BigInt(7)], 'int64');
+
+    test('storage.', function () {
+        expect(a.data).toBeInstanceOf(BigInt64Array);
+        expect(numts.zeros([2], 'uint64').data).toBeInstanceOf(BigUint64Array);
+        expect(a.g(0)).toBe(big);
+        expect(numts.from_nested_array([1, 2], 'int64').to_nested_array()).toEqual([BigInt(1), BigInt(2)]);
+    });
+
+    test('arithmetic keeps precision.', function () {
+        expect(a.add(a).to_nested_array()).toEqual([big * BigInt(2), BigInt(-10), BigInt(14)]);
+        expect(a.sub(numts.arange(3)).to_nested_array()).toEqual([big, BigInt(-6), BigInt(5)]);
+        expect(a.add(numts.arange(3)).dtype).toBe('int64');
+        expect(a.sum()).toBe(big + BigInt(2));
+    });
+
+    test('floor and ceiling division.', function () {
+        const x = numts.from_nested_array([-7, 7, 6], 'int64');
+        const y = numts.from_nested_array([2, -2, 3], 'int64');
+        expect(binary_ops._fdiv(x, y).to_nested_array()).toEqual([BigInt(-4), BigInt(-4), BigInt(2)]);
+        expect(binary_ops._cdiv(x, y).to_nested_array()).toEqual([BigInt(-3), BigInt(-3), BigInt(2)]);
+    });
+
+    test('true division gives floats.', function () {
+        const quotient = a.div(numts.from_nested_array([1, 2, 2], 'int64'));
+        expect(quotient.dtype).toBe('float64');
+        expect(quotient.to_nested_array()).toEqual([Number(big), -2.5, 3.5]);
+    });
+
+    test('comparisons are exact.', function () {
+        const b = numts.from_nested_array([big - BigInt(1), BigInt(-5), BigInt(8)], 'int64');
+        expect(a.eq(b).to_nested_array()).toEqual([false, true, false]);
+        expect(binary_ops._gt(a, b).to_nested_array()).toEqual([true, false, false]);
+    });
+
+    test('as_type.', function () {
+        expect(a.as_type('float64').to_nested_array()).toEqual([Number(big), -5, 7]);
+        expect(numts.arange(3).as_type('uint64').data).toEqual(new BigUint64Array([BigInt(0), BigInt(1), BigInt(2)]));
+        expect(numts.from_nested_array([1.7, -1.7], 'float64').as_type('int64').to_nested_array()).toEqual([BigInt(1), BigInt(-1)]);
+        expect(a.as_type('uint64').g(1)).toBe(BigInt(2) ** BigInt(64) - BigInt(5));
+    });
+
+    test('promotion to float.', function () {
+        const c = a.add(numts.from_nested_array([0.5, 0.5, 0.5], 'float32'));
+        expect(c.dtype).toBe('float64');
+        expect(c.to_nested_array()).toEqual([Number(big) + 0.5, -4.5, 7.5]);
+    });
+
+    test('set values.', function () {
+        const b = numts.zeros([3], 'int64');
+        b.s(big, 0);
+        b.s(3, 1);
+        expect(b.to_nested_array()).toEqual([big, BigInt(3), BigInt(0)]);
+    });
+
+    test('max and min.', function () {
+        expect(a.max()).toBe(big);
+        expect(a.min()).toBe(BigInt(-5));
+        const m = numts.from_nested_array([[1, 5], [4, 2]], 'int64');
+        expect(m.max(0).to_nested_array()).toEqual([BigInt(4), BigInt(5)]);
+        expect(m.min(1).to_nested_array()).toEqual([BigInt(1), BigInt(2)]);
+        expect(numts.reduce(m, 'a b -> a', 'max').to_nested_array()).toEqual([BigInt(5), BigInt(4)]);
+    });
+
+    test('statistics.', function () {
+        const b = numts.from_nested_array([3, -7, 12], 'int64');
+        expect(b.mean()).toBeCloseTo(8 / 3);
+        expect(numts.from_nested_array([[1, 5], [4, 2]], 'int64').mean(0).to_nested_array()).toEqual([2.5, 3.5]);
+        expect(numts.reduce(numts.from_nested_array([[1, 5], [4, 2]], 'int64'), 'a b -> a', 'mean').to_nested_array()).toEqual([3, 3]);
+        expect(b.stdev()).toBeCloseTo(numts.from_nested_array([3, -7, 12]).stdev());
+    });
+
+    test('element-wise operations.', function () {
+        const b = numts.from_nested_array([3, -7, 12], 'int64');
+        expect(b.power(2).to_nested_array()).toEqual([BigInt(9), BigInt(49), BigInt(144)]);
+        expect(b.clip(0, 10.5).to_nested_array()).toEqual([BigInt(3), BigInt(0), BigInt(10)]);
+        expect(b.cumprod().to_nested_array()).toEqual([BigInt(3), BigInt(-21), BigInt(-252)]);
+        expect(b.cumsum(0, 'float64').to_nested_array()).toEqual([3, -4, 8]);
+    });
+
+    test('products.', function () {
+        expect(a.dot(numts.from_nested_array([1, 2, 1], 'int64'))).toBe(big - BigInt(3));
+        expect(a.dot(numts.ones([3]))).toBe(Number(big) + 2);
+        const m = numts.from_nested_array([[1, 2], [3, 4]], 'int64');
+        expect(numts.tensor.matmul_2d(m, m).to_nested_array()).toEqual([[7, 10], [15, 22]].map(r => r.map(BigInt)));
+        expect(binary_ops.broadcast_matmul(m.reshape(1, 2, 2), m).to_nested_array()).toEqual([[[7, 10], [15, 22]].map(r => r.map(BigInt))]);
+        expect(numts.einsum('ij,jk', m, m).to_nested_array()).toEqual([[7, 10], [15, 22]].map(r => r.map(BigInt)));
+        expect(numts.inner(m, m).to_nested_array()).toEqual([[5, 11], [11, 25]].map(r => r.map(BigInt)));
+        expect(numts.outer(a, numts.from_nested_array([2], 'int64')).to_nested_array()).toEqual([[big * BigInt(2)], [BigInt(-10)], [BigInt(14)]]);
+        expect(numts.kron(m.slice(0), m.slice(1)).to_nested_array()).toEqual([3, 4, 6, 8].map(BigInt));
+        expect(numts.cross(m.slice(0), m.slice(1))).toBe(BigInt(-2));
+    });
+
+    test('products are exact above 2^53.', function () {
+        const odd = BigInt(2) ** BigInt(53) + BigInt(1);
+        const m = numts.from_nested_array([[odd, 1], [0, 1]], 'int64');
+        const column = numts.from_nested_array([[1], [1]], 'int64');
+        expect(numts.einsum('i,i->', m.slice(0), m.slice(1).add(1)).to_nested_array()).toEqual([odd + BigInt(2)]);
+        expect(numts.einsum('ij,jk->ik', m, column).to_nested_array()).toEqual([[odd + BigInt(1)], [BigInt(1)]]);
+        expect(numts.tensor.matmul_2d(m, column).to_nested_array()).toEqual([[odd + BigInt(1)], [BigInt(1)]]);
+        expect(numts.tensor.matmul_2d(m, numts.from_nested_array([[1], [1]], 'int32')).to_nested_array()).toEqual([[odd + BigInt(1)], [BigInt(1)]]);
+        expect(binary_ops.broadcast_matmul(m.reshape(1, 2, 2), column).to_nested_array()).toEqual([[[odd + BigInt(1)], [BigInt(1)]]]);
+        expect(binary_ops.tensordot(m, column, 1).to_nested_array()).toEqual([[odd + BigInt(1)], [BigInt(1)]]);
+        expect(numts.inner(m, numts.from_nested_array([[1, 1]], 'int64')).to_nested_array()).toEqual([[odd + BigInt(1)], [BigInt(1)]]);
+        const cross = numts.cross(numts.from_nested_array([odd, 0, 0], 'int64'), numts.from_nested_array([1, 1, 0], 'int64'));
+        expect(cross.to_nested_array()).toEqual([BigInt(0), BigInt(0), odd]);
+        const uint = numts.from_nested_array([[BigInt(2) ** BigInt(63) + BigInt(1)]], 'uint64');
+        expect(numts.tensor.matmul_2d(uint, numts.from_nested_array([[1]], 'uint64')).to_nested_array()).toEqual([[BigInt(2) ** BigInt(63) + BigInt(1)]]);
+        expect(binary_ops.tensordot(uint, numts.from_nested_array([[1]], 'uint32'), 1).to_nested_array()).toEqual([[BigInt(2) ** BigInt(63) + BigInt(1)]]);
+    });
+
+    test('linalg and fft.', function () {
+        expect(numts.linalg.det(numts.from_nested_array([[1, 2], [3, 4]], 'int64'))).toBeCloseTo(-2);
+        expect(numts.linalg.norm(numts.from_nested_array([3, 4], 'int64'))).toBeCloseTo(5);
+        const [re, im] = numts.fft.fft(numts.from_nested_array([1, 2], 'int64'));
+        expect(re.to_nested_array()).toEqual([3, -1]);
+        expect(im.to_nested_array()).toEqual([0, 0]);
+    });
+
+    test('index tensors.', function () {
+        expect(a.index([numts.from_nested_array([2, 0], 'int64')]).to_nested_array()).toEqual([BigInt(7), big]);
+        expect(a.take(numts.from_nested_array([-1], 'uint64').as_type('int64')).to_nested_array()).toEqual([BigInt(7)]);
+    });
+
+    test('nonzero.', function () {
+        expect(numts.from_nested_array([0, 3, 0], 'int64').nonzero()).toEqual([new Uint32Array([1])]);
+    });
+
+    test('NaN and infinities become 0.', function () {
+        const b = numts.from_nested_array([NaN, Infinity, -Infinity, 2.7], 'float64');
+        expect(b.as_type('int64').to_nested_array()).toEqual([0, 0, 0, 2].map(BigInt));
+        expect(b.as_type('int32').to_nested_array()).toEqual([0, 0, 0, 2]);
+    });
+});
+
+describe('Half precision.', function () {
+    const a = numts.from_nested_array([1, 0.1, -2.5], 'float16');
+
+    test('storage.', function () {
+        expect(a.data).toEqual(new Uint16Array([0x3c00, 0x2e66, 0xc100]));
+        expect(a.to_nested_array()).toEqual([1, 0.0999755859375, -2.5]);
+        expect(numts.from_nested_array([1, 0.1], 'bfloat16').data).toEqual(new Uint16Array([0x3f80, 0x3dcd]));
+    });
+
+    test('arithmetic keeps half precision.', function () {
+        const b = a.add(a);
+        expect(b.dtype).toBe('float16');
+        expect(b.dtype).toBe(numts.result_type(a, a));
+        expect(b.to_nested_array()).toEqual([2, 0.199951171875, -5]);
+        expect(a.add(numts.from_nested_array([1, 1, 1], 'int8')).dtype).toBe('float16');
+        expect(a.add(0.1).to_nested_array()).toEqual([1.099609375, 0.199951171875, -2.400390625]);
+        expect(a.mult(numts.from_nested_array([2, 2, 2], 'float64')).dtype).toBe('float64');
+        expect(binary_ops._gt(a, 0).to_nested_array()).toEqual([true, true, false]);
+    });
+
+    test('reductions.', function () {
+        expect(a.sum()).toBeCloseTo(-1.4000244140625);
+        expect(numts.ones([2, 2], 'bfloat16').sum(0).to_nested_array()).toEqual([2, 2]);
+    });
+
+    test('as_type.', function () {
+        expect(a.as_type('float32').to_nested_array()).toEqual([1, 0.0999755859375, -2.5]);
+        expect(numts.from_nested_array([0.1], 'float64').as_type('float16').data).toEqual(new Uint16Array([0x2e66]));
+        expect(a.as_type('bfloat16').data).toEqual(new Uint16Array([0x3f80, 0x3dcd, 0xc020]));
+    });
+
+    test('set values.', function () {
+        const b = numts.zeros([3], 'float16');
+        b.s(0.5, 0);
+        b.s(numts.from_nested_array([3, 4], 'int32'), numts.from_nested_array([1, 2], 'int32'));
+        expect(b.to_nested_array()).toEqual([0.5, 3, 4]);
+        expect(b.transpose().map(x => x * 2).to_nested_array()).toEqual([1, 6, 8]);
+    });
+
+    test('take and index.', function () {
+        const b = numts.from_nested_array([1.5, 2.5, -3], 'float16');
+        expect(b.take([2, 0]).dtype).toBe('float16');
+        expect(b.take([2, 0]).to_nested_array()).toEqual([-3, 1.5]);
+        expect(b.index([numts.from_nested_array([1], 'int32')]).to_nested_array()).toEqual([2.5]);
+        expect(numts.from_nested_array([[1.5, 2.5]], 'bfloat16').take([1], 1).to_nested_array()).toEqual([[2.5]]);
+    });
+
+    test('nonzero.', function () {
+        const b = numts.from_nested_array([-0, 0, 0.5], 'float16');
+        expect(b.data[0]).toBe(0x8000);
+        expect(b.nonzero()).toEqual([new Uint32Array([2])]);
+    });
+});
+
+describe('Division semantics.', function () {
+    const a = numts.from_nested_array([-7, 7, -7, 7], 'int32');
+    const b = numts.from_nested_array([2, -2, -2, 2], 'int32');
+
+    test('true division gives floats.', function () {
+        expect(a.div(b).dtype).toBe('float64');
+        expect(a.div(b).to_nested_array()).toEqual([-3.5, -3.5, 3.5, 3.5]);
+        expect(numts.from_nested_array([1, 3], 'float32').div(2).dtype).toBe('float32');
+        expect(() => a.div(b, {dtype: 'int32'})).toThrow(errors.CastingError);
+    });
+
+    test('floor_divide rounds towards negative infinity.', function () {
+        expect(a.floor_divide(b).dtype).toBe('int32');
+        expect(a.floor_divide(b).to_nested_array()).toEqual([-4, -4, 3, 3]);
+        expect(binary_ops._cdiv(a, b).to_nested_array()).toEqual([-3, -3, 4, 4]);
+        const floats = numts.from_nested_array([-7.5, 1], 'float64');
+        expect(floats.floor_divide(numts.from_nested_array([2, 0.1], 'float64')).to_nested_array()).toEqual([-4, 9]);
+    });
+
+    test('mod has the sign of the divisor.', function () {
+        expect(a.mod(b).to_nested_array()).toEqual([1, -1, -1, 1]);
+        expect(numts.from_nested_array([-7.5], 'float64').mod(2).to_nested_array()).toEqual([0.5]);
+        const x = a.floor_divide(b).mult(b).add(a.mod(b));
+        expect(x.to_nested_array()).toEqual(a.to_nested_array());
+    });
+
+    test('integer division by zero gives zero.', function () {
+        const zero = numts.zeros([4], 'int32');
+        expect(a.floor_divide(zero).to_nested_array()).toEqual([0, 0, 0, 0]);
+        expect(a.mod(zero).to_nested_array()).toEqual([0, 0, 0, 0]);
+        expect(numts.from_nested_array([BigInt(5)], 'int64').floor_divide(BigInt(0)).to_nested_array()).toEqual([BigInt(0)]);
+        expect(numts.from_nested_array([1, -1, 0], 'float64').floor_divide(0).to_nested_array()).toEqual([Infinity, -Infinity, NaN]);
+    });
+
+    test('64-bit integers.', function () {
+        const x = numts.from_nested_array([BigInt(-7), BigInt(7)], 'int64');
+        expect(x.floor_divide(BigInt(2)).to_nested_array()).toEqual([BigInt(-4), BigInt(3)]);
+        expect(x.mod(BigInt(-2)).to_nested_array()).toEqual([BigInt(-1), BigInt(-1)]);
+    });
+});
+
+describe('Power.', function () {
+    test('integers stay integers.', function () {
+        const a = numts.from_nested_array([1, 2, 3], 'int32');
+        expect(a.power(2).dtype).toBe('int32');
+        expect(a.power(2).to_nested_array()).toEqual([1, 4, 9]);
+        expect(a.power(numts.from_nested_array([3, 2, 1], 'int32')).to_nested_array()).toEqual([1, 4, 3]);
+    });
+
+    test('float exponents give floats.', function () {
+        const a = numts.from_nested_array([1, 4], 'int32');
+        expect(a.power(0.5).dtype).toBe('float64');
+        expect(a.power(0.5).to_nested_array()).toEqual([1, 2]);
+        expect(numts.from_nested_array([4], 'float32').power(-1).to_nested_array()).toEqual([0.25]);
+    });
+
+    test('64-bit integers.', function () {
+        const a = numts.from_nested_array([BigInt(3), BigInt(-2)], 'int64');
+        expect(a.power(3).to_nested_array()).toEqual([BigInt(27), BigInt(-8)]);
+        expect(a.power(BigInt(39)).to_nested_array()).toEqual([BigInt(3) ** BigInt(39), -(BigInt(2) ** BigInt(39))]);
+    });
+
+    test('negative integer powers.', function () {
+        expect(() => numts.from_nested_array([2], 'int32').power(-1)).toThrow();
+    });
+});
+
+describe('Integer overflow.', function () {
+    const a = numts.from_nested_array([100, -100, 5], 'int8');
+
+    test('wraps by default.', function () {
+        expect(a.add(100).to_nested_array()).toEqual([-56, 0, 105]);
+    });
+
+    test('saturate.', function () {
+        expect(a.add(100, {overflow: 'saturate'}).to_nested_array()).toEqual([127, 0, 105]);
+        expect(a.mult(3, {overflow: 'saturate'}).to_nested_array()).toEqual([127, -128, 15]);
+        expect(numts.from_nested_array([1, 5], 'uint8').sub(3, {overflow: 'saturate'}).to_nested_array()).toEqual([0, 2]);
+        const big = numts.from_nested_array([BigInt(2) ** BigInt(62)], 'int64');
+        expect(big.mult(4, {overflow: 'saturate'}).to_nested_array()).toEqual([BigInt(2) ** BigInt(63) - BigInt(1)]);
+    });
+
+    test('error.', function () {
+        expect(() => a.add(100, {overflow: 'error'})).toThrow(errors.IntegerOverflow);
+        expect(a.add(1, {overflow: 'error'}).to_nested_array()).toEqual([101, -99, 6]);
+        expect(() => numts.from_nested_array([1], 'uint64').sub(2, {overflow: 'error'})).toThrow(errors.IntegerOverflow);
+    });
+
+    test('scalars that don\'t fit.', function () {
+        const b = numts.from_nested_array([1, 2], 'int8');
+        expect(() => b.add(1000)).toThrow(errors.IntegerOverflow);
+        expect(() => numts.from_nested_array([1], 'uint8').add(-1)).toThrow(errors.IntegerOverflow);
+        expect(b.add(100).dtype).toBe('int8');
+        expect(b.add(100).to_nested_array()).toEqual([101, 102]);
+        expect(b.eq(1000).to_nested_array()).toEqual([false, false]);
+    });
+
+    test('floats are unaffected.', function () {
+        expect(numts.from_nested_array([1e308], 'float64').mult(10, {overflow: 'error'}).to_nested_array()).toEqual([Infinity]);
+    });
+
+    test('power.', function () {
+        const base = numts.from_nested_array([2, 3], 'int8');
+        expect(base.power(10).dtype).toBe('int8');
+        expect(base.power(10).to_nested_array()).toEqual([0, -87]);
+        expect(base.power(10, {overflow: 'saturate'}).to_nested_array()).toEqual([127, 127]);
+        expect(() => base.power(10, {overflow: 'error'})).toThrow(errors.IntegerOverflow);
+        expect(base.power(2, {overflow: 'error'}).to_nested_array()).toEqual([4, 9]);
+    });
+});
@@ -0,0 +1,276 @@
+const numts = require('../../numts/numts');
+const errors = require('../../numts/tensor').errors;
+const binary_ops = require('../../numts/tensor_core/binary_ops');
+const constructors = require('../../numts/tensor_core/constructors');
+
+const z = numts.complex(numts.from_nested_array([1, 2, -3], 'float64'), numts.from_nested_array([4, -5, 0], 'float64'));
+
+describe('complex.', function () {
+    test('from parts.', function () {
+        expect(z.dtype).toBe('complex128');
+        expect(z.shape).toEqual(new Uint32Array([3]));
+        expect(z.data).toEqual(new Float64Array([1, 4, 2, -5, -3, 0]));
+        expect(z.to_nested_array()).toEqual([[1, 4], [2, -5], [-3, 0]]);
+    });
+
+    test('default dtype.', function () {
+        const a = numts.from_nested_array([1, 2], 'float32');
+        expect(numts.complex(a, a).dtype).toBe('complex64');
+        expect(numts.complex(numts.arange(2)).dtype).toBe('complex128');
+        expect(numts.complex(a, a, 'complex128').dtype).toBe('complex128');
+    });
+
+    test('constructors.', function () {
+        expect(numts.zeros([2], 'complex64').data).toEqual(new Float32Array(4));
+        expect(numts.ones([2], 'complex128').to_nested_array()).toEqual([[1, 0], [1, 0]]);
+        expect(numts.from_iterable([1, 2], [2], 'complex128').to_nested_array()).toEqual([[1, 0], [2, 0]]);
+    });
+
+    test('views.', function () {
+        const m = numts.complex(numts.arange(6).reshape(2, 3), numts.arange(6, 12).reshape(2, 3));
+        expect(m.transpose().to_nested_array()).toEqual([[[0, 6], [3, 9]], [[1, 7], [4, 10]], [[2, 8], [5, 11]]]);
+        expect(m.slice(1, [null, null, -1]).to_nested_array()).toEqual([[5, 11], [4, 10], [3, 9]]);
+        expect(m.reshape(3, 2).to_nested_array()).toEqual([[[0, 6], [1, 7]], [[2, 8], [3, 9]], [[4, 10], [5, 11]]]);
+    });
+
+    test('equals compares imaginary parts.', function () {
+        expect(z.equals(z.conj())).toBe(false);
+        expect(z.equals(z.conj().conj())).toBe(true);
+    });
+
+    test('as_type.', function () {
+        expect(z.as_type('float64').to_nested_array()).toEqual([1, 2, -3]);
+        expect(numts.arange(2).as_type('complex64').to_nested_array()).toEqual([[0, 0], [1, 0]]);
+        expect(z.as_type('complex64').dtype).toBe('complex64');
+    });
+
+    test('mismatched parts.', function () {
+        expect(() => numts.complex(numts.arange(2), numts.arange(3))).toThrow(errors.MismatchedShapes);
+    });
+
+    test('not a complex dtype.', function () {
+        expect(() => numts.complex(numts.arange(2), numts.arange(2), 'float64')).toThrow();
+    });
+});
+
+describe('accessors.', function () {
+    test('real and imag.', function () {
+        expect(z.real().dtype).toBe('float64');
+        expect(z.real().to_nested_array()).toEqual([1, 2, -3]);
+        expect(numts.imag(z).to_nested_array()).toEqual([4, -5, 0]);
+        expect(numts.complex(numts.arange(2), numts.arange(2), 'complex64').imag().dtype).toBe('float32');
+    });
+
+    test('real and imag are views.', function () {
+        const w = numts.complex(numts.arange(3), numts.arange(3));
+        w.imag().s(10, 1);
+        expect(w.to_nested_array()).toEqual([[0, 0], [1, 10], [2, 2]]);
+    });
+
+    test('real input.', function () {
+        const a = numts.arange(3);
+        expect(numts.real(a)).toBe(a);
+        expect(numts.imag(a).to_nested_array()).toEqual([0, 0, 0]);
+        expect(numts.conj(a)).toBe(a);
+    });
+
+    test('conj.', function () {
+        expect(z.conj().to_nested_array()).toEqual([[1, -4], [2, 5], [-3, -0]]);
+    });
+
+    test('abs.', function () {
+        const w = numts.complex(numts.from_nested_array([3, 0], 'float32'), numts.from_nested_array([4, -2], 'float32'));
+        const magnitude = w.abs();
+        expect(magnitude.dtype).toBe('float32');
+        expect(magnitude.to_nested_array()).toEqual([5, 2]);
+        expect(numts.abs(numts.from_nested_array([-1, 2], 'int32')).to_nested_array()).toEqual([1, 2]);
+    });
+
+    test('angle.', function () {
+        const angles = z.angle().to_nested_array();
+        expect(angles[0]).toBeCloseTo(Math.atan2(4, 1));
+        expect(angles[1]).toBeCloseTo(Math.atan2(-5, 2));
+        expect(angles[2]).toBeCloseTo(Math.PI);
+        expect(numts.angle(numts.from_nested_array([-1, 1], 'int32')).to_nested_array()).toEqual([Math.PI, 0]);
+    });
+});
+
+describe('complex arithmetic.', function () {
+    const w = numts.complex(numts.from_nested_array([0, 1, 2], 'float64'), numts.from_nested_array([1, 1, -1], 'float64'));
+
+    test('add and sub.', function () {
+        expect(z.add(w).to_nested_array()).toEqual([[1, 5], [3, -4], [-1, -1]]);
+        expect(z.sub(w).to_nested_array()).toEqual([[1, 3], [1, -6], [-5, 1]]);
+    });
+
+    test('mult.', function () {
+        expect(z.mult(w).to_nested_array()).toEqual([[-4, 1], [7, -3], [-6, 3]]);
+    });
+
+    test('div.', function () {
+        const quotient = z.mult(w).div(w);
+        expect(quotient.real().is_close(z.real()).all()).toBe(true);
+        expect(quotient.imag().is_close(z.imag()).all()).toBe(true);
+    });
+
+    test('real operands.', function () {
+        expect(z.mult(2).to_nested_array()).toEqual([[2, 8], [4, -10], [-6, 0]]);
+        expect(numts.arange(3).add(z).to_nested_array()).toEqual([[1, 4], [3, -5], [-1, 0]]);
+    });
+
+    test('broadcasting.', function () {
+        const m = numts.complex(numts.arange(6).reshape(2, 3), numts.ones([2, 3]));
+        expect(m.add(w).to_nested_array()).toEqual([[[0, 2], [2, 2], [4, 0]], [[3, 2], [5, 2], [7, 0]]]);
+    });
+
+    test('promotion.', function () {
+        const small = numts.complex(numts.from_nested_array([1], 'float32'));
+        expect(small.add(numts.from_nested_array([1], 'int16')).dtype).toBe('complex64');
+        expect(small.add(numts.from_nested_array([1], 'float64')).dtype).toBe('complex128');
+    });
+});
+
+describe('complex aggregation.', function () {
+    const v = numts.complex(numts.from_nested_array([1, 2, 3], 'float64'), numts.from_nested_array([4, 5, 6], 'float64'));
+    const m = numts.complex(numts.arange(6).reshape(2, 3), numts.ones([2, 3]));
+
+    test('sum.', function () {
+        expect(v.sum()).toEqual([6, 15]);
+        expect(m.sum(0).to_nested_array()).toEqual([[3, 2], [5, 2], [7, 2]]);
+    });
+
+    test('mean.', function () {
+        expect(v.mean()).toEqual([2, 5]);
+        expect(m.mean(1).to_nested_array()).toEqual([[1, 1], [4, 1]]);
+    });
+
+    test('cumsum.', function () {
+        expect(v.cumsum().to_nested_array()).toEqual([[1, 4], [3, 9], [6, 15]]);
+        expect(m.cumsum(0).to_nested_array()).toEqual([[[0, 1], [1, 1], [2, 1]], [[3, 2], [5, 2], [7, 2]]]);
+    });
+
+    test('rearrange and reduce.', function () {
+        expect(numts.rearrange(m, 'a b -> b a').equals(m.transpose())).toBe(true);
+        expect(numts.reduce(m, 'a b -> b', 'sum').equals(m.sum(0))).toBe(true);
+    });
+
+    test('ordering reductions throw.', function () {
+        expect(() => v.max()).toThrow('max does not support complex tensors.');
+        expect(() => v.min()).toThrow('min does not support complex tensors.');
+        expect(() => v.argmax()).toThrow('argmax does not support complex tensors.');
+        expect(() => v.argmin()).toThrow('argmin does not support complex tensors.');
+        expect(() => numts.reduce(m, 'a b -> b', 'max')).toThrow();
+    });
+
+    test('other unsupported operations throw.', function () {
+        expect(() => v.cumprod()).toThrow('cumprod does not support complex tensors.');
+        expect(() => v.clip(0, 1)).toThrow('clip does not support complex tensors.');
+        expect(() => v.stdev()).toThrow('stdev does not support complex tensors.');
+        expect(() => v.map(x => x)).toThrow('map does not support complex tensors.');
+        expect(() => v.logical_and(v)).toThrow('This operation does not support complex tensors.');
+    });
+});
+
+describe('complex elements.', function () {
+    const v = numts.complex(numts.from_nested_array([1, 2, 3], 'float64'), numts.from_nested_array([4, 5, 6], 'float64'));
+
+    test('g.', function () {
+        expect(v.g(1)).toEqual([2, 5]);
+        expect(v.g(-1)).toEqual([3, 6]);
+    });
+
+    test('take and index.', function () {
+        expect(v.take([2, 0]).to_nested_array()).toEqual([[3, 6], [1, 4]]);
+        expect(v.index([numts.from_nested_array([1], 'int32')]).to_nested_array()).toEqual([[2, 5]]);
+    });
+
+    test('mask.', function () {
+        const condition = numts.from_nested_array([1, 0, 1], 'bool');
+        expect(v.mask(condition).to_nested_array()).toEqual([[1, 4], [3, 6]]);
+    });
+
+    test('set.', function () {
+        const w = numts.tensor.copy(v);
+        w.s(7, 0);
+        w.s(v.slice([0, 1]), numts.from_nested_array([2], 'int32'));
+        expect(w.to_nested_array()).toEqual([[7, 0], [2, 5], [1, 4]]);
+        w.s(v.slice([1, 3]), [0, 2]);
+        expect(w.to_nested_array()).toEqual([[2, 5], [3, 6], [1, 4]]);
+        w.put_mask(numts.from_nested_array([0, 0, 1], 'bool'), v);
+        expect(w.to_nested_array()).toEqual([[2, 5], [3, 6], [3, 6]]);
+    });
+
+    test('flatten and neg.', function () {
+        const m = numts.complex(numts.arange(4).reshape(2, 2), numts.arange(4, 8).reshape(2, 2)).transpose();
+        expect(m.flatten().to_nested_array()).toEqual([[0, 4], [2, 6], [1, 5], [3, 7]]);
+        expect(v.neg().to_nested_array()).toEqual([[-1, -4], [-2, -5], [-3, -6]]);
+    });
+
+    test('where.', function () {
+        const condition = numts.from_nested_array([1, 0, 1], 'bool');
+        const result = constructors.where(condition, numts.zeros([3]), v);
+        expect(result.dtype).toBe('complex128');
+        expect(result.to_nested_array()).toEqual([[0, 0], [2, 5], [0, 0]]);
+    });
+});
+
+describe('complex operations.', function () {
+    const v = numts.complex(numts.from_nested_array([1, 2, 3], 'float64'), numts.from_nested_array([4, 5, 6], 'float64'));
+
+    test('power.', function () {
+        const [re, im] = v.power(2).g(0);
+        expect(re).toBeCloseTo(-15);
+        expect(im).toBeCloseTo(8);
+        expect(v.power(0).to_nested_array()).toEqual([[1, 0], [1, 0], [1, 0]]);
+    });
+
+    test('comparisons.', function () {
+        expect(v.eq(v).to_nested_array()).toEqual([true, true, true]);
+        expect(v.eq(v.conj()).to_nested_array()).toEqual([false, false, false]);
+        expect(v.eq(v.real()).to_nested_array()).toEqual([false, false, false]);
+        expect(v.is_close(v.add(1e-10)).to_nested_array()).toEqual([true, true, true]);
+        expect(numts.complex(numts.from_nested_array([0, 1], 'float64')).logical_not().to_nested_array()).toEqual([true, false]);
+    });
+
+    test('64-bit integer operands.', function () {
+        expect(v.add(numts.from_nested_array([1, 2, 3], 'int64')).to_nested_array()).toEqual([[2, 4], [4, 5], [6, 6]]);
+    });
+
+    test('dot.', function () {
+        expect(v.dot(v)).toEqual([-63, 64]);
+        expect(v.dot(numts.ones([3]))).toEqual([6, 15]);
+    });
+
+    test('matrix products.', function () {
+        const a = numts.complex(numts.from_nested_array([[1, 2], [3, 4]], 'float64'), numts.from_nested_array([[1, 0], [0, 1]], 'float64'));
+        const b = numts.from_nested_array([[1, 0], [1, 1]], 'float64');
+        const expected = [[[3, 1], [2, 0]], [[7, 1], [4, 1]]];
+        expect(numts.tensor.matmul_2d(a, b).to_nested_array()).toEqual(expected);
+        expect(numts.tensor.matmul_2d(a.as_type('complex64'), b).dtype).toBe('complex128');
+        expect(binary_ops.broadcast_matmul(a.reshape(1, 2, 2), b.reshape(1, 2, 2)).to_nested_array()).toEqual([expected]);
+    });
+
+    test('outer and kron.', function () {
+        const w = v.slice([0, 2]);
+        const expected = [[[0, 0], [1, 4]], [[0, 0], [2, 5]]];
+        expect(numts.outer(w, numts.arange(2)).to_nested_array()).toEqual(expected);
+        expect(numts.kron(w.reshape(2, 1), numts.arange(2).reshape(1, 2)).to_nested_array()).toEqual(expected);
+        expect(numts.inner(w, w)).toEqual([-36, 28]);
+        expect(numts.cross(w, numts.from_nested_array([1, 0], 'float64'))).toEqual([-2, -5]);
+    });
+
+    test('fft.', function () {
+        const [re, im] = numts.fft.fft(v);
+        const [pair_re, pair_im] = numts.fft.fft([v.real(), v.imag()]);
+        expect(re.equals(pair_re)).toBe(true);
+        expect(im.equals(pair_im)).toBe(true);
+        expect(() => numts.fft.rfft(v)).toThrow('rfft does not support complex tensors.');
+    });
+
+    test('einsum and linalg throw.', function () {
+        const a = numts.complex(numts.eye(2));
+        expect(() => numts.einsum('ij,jk', a, a)).toThrow('einsum does not support complex tensors.');
+        expect(() => numts.linalg.det(a)).toThrow('det does not support complex tensors.');
+        expect(() => numts.linalg.norm(a)).toThrow('norm does not support complex tensors.');
+    });
+});
@@ -60,7 +60,7 @@ describe("from_nested_array.", function () {
     test('Simple.', function() {
         const nested = constructors.from_nested_array([[0, 1], [2, 3]]);
         expect(nested.shape).toEqual(new Uint32Array([2, 2]));
-        expect(nested.data).toEqual(new Float64Array([0, 2, 1, 3]))
+        expect(nested.data).toEqual(new Float64Array([0, 1, 2, 3]))
     });
 
     it("hand array.", function () {
@@ -108,7 +108,7 @@ describe('from_iterable.', function() {
         const array = [1, 2, 3, 4];
         const a = constructors.from_iterable(array, [2, 2]);
         expect(a.shape).toEqual(new Uint32Array([2, 2]));
-        expect(a.data).toEqual(new Float64Array([1, 3, 2, 4]))
+        expect(a.data).toEqual(new Float64Array([1, 2, 3, 4]))
     });
 });
 
@@ -0,0 +1,104 @@
+const numts = require('../../numts/numts');
+const errors = require('../../numts/tensor').errors;
+
+describe('result_type.', function () {
+    test('dtypes.', function () {
+        expect(numts.result_type('int8', 'uint8')).toBe('int16');
+        expect(numts.result_type('int32', 'uint32', 'float32')).toBe('float64');
+        expect(numts.result_type('bool', 'complex64')).toBe('complex64');
+    });
+
+    test('tensors.', function () {
+        expect(numts.result_type(numts.arange(3), numts.zeros([2], 'float32'))).toBe('float64');
+        expect(numts.result_type(numts.zeros([2], 'uint16'), 'int8')).toBe('int32');
+    });
+
+    test('scalars are weak.', function () {
+        expect(numts.result_type(numts.zeros([2], 'int8'), 1000)).toBe('int8');
+        expect(numts.result_type(numts.zeros([2], 'int8'), 0.5)).toBe('float64');
+        expect(numts.result_type(numts.zeros([2], 'float32'), 0.5)).toBe('float32');
+        expect(numts.result_type(numts.zeros([2], 'complex64'), 0.5)).toBe('complex64');
+        expect(numts.result_type(numts.zeros([2], 'bool'), 1)).toBe('int32');
+        expect(numts.result_type(1, 2)).toBe('float64');
+    });
+});
+
+describe('can_cast.', function () {
+    test('safe.', function () {
+        expect(numts.can_cast('int8', 'int16')).toBe(true);
+        expect(numts.can_cast('int16', 'float32')).toBe(true);
+        expect(numts.can_cast('int32', 'float32')).toBe(false);
+        expect(numts.can_cast('uint8', 'int8')).toBe(false);
+        expect(numts.can_cast(numts.arange(3), 'int64')).toBe(true);
+    });
+
+    test('same_kind.', function () {
+        expect(numts.can_cast('float64', 'float32', 'same_kind')).toBe(true);
+        expect(numts.can_cast('int64', 'int8', 'same_kind')).toBe(true);
+        expect(numts.can_cast('uint64', 'int8', 'same_kind')).toBe(true);
+        expect(numts.can_cast('int8', 'uint64', 'same_kind')).toBe(false);
+        expect(numts.can_cast('float32', 'int64', 'same_kind')).toBe(false);
+        expect(numts.can_cast('complex64', 'float64', 'same_kind')).toBe(false);
+    });
+
+    test('unsafe.', function () {
+        expect(numts.can_cast('complex128', 'bool', 'unsafe')).toBe(true);
+    });
+});
+
+describe('Weak scalars in operations.', function () {
+    test('integer scalars keep the dtype.', function () {
+        const a = numts.from_nested_array([1, 2, 3], 'int32');
+        expect(a.add(1).dtype).toBe('int32');
+        expect(a.mult(2).to_nested_array()).toEqual([2, 4, 6]);
+        expect(numts.from_nested_array([1, 2], 'uint8').sub(1).dtype).toBe('uint8');
+    });
+
+    test('float scalars.', function () {
+        const a = numts.from_nested_array([1, 2, 3], 'int32');
+        expect(a.add(0.5).dtype).toBe('float64');
+        expect(a.add(0.5).to_nested_array()).toEqual([1.5, 2.5, 3.5]);
+        expect(numts.from_nested_array([1, 2], 'float32').mult(0.5).dtype).toBe('float32');
+    });
+
+    test('64-bit integers.', function () {
+        const a = numts.from_nested_array([BigInt(2) ** BigInt(60), BigInt(1)], 'int64');
+        expect(a.add(1).dtype).toBe('int64');
+        expect(a.add(1).g(0)).toBe(BigInt(2) ** BigInt(60) + BigInt(1));
+        expect(a.add(BigInt(2)).g(1)).toBe(BigInt(3));
+    });
+});
+
+describe('casting.', function () {
+    const a = numts.from_nested_array([1, 2, 3], 'int32');
+    const b = numts.from_nested_array([0.5, 0.5, 0.5], 'float64');
+
+    test('dtype option.', function () {
+        const c = a.add(a, {dtype: 'float32'});
+        expect(c.dtype).toBe('float32');
+        expect(c.to_nested_array()).toEqual([2, 4, 6]);
+        expect(a.add(b, {dtype: 'float32'}).dtype).toBe('float32');
+    });
+
+    test('same_kind is the default.', function () {
+        expect(() => a.add(b, {dtype: 'int32'})).toThrow(errors.CastingError);
+        expect(a.add(b, {dtype: 'int32', casting: 'unsafe'}).to_nested_array()).toEqual([1, 2, 3]);
+    });
+
+    test('safe.', function () {
+        expect(() => a.mult(a, {dtype: 'int16', casting: 'safe'})).toThrow(errors.CastingError);
+        expect(a.mult(a, {dtype: 'int64', casting: 'safe'}).to_nested_array()).toEqual([BigInt(1), BigInt(4), BigInt(9)]);
+    });
+
+    test('complex results.', function () {
+        const z = numts.complex(b, b);
+        expect(() => z.add(b, {dtype: 'float64'})).toThrow(errors.CastingError);
+        expect(z.add(b, {dtype: 'float64', casting: 'unsafe'}).to_nested_array()).toEqual([1, 1, 1]);
+    });
+
+    test('as_type.', function () {
+        expect(() => b.as_type('int32', 'safe')).toThrow(errors.CastingError);
+        expect(b.as_type('float32', 'same_kind').dtype).toBe('float32');
+        expect(b.as_type('int32').to_nested_array()).toEqual([0, 0, 0]);
+    });
+});
@@ -0,0 +1,217 @@
+const numts = require('../../numts/numts');
+const einstein = require('../../numts/tensor_core/einstein');
+const binary_ops = require('../../numts/tensor_core/binary_ops');
+const errors = require('../../numts/tensor').errors;
+
+describe('einsum.', function () {
+    const a = numts.arange(6).reshape(2, 3);
+    const b = numts.arange(12).reshape(3, 4);
+
+    test('matrix multiplication.', function () {
+        const c = einstein.einsum('ij,jk->ik', a, b);
+        const expected = binary_ops.broadcast_matmul(a, b);
+        expect(c.to_nested_array()).toEqual(expected.to_nested_array());
+    });
+
+    test('implicit output.', function () {
+        const c = einstein.einsum('ij,jk', a, b);
+        expect(c.shape).toEqual(new Uint32Array([2, 4]));
+        expect(c.equals(einstein.einsum('ij,jk->ik', a, b))).toBe(true);
+    });
+
+    test('implicit transpose.', function () {
+        const c = einstein.einsum('ji', a);
+        expect(c.to_nested_array()).toEqual([[0, 3], [1, 4], [2, 5]]);
+    });
+
+    test('trace.', function () {
+        const m = numts.arange(9).reshape(3, 3);
+        const c = einstein.einsum('ii', m);
+        expect(c.shape).toEqual(new Uint32Array([1]));
+        expect(c.g(0)).toBe(12);
+    });
+
+    test('diagonal.', function () {
+        const m = numts.arange(9).reshape(3, 3);
+        const c = einstein.einsum('ii->i', m);
+        expect(c.to_nested_array()).toEqual([0, 4, 8]);
+    });
+
+    test('sum over axis.', function () {
+        const c = einstein.einsum('ij->j', a);
+        expect(c.to_nested_array()).toEqual([3, 5, 7]);
+    });
+
+    test('outer product.', function () {
+        const x = numts.arange(1, 3);
+        const y = numts.arange(1, 4);
+        const c = einstein.einsum('i,j->ij', x, y);
+        expect(c.to_nested_array()).toEqual([[1, 2, 3], [2, 4, 6]]);
+    });
+
+    test('ellipsis broadcasting.', function () {
+        const x = numts.arange(24).reshape(2, 3, 4);
+        const y = numts.arange(16).reshape(4, 4);
+        const c = einstein.einsum('...ij,jk->...ik', x, y);
+        expect(c.equals(binary_ops.broadcast_matmul(x, y))).toBe(true);
+    });
+
+    test('ellipsis with size one dimension.', function () {
+        const x = numts.arange(6).reshape(1, 2, 3);
+        const y = numts.arange(12).reshape(2, 2, 3);
+        const c = einstein.einsum('...i,...i->...', x, y);
+        expect(c.to_nested_array()).toEqual([[5, 50], [23, 122]]);
+    });
+
+    test('three operands.', function () {
+        const c = numts.arange(8).reshape(4, 2);
+        const result = einstein.einsum('ij,jk,kl->il', a, b, c);
+        const expected = binary_ops.broadcast_matmul(binary_ops.broadcast_matmul(a, b), c);
+        expect(result.to_nested_array()).toEqual(expected.to_nested_array());
+    });
+
+    describe('Failures.', function () {
+        test('wrong number of operands.', function () {
+            expect(() => einstein.einsum('ij,jk', a)).toThrow();
+        });
+
+        test('mismatched sizes.', function () {
+            expect(() => einstein.einsum('ij,jk', a, a)).toThrow(errors.MismatchedShapes);
+        });
+
+        test('size one labels do not broadcast.', function () {
+            expect(() => einstein.einsum('ij,jk', numts.ones([2, 1]), b)).toThrow(errors.MismatchedShapes);
+        });
+
+        test('unknown output label.', function () {
+            expect(() => einstein.einsum('ij->k', a)).toThrow();
+        });
+    });
+});
+
+describe('rearrange.', function () {
+    const t = numts.arange(24).reshape(2, 3, 4);
+
+    test('transpose.', function () {
+        const r = einstein.rearrange(t, 'a b c -> c a b');
+        expect(r.shape).toEqual(new Uint32Array([4, 2, 3]));
+        expect(r.g(3, 1, 2)).toBe(t.g(1, 2, 3));
+    });
+
+    test('merge axes.', function () {
+        const r = einstein.rearrange(t, 'a b c -> (a b) c');
+        expect(r.equals(numts.arange(24).reshape(6, 4))).toBe(true);
+    });
+
+    test('split and reorder.', function () {
+        const x = numts.arange(16).reshape(1, 8, 2);
+        const r = einstein.rearrange(x, 'b (h w) c -> b c h w', {h: 4});
+        expect(r.shape).toEqual(new Uint32Array([1, 2, 4, 2]));
+        expect(r.g(0, 1, 2, 1)).toBe(x.g(0, 5, 1));
+    });
+
+    test('ellipsis.', function () {
+        const r = einstein.rearrange(t, '... c -> c ...');
+        expect(r.shape).toEqual(new Uint32Array([4, 2, 3]));
+        expect(r.g(2, 1, 0)).toBe(t.g(1, 0, 2));
+    });
+
+    test('unit axes.', function () {
+        const r = einstein.rearrange(t, 'a b c -> a 1 b () c');
+        expect(r.shape).toEqual(new Uint32Array([2, 1, 3, 1, 4]));
+    });
+
+    test('on a slice.', function () {
+        const s = t.slice(1);
+        const r = einstein.rearrange(s, 'b c -> c b');
+        expect(r.to_nested_array()).toEqual([[12, 16, 20], [13, 17, 21], [14, 18, 22], [15, 19, 23]]);
+    });
+
+    describe('Failures.', function () {
+        test('cannot infer sizes.', function () {
+            expect(() => einstein.rearrange(t, 'a b (c d) -> a b c d')).toThrow(/Could not infer/);
+        });
+
+        test('size does not divide.', function () {
+            expect(() => einstein.rearrange(t, 'a b (c d) -> a b c d', {c: 3})).toThrow(/not divisible/);
+        });
+
+        test('axis missing from one side.', function () {
+            expect(() => einstein.rearrange(t, 'a b c -> a b')).toThrow();
+        });
+
+        test('wrong number of axes.', function () {
+            expect(() => einstein.rearrange(t, 'a b -> b a')).toThrow(errors.BadShape);
+        });
+    });
+});
+
+describe('reduce.', function () {
+    const t = numts.arange(16).reshape(4, 4);
+
+    test('sum.', function () {
+        const r = einstein.reduce(t, 'h w -> w', 'sum');
+        expect(r.to_nested_array()).toEqual([24, 28, 32, 36]);
+    });
+
+    test('mean.', function () {
+        const r = einstein.reduce(t, 'h w -> h', 'mean');
+        expect(r.dtype).toBe('float64');
+        expect(r.to_nested_array()).toEqual([1.5, 5.5, 9.5, 13.5]);
+    });
+
+    test('max pooling.', function () {
+        const r = einstein.reduce(t, '(h h2) (w w2) -> h w', 'max', {h2: 2, w2: 2});
+        expect(r.to_nested_array()).toEqual([[5, 7], [13, 15]]);
+    });
+
+    test('min to scalar.', function () {
+        const r = einstein.reduce(t, 'h w ->', 'min');
+        expect(r.shape).toEqual(new Uint32Array([1]));
+        expect(r.g(0)).toBe(0);
+    });
+
+    test('unknown reduction.', function () {
+        expect(() => einstein.reduce(t, 'h w -> h', 'median')).toThrow(/Unknown reduction/);
+    });
+
+    test('empty axis.', function () {
+        const empty = numts.zeros([0, 3]);
+        expect(einstein.reduce(empty, 'a b -> b', 'sum').to_nested_array()).toEqual([0, 0, 0]);
+        expect(einstein.reduce(empty, 'a b -> b', 'prod').to_nested_array()).toEqual([1, 1, 1]);
+        expect(einstein.reduce(empty, 'a b -> b', 'mean').to_nested_array()).toEqual([NaN, NaN, NaN]);
+        expect(einstein.reduce(numts.zeros([0, 3], 'int64'), 'a b -> b', 'sum').to_nested_array()).toEqual([0, 0, 0].map(BigInt));
+        expect(() => einstein.reduce(empty, 'a b -> b', 'max')).toThrow(errors.BadShape);
+        expect(() => einstein.reduce(empty, 'a b -> b', 'min')).toThrow(errors.BadShape);
+        expect(einstein.reduce(empty, 'a b -> a', 'max').shape).toEqual(new Uint32Array([0]));
+    });
+});
+
+describe('repeat.', function () {
+    const t = numts.arange(4).reshape(2, 2);
+
+    test('new axis.', function () {
+        const r = einstein.repeat(t, 'h w -> h w c', {c: 3});
+        expect(r.shape).toEqual(new Uint32Array([2, 2, 3]));
+        expect(r.to_nested_array()[1][0]).toEqual([2, 2, 2]);
+    });
+
+    test('repeat within an axis.', function () {
+        const r = einstein.repeat(t, 'h w -> h (w r)', {r: 2});
+        expect(r.to_nested_array()).toEqual([[0, 0, 1, 1], [2, 2, 3, 3]]);
+    });
+
+    test('tile.', function () {
+        const r = einstein.repeat(t, 'h w -> (r h) w', {r: 2});
+        expect(r.to_nested_array()).toEqual([[0, 1], [2, 3], [0, 1], [2, 3]]);
+    });
+
+    test('anonymous axis.', function () {
+        const r = einstein.repeat(t, 'h w -> 2 h w');
+        expect(r.shape).toEqual(new Uint32Array([2, 2, 2]));
+    });
+
+    test('missing size.', function () {
+        expect(() => einstein.repeat(t, 'h w -> h w c')).toThrow(/Could not infer size of axis c/);
+    });
+});
@@ -0,0 +1,172 @@
+const numts = require('../../numts/numts');
+const fft = numts.fft;
+const errors = require('../../numts/tensor').errors;
+
+const close = (a, b) => a.is_close(b, 1e-7, 1e-9).all();
+
+/**
+ * Direct O(n^2) DFT of a list of complex values, for checking the fast transforms.
+ */
+function naive_dft(re, im) {
+    const n = re.length;
+    const out_re = [];
+    const out_im = [];
+    for (let k = 0; k < n; k++) {
+        let sum_re = 0;
+        let sum_im = 0;
+        for (let t = 0; t < n; t++) {
+            const angle = -2 * Math.PI * k * t / n;
+            sum_re += re[t] * Math.cos(angle) - im[t] * Math.sin(angle);
+            sum_im += re[t] * Math.sin(angle) + im[t] * Math.cos(angle);
+        }
+        out_re.push(sum_re);
+        out_im.push(sum_im);
+    }
+    return [numts.from_nested_array(out_re, 'float64'), numts.from_nested_array(out_im, 'float64')];
+}
+
+function signal(n, seed) {
+    return Array.from(new Array(n), (e, i) => Math.sin(seed * i + 1) + Math.cos(i * i / (seed + 1)));
+}
+
+describe('fft.', function () {
+    test('power of two.', function () {
+        const [re, im] = fft.fft(numts.arange(8));
+        expect(re.dtype).toBe('float64');
+        const [expected_re, expected_im] = naive_dft([0, 1, 2, 3, 4, 5, 6, 7], new Array(8).fill(0));
+        expect(close(re, expected_re)).toBe(true);
+        expect(close(im, expected_im)).toBe(true);
+    });
+
+    test('arbitrary lengths.', function () {
+        for (let n of [1, 3, 5, 6, 12, 17, 100]) {
+            const x_re = signal(n, 2);
+            const x_im = signal(n, 3);
+            const [re, im] = fft.fft([numts.from_nested_array(x_re, 'float64'), numts.from_nested_array(x_im, 'float64')]);
+            const [expected_re, expected_im] = naive_dft(x_re, x_im);
+            expect(close(re, expected_re)).toBe(true);
+            expect(close(im, expected_im)).toBe(true);
+        }
+    });
+
+    test('crop and pad.', function () {
+        const a = numts.arange(1, 5);
+        const [padded] = fft.fft(a, 6);
+        expect(padded.shape).toEqual(new Uint32Array([6]));
+        expect(close(padded, naive_dft([1, 2, 3, 4, 0, 0], new Array(6).fill(0))[0])).toBe(true);
+        const [cropped] = fft.fft(a, 3);
+        expect(close(cropped, naive_dft([1, 2, 3], [0, 0, 0])[0])).toBe(true);
+    });
+
+    test('axis.', function () {
+        const a = numts.arange(12).reshape(3, 4);
+        const [re, im] = fft.fft(a, undefined, 0);
+        expect(re.shape).toEqual(new Uint32Array([3, 4]));
+        const [column_re, column_im] = fft.fft(a.slice(null, 2));
+        expect(close(re.slice(null, 2), column_re)).toBe(true);
+        expect(close(im.slice(null, 2), column_im)).toBe(true);
+    });
+
+    test('mismatched pair.', function () {
+        expect(() => fft.fft([numts.arange(4), numts.arange(3)])).toThrow(errors.MismatchedShapes);
+    });
+
+    test('bad axis.', function () {
+        expect(() => fft.fft(numts.arange(4), undefined, 1)).toThrow(errors.BadShape);
+    });
+});
+
+describe('ifft.', function () {
+    test('round trip.', function () {
+        for (let n of [4, 7, 10]) {
+            const x = numts.from_nested_array(signal(n, 5), 'float64');
+            const [re, im] = fft.ifft(fft.fft(x));
+            expect(close(re, x)).toBe(true);
+            expect(close(im, numts.zeros([n]))).toBe(true);
+        }
+    });
+
+    test('stack along first axis.', function () {
+        const x = numts.from_nested_array([signal(6, 1), signal(6, 2), signal(6, 3)], 'float64');
+        const [re] = fft.ifft(fft.fft(x, undefined, 0), undefined, 0);
+        expect(close(re, x)).toBe(true);
+    });
+});
+
+describe('rfft.', function () {
+    test('non-negative frequencies.', function () {
+        for (let n of [8, 9]) {
+            const x = signal(n, 4);
+            const [re, im] = fft.rfft(numts.from_nested_array(x, 'float64'));
+            const half = Math.floor(n / 2) + 1;
+            expect(re.shape).toEqual(new Uint32Array([half]));
+            const [expected_re, expected_im] = naive_dft(x, new Array(n).fill(0));
+            expect(close(re, expected_re.slice([0, half]))).toBe(true);
+            expect(close(im, expected_im.slice([0, half]))).toBe(true);
+        }
+    });
+
+    test('irfft round trip.', function () {
+        const even = numts.from_nested_array(signal(10, 7), 'float64');
+        expect(close(fft.irfft(fft.rfft(even)), even)).toBe(true);
+        const odd = numts.from_nested_array(signal(9, 7), 'float64');
+        expect(close(fft.irfft(fft.rfft(odd), 9), odd)).toBe(true);
+    });
+
+    test('irfft along an axis.', function () {
+        const x = numts.from_nested_array([signal(4, 1), signal(4, 2)], 'float64').transpose();
+        const spectrum = fft.rfft(x, undefined, 0);
+        expect(spectrum[0].shape).toEqual(new Uint32Array([3, 2]));
+        expect(close(fft.irfft(spectrum, 4, 0), x)).toBe(true);
+    });
+});
+
+describe('fftn.', function () {
+    const x = numts.from_nested_array([signal(5, 1), signal(5, 2), signal(5, 3), signal(5, 4)], 'float64');
+
+    test('fft2 matches successive transforms.', function () {
+        const [re, im] = fft.fft2(x);
+        const [expected_re, expected_im] = fft.fft(fft.fft(x, undefined, 1), undefined, 0);
+        expect(close(re, expected_re)).toBe(true);
+        expect(close(im, expected_im)).toBe(true);
+    });
+
+    test('fftn over all axes.', function () {
+        const y = x.reshape(2, 2, 5);
+        const [re] = fft.fftn(y);
+        const [expected] = fft.fft(fft.fft(fft.fft(y, undefined, 2), undefined, 1), undefined, 0);
+        expect(close(re, expected)).toBe(true);
+    });
+
+    test('shape argument.', function () {
+        const [re] = fft.fftn(x, [3, 8]);
+        expect(re.shape).toEqual(new Uint32Array([3, 8]));
+    });
+
+    test('repeated axes.', function () {
+        expect(() => fft.fftn(x, undefined, [0, -2])).toThrow(errors.BadShape);
+    });
+});
+
+describe('fftfreq.', function () {
+    test('even.', function () {
+        expect(fft.fftfreq(4).to_nested_array()).toEqual([0, 0.25, -0.5, -0.25]);
+    });
+
+    test('odd with spacing.', function () {
+        expect(fft.fftfreq(5, 0.1).to_nested_array().map(e => Math.round(e * 1e9) / 1e9)).toEqual([0, 2, 4, -4, -2]);
+    });
+});
+
+describe('fftshift.', function () {
+    test('one dimensional.', function () {
+        expect(fft.fftshift(fft.fftfreq(5)).to_nested_array()).toEqual([-0.4, -0.2, 0, 0.2, 0.4]);
+        expect(fft.fftshift(numts.arange(4)).to_nested_array()).toEqual([2, 3, 0, 1]);
+    });
+
+    test('axes.', function () {
+        const a = numts.arange(6).reshape(2, 3);
+        expect(fft.fftshift(a).to_nested_array()).toEqual([[5, 3, 4], [2, 0, 1]]);
+        expect(fft.fftshift(a, 1).to_nested_array()).toEqual([[2, 0, 1], [5, 3, 4]]);
+    });
+});
@@ -61,11 +61,58 @@ describe('Basic calculations.', function () {
       const expected = new Uint32Array([1, 1]);
       expect(shape).toEqual(expected);
     });
+
+    it('Negative steps.', function() {
+      const starts = new Int32Array([4, 2, 3]);
+      const ends = new Int32Array([-1, 0, 5]);
+      const steps = new Int32Array([-1, -2, -1]);
+
+      const shape = indexing.new_shape_from_slice(starts, ends, steps);
+      expect(shape).toEqual(new Uint32Array([5, 1, 0]));
+    });
+  });
+
+  describe('normalize_slice.', function () {
+    it('Positive steps.', function () {
+      expect(indexing.normalize_slice([null, null, 2], 5)).toEqual([0, 5, 2]);
+      expect(indexing.normalize_slice([-3, 10], 5)).toEqual([2, 5, 1]);
+    });
+
+    it('Negative steps.', function () {
+      expect(indexing.normalize_slice([null, null, -1], 5)).toEqual([4, -1, -1]);
+      expect(indexing.normalize_slice([10, -4, -2], 5)).toEqual([4, 1, -2]);
+      expect(indexing.normalize_slice([3, -10, -1], 5)).toEqual([3, -1, -1]);
+    });
+
+    it('Stop before start is empty.', function () {
+      expect(indexing.normalize_slice([3, 1], 5)).toEqual([3, 1, 1]);
+    });
+
+    it('Zero step.', function () {
+      expect(() => indexing.normalize_slice([0, 1, 0], 5)).toThrow();
+    });
   });
 
   it('_stride_from_shape.', function () {
-    expect(indexing.stride_from_shape([2, 2, 3])).toEqual(new Uint32Array([1, 2, 4]));
-    expect(indexing.stride_from_shape([2, 5])).toEqual(new Uint32Array([1, 2]));
+    expect(indexing.stride_from_shape([2, 2, 3])).toEqual(new Uint32Array([6, 3, 1]));
+    expect(indexing.stride_from_shape([2, 5])).toEqual(new Uint32Array([5, 1]));
+  });
+
+  describe('reshape_stride.', function () {
+    it('Split contiguous axis.', function () {
+      const stride = indexing.reshape_stride(new Uint32Array([6]), new Uint32Array([1]), new Uint32Array([2, 3]));
+      expect(stride).toEqual(new Int32Array([3, 1]));
+    });
+
+    it('Merge and add unit axes.', function () {
+      const stride = indexing.reshape_stride(new Uint32Array([2, 3, 4]), new Uint32Array([12, 4, 1]), new Uint32Array([6, 1, 4]));
+      expect(stride).toEqual(new Int32Array([4, 4, 1]));
+    });
+
+    it('Non-contiguous merge.', function () {
+      const stride = indexing.reshape_stride(new Uint32Array([2, 3]), new Uint32Array([1, 2]), new Uint32Array([6]));
+      expect(stride).toBe(null);
+    });
   });
 
   describe('convert_negative_indices.', function () {
@@ -150,7 +197,7 @@ describe('index_in_data.', function() {
 })
 
 describe('Iterators.', function () {
-  const a = numts.arange(30).reshape(5, 6);
+  const a = numts.from_iterable(numts.arange(30).data, [5, 6], 'int32');
   let steps = new Uint32Array(a.shape.length);
   steps.fill(1);
   describe('iorder_index_iterator.', function() {
@@ -223,6 +270,14 @@ describe('Iterators.', function () {
         36, 37, 38, 39, 40, 41, 42, 43, 44
       ]);
     });
+    it('Transposed strides.', function() {
+      const iter = indexing.iorder_data_iterator(new Uint32Array(2), new Uint32Array([3, 2]), utils.fixed_ones(2), new Uint32Array([1, 3]), 0);
+      expect(Array.from(iter)).toEqual([0, 3, 1, 4, 2, 5]);
+    });
+    it('Negative strides.', function() {
+      const iter = indexing.iorder_data_iterator(new Uint32Array(2), new Uint32Array([2, 3]), utils.fixed_ones(2), new Int32Array([-3, 1]), 3);
+      expect(Array.from(iter)).toEqual([3, 4, 5, 0, 1, 2]);
+    });
   });
 
   describe('dorder_data_iterator', function() {
@@ -230,25 +285,19 @@ describe('Iterators.', function () {
       const slice = a.slice([2, 4]);
       const iter = indexing.dorder_data_iterator(new Uint32Array(slice.shape.length), slice.shape, utils.fixed_ones(slice.shape.length), slice.stride, slice.initial_offset);
       const arr = Array.from(iter);
-      expect(arr).toEqual([2, 3, 7, 8, 12, 13, 17, 18, 22, 23, 27, 28]);
+      expect(arr).toEqual([12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23]);
     });
 
     it('Three dimensions.', function() {
-      const slice = numts.arange(75).reshape(5, 5, 3).slice([0, 3], [2, 5]);
+      const slice = numts.from_iterable(numts.arange(75).data, [5, 5, 3], 'int32').slice([0, 3], [2, 5]);
       const steps = utils.fixed_ones(slice.shape.length);
       const iter = indexing.dorder_data_iterator(new Uint32Array(slice.shape.length), slice.shape, steps, slice.stride, slice.initial_offset);
       const indices = Array.from(iter);
       const data = indices.map(e => slice.data[e]);
       expect(data).toEqual([
-        6, 21, 36,
-        9, 24, 39,
-        12, 27, 42,
-        7, 22, 37,
-        10, 25, 40,
-        13, 28, 43,
-        8, 23, 38,
-        11, 26, 41,
-        14, 29, 44
+        6, 7, 8, 9, 10, 11, 12, 13, 14,
+        21, 22, 23, 24, 25, 26, 27, 28, 29,
+        36, 37, 38, 39, 40, 41, 42, 43, 44
       ])
     });
   });
@@ -403,6 +452,23 @@ describe('uslice_to_islice.', function() {
   });
 });
 
+describe('parse_slice_string.', function() {
+  it('All types.', function() {
+    const uslice = indexing.parse_slice_string('1, :, 2:, :-1, 1:5:2, ..., None');
+    expect(uslice).toEqual([1, null, [2, null, 1], [null, -1, 1], [1, 5, 2], indexing.ELLIPSIS, indexing.NEWAXIS]);
+  });
+
+  it('Negative steps.', function() {
+    expect(indexing.parse_slice_string('::-1, 3::-2')).toEqual([[null, null, -1], [3, null, -2]]);
+    expect(() => indexing.parse_slice_string('::0')).toThrow();
+  });
+
+  it('Empty.', function() {
+    expect(indexing.parse_slice_string('')).toEqual([]);
+    expect(indexing.parse_slice_string('[]')).toEqual([]);
+  });
+});
+
 describe('slice_to_bounds.', function() {
   it('Basic.', function() {
     const islice = [[1, 2, 3], [3, 100, 2]];
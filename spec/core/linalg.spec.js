@@ -0,0 +1,602 @@
+const numts = require('../../numts/numts');
+const binary_ops = require('../../numts/tensor_core/binary_ops');
+const errors = require('../../numts/tensor').errors;
+const linalg = numts.linalg;
+
+const close = (a, b) => a.is_close(b, 1e-7, 1e-9).all();
+
+describe('solve.', function () {
+    const a = numts.from_nested_array([[3, 1, 2], [1, 4, 0], [2, -1, 5]]);
+
+    test('vector.', function () {
+        const x = linalg.solve(numts.from_nested_array([[3, 1], [1, 2]]), numts.from_nested_array([9, 8]));
+        expect(x.shape).toEqual(new Uint32Array([2]));
+        expect(close(x, numts.from_nested_array([2, 3]))).toBe(true);
+    });
+
+    test('matrix right hand side.', function () {
+        const b = numts.from_nested_array([[1, 0], [2, 1], [0, 3]]);
+        const x = linalg.solve(a, b);
+        expect(close(binary_ops.broadcast_matmul(a, x), b)).toBe(true);
+    });
+
+    test('needs pivoting.', function () {
+        const p = numts.from_nested_array([[0, 1], [1, 0]]);
+        const x = linalg.solve(p, numts.from_nested_array([4, 7]));
+        expect(x.to_nested_array()).toEqual([7, 4]);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, 4]], [[1, 1], [0, 1]]]);
+        const b = numts.from_nested_array([[2], [4]]);
+        const x = linalg.solve(stack, b);
+        expect(x.shape).toEqual(new Uint32Array([2, 2, 1]));
+        expect(x.to_nested_array()).toEqual([[[1], [1]], [[-2], [4]]]);
+    });
+
+    test('float32 is preserved.', function () {
+        const x = linalg.solve(a.as_type('float32'), numts.from_nested_array([1, 2, 3], 'float32'));
+        expect(x.dtype).toBe('float32');
+    });
+
+    describe('Failures.', function () {
+        test('singular.', function () {
+            const s = numts.from_nested_array([[1, 2], [2, 4]]);
+            expect(() => linalg.solve(s, numts.from_nested_array([1, 2]))).toThrow(errors.SingularMatrix);
+        });
+
+        test('not square.', function () {
+            expect(() => linalg.solve(numts.arange(6).reshape(2, 3), numts.arange(2))).toThrow(errors.BadShape);
+        });
+
+        test('mismatched right hand side.', function () {
+            expect(() => linalg.solve(a, numts.arange(2))).toThrow(errors.MismatchedShapes);
+        });
+    });
+});
+
+describe('inv.', function () {
+    test('simple.', function () {
+        const a = numts.from_nested_array([[4, 7], [2, 6]]);
+        const expected = numts.from_nested_array([[0.6, -0.7], [-0.2, 0.4]]);
+        expect(close(linalg.inv(a), expected)).toBe(true);
+    });
+
+    test('product is the identity.', function () {
+        const a = numts.from_nested_array([[3, 1, 2], [1, 4, 0], [2, -1, 5]]);
+        expect(close(binary_ops.broadcast_matmul(a, linalg.inv(a)), numts.eye(3))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, 4]], [[1, 1], [0, 1]]]);
+        expect(linalg.inv(stack).to_nested_array()).toEqual([[[0.5, 0], [0, 0.25]], [[1, -1], [0, 1]]]);
+    });
+
+    test('singular.', function () {
+        expect(() => linalg.inv(numts.zeros([3, 3]))).toThrow(errors.SingularMatrix);
+    });
+});
+
+describe('det.', function () {
+    test('simple.', function () {
+        expect(linalg.det(numts.from_nested_array([[1, 2], [3, 4]]))).toBeCloseTo(-2);
+        expect(linalg.det(numts.from_nested_array([[3, 1, 2], [1, 4, 0], [2, -1, 5]]))).toBeCloseTo(37);
+    });
+
+    test('singular.', function () {
+        expect(linalg.det(numts.from_nested_array([[1, 2], [2, 4]]))).toBe(0);
+    });
+
+    test('batched.', function () {
+        const d = linalg.det(numts.from_nested_array([[[2, 0], [0, 4]], [[0, 1], [1, 0]]]));
+        expect(d.to_nested_array()).toEqual([8, -1]);
+    });
+
+    test('view.', function () {
+        const a = numts.from_nested_array([[1, 2], [3, 4]]).transpose();
+        expect(linalg.det(a)).toBeCloseTo(-2);
+    });
+});
+
+describe('slogdet.', function () {
+    test('simple.', function () {
+        const [sign, log] = linalg.slogdet(numts.from_nested_array([[1, 2], [3, 4]]));
+        expect(sign).toBe(-1);
+        expect(log).toBeCloseTo(Math.log(2));
+    });
+
+    test('does not overflow.', function () {
+        const a = numts.eye(200).map(e => e * 1e3);
+        const [sign, log] = linalg.slogdet(a);
+        expect(sign).toBe(1);
+        expect(log).toBeCloseTo(200 * Math.log(1e3));
+    });
+
+    test('singular.', function () {
+        const [sign, log] = linalg.slogdet(numts.zeros([2, 2]));
+        expect(sign).toBe(0);
+        expect(log).toBe(-Infinity);
+    });
+});
+
+describe('lu.', function () {
+    const a = numts.from_nested_array([[1, 2, 0], [3, 4, 4], [5, 6, 3]]);
+
+    test('reconstructs the matrix.', function () {
+        const [p, l, u] = linalg.lu(a);
+        const plu = binary_ops.broadcast_matmul(p, binary_ops.broadcast_matmul(l, u));
+        expect(close(plu, a)).toBe(true);
+    });
+
+    test('factors are triangular.', function () {
+        const [, l, u] = linalg.lu(a);
+        expect(l.to_nested_array().map((row, i) => row[i])).toEqual([1, 1, 1]);
+        expect(l.equals(l.tril())).toBe(true);
+        expect(u.equals(u.triu())).toBe(true);
+    });
+
+    test('pivots on the largest entry.', function () {
+        const [p] = linalg.lu(a);
+        expect(p.to_nested_array()).toEqual([[0, 1, 0], [0, 0, 1], [1, 0, 0]]);
+    });
+
+    test('batched float32.', function () {
+        const stack = numts.from_nested_array([[[0, 1], [1, 0]], [[2, 1], [4, 3]]], 'float32');
+        const [p, l, u] = linalg.lu(stack);
+        expect(p.dtype).toBe('float32');
+        expect(u.shape).toEqual(new Uint32Array([2, 2, 2]));
+        expect(close(binary_ops.broadcast_matmul(p, binary_ops.broadcast_matmul(l, u)), stack)).toBe(true);
+    });
+});
+
+describe('qr.', function () {
+    const tall = numts.from_nested_array([[1, 2], [3, 4], [5, 6]]);
+    const identity = n => numts.eye(n);
+
+    test('reduced.', function () {
+        const [q, r] = linalg.qr(tall);
+        expect(q.shape).toEqual(new Uint32Array([3, 2]));
+        expect(r.shape).toEqual(new Uint32Array([2, 2]));
+        expect(close(binary_ops.broadcast_matmul(q, r), tall)).toBe(true);
+        expect(close(binary_ops.broadcast_matmul(q.transpose(), q), identity(2))).toBe(true);
+        expect(r.g(1, 0)).toBe(0);
+    });
+
+    test('complete.', function () {
+        const [q, r] = linalg.qr(tall, 'complete');
+        expect(q.shape).toEqual(new Uint32Array([3, 3]));
+        expect(r.shape).toEqual(new Uint32Array([3, 2]));
+        expect(close(binary_ops.broadcast_matmul(q, r), tall)).toBe(true);
+        expect(close(binary_ops.broadcast_matmul(q.transpose(), q), identity(3))).toBe(true);
+    });
+
+    test('wide.', function () {
+        const wide = tall.transpose();
+        const [q, r] = linalg.qr(wide);
+        expect(q.shape).toEqual(new Uint32Array([2, 2]));
+        expect(r.shape).toEqual(new Uint32Array([2, 3]));
+        expect(close(binary_ops.broadcast_matmul(q, r), wide)).toBe(true);
+    });
+
+    test('rank deficient.', function () {
+        const a = numts.from_nested_array([[1, 1], [1, 1], [1, 1]]);
+        const [q, r] = linalg.qr(a);
+        expect(close(binary_ops.broadcast_matmul(q, r), a)).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.arange(12).reshape(2, 3, 2).map(e => e * e + 1);
+        const [q, r] = linalg.qr(stack);
+        expect(q.shape).toEqual(new Uint32Array([2, 3, 2]));
+        expect(close(binary_ops.broadcast_matmul(q, r), stack)).toBe(true);
+    });
+
+    test('unknown mode.', function () {
+        expect(() => linalg.qr(tall, 'economic')).toThrow(/Unknown mode/);
+    });
+});
+
+describe('cholesky.', function () {
+    test('simple.', function () {
+        const a = numts.from_nested_array([[4, 12, -16], [12, 37, -43], [-16, -43, 98]]);
+        const l = linalg.cholesky(a);
+        expect(close(l, numts.from_nested_array([[2, 0, 0], [6, 1, 0], [-8, 5, 3]]))).toBe(true);
+    });
+
+    test('batched float32.', function () {
+        const stack = numts.from_nested_array([[[4, 2], [2, 2]], [[9, 0], [0, 1]]], 'float32');
+        const l = linalg.cholesky(stack);
+        expect(l.dtype).toBe('float32');
+        expect(l.to_nested_array()).toEqual([[[2, 0], [1, 1]], [[3, 0], [0, 1]]]);
+    });
+
+    test('not positive definite.', function () {
+        const a = numts.from_nested_array([[1, 2], [2, 1]]);
+        expect(() => linalg.cholesky(a)).toThrow(errors.NotPositiveDefinite);
+    });
+});
+
+describe('eigh.', function () {
+    const a = numts.from_nested_array([[2, -1, 0], [-1, 2, -1], [0, -1, 2]]);
+
+    test('eigenvalues are ascending.', function () {
+        const [w] = linalg.eigh(a);
+        const expected = numts.from_nested_array([2 - Math.SQRT2, 2, 2 + Math.SQRT2]);
+        expect(close(w, expected)).toBe(true);
+    });
+
+    test('eigenvectors.', function () {
+        const [w, v] = linalg.eigh(a);
+        const av = binary_ops.broadcast_matmul(a, v);
+        const vw = v.mult(w.reshape(1, 3));
+        expect(close(av, vw)).toBe(true);
+        expect(close(binary_ops.broadcast_matmul(v.transpose(), v), numts.eye(3))).toBe(true);
+    });
+
+    test('uses the lower triangle.', function () {
+        const [w] = linalg.eigh(numts.from_nested_array([[1, 100], [0, 1]]));
+        expect(w.to_nested_array()).toEqual([1, 1]);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[3, 0], [0, 1]], [[2, 1], [1, 2]]]);
+        const [w, v] = linalg.eigh(stack);
+        expect(w.shape).toEqual(new Uint32Array([2, 2]));
+        expect(v.shape).toEqual(new Uint32Array([2, 2, 2]));
+        expect(close(w, numts.from_nested_array([[1, 3], [1, 3]]))).toBe(true);
+    });
+});
+
+describe('eig.', function () {
+    test('real eigenvalues.', function () {
+        const a = numts.from_nested_array([[4, 1], [2, 3]]);
+        const [[w_real, w_imag], [v_real]] = linalg.eig(a);
+        expect(w_real.to_nested_array().sort().map(Math.round)).toEqual([2, 5]);
+        expect(w_imag.to_nested_array()).toEqual([0, 0]);
+        const av = binary_ops.broadcast_matmul(a, v_real);
+        expect(close(av, v_real.mult(w_real.reshape(1, 2)))).toBe(true);
+    });
+
+    test('complex eigenvalues.', function () {
+        const rotation = numts.from_nested_array([[0, -1], [1, 0]]);
+        const [[w_real, w_imag], [v_real, v_imag]] = linalg.eig(rotation);
+        expect(close(w_real, numts.zeros([2]))).toBe(true);
+        expect(close(w_imag, numts.from_nested_array([1, -1]))).toBe(true);
+
+        // A(v_real + i v_imag) = (w_real + i w_imag)(v_real + i v_imag)
+        const w_r = w_real.reshape(1, 2);
+        const w_i = w_imag.reshape(1, 2);
+        const av_real = binary_ops.broadcast_matmul(rotation, v_real);
+        const av_imag = binary_ops.broadcast_matmul(rotation, v_imag);
+        expect(close(av_real, v_real.mult(w_r).sub(v_imag.mult(w_i)))).toBe(true);
+        expect(close(av_imag, v_imag.mult(w_r).add(v_real.mult(w_i)))).toBe(true);
+    });
+
+    test('eigenvectors have unit norm.', function () {
+        const a = numts.from_nested_array([[1, 2, 3], [0, 4, 5], [-3, 1, 2]]);
+        const [, [v_real, v_imag]] = linalg.eig(a);
+        const norms = v_real.mult(v_real).add(v_imag.mult(v_imag)).sum(0);
+        expect(close(norms, numts.ones([3]))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, 3]], [[0, -2], [2, 0]]]);
+        const [[w_real, w_imag]] = linalg.eig(stack);
+        expect(w_real.shape).toEqual(new Uint32Array([2, 2]));
+        expect(close(w_imag, numts.from_nested_array([[0, 0], [2, -2]]))).toBe(true);
+    });
+});
+
+describe('svd.', function () {
+    const a = numts.from_nested_array([[3, 2, 2], [2, 3, -2]]);
+
+    test('singular values.', function () {
+        const [, s] = linalg.svd(a);
+        expect(close(s, numts.from_nested_array([5, 3]))).toBe(true);
+    });
+
+    test('full matrices.', function () {
+        const [u, s, vh] = linalg.svd(a);
+        expect(u.shape).toEqual(new Uint32Array([2, 2]));
+        expect(vh.shape).toEqual(new Uint32Array([3, 3]));
+        expect(close(binary_ops.broadcast_matmul(vh, vh.transpose()), numts.eye(3))).toBe(true);
+        const us = u.mult(s.reshape(1, 2));
+        expect(close(binary_ops.broadcast_matmul(us, vh.slice([0, 2])), a)).toBe(true);
+    });
+
+    test('reduced matrices.', function () {
+        const tall = a.transpose();
+        const [u, s, vh] = linalg.svd(tall, false);
+        expect(u.shape).toEqual(new Uint32Array([3, 2]));
+        expect(vh.shape).toEqual(new Uint32Array([2, 2]));
+        const us = u.mult(s.reshape(1, 2));
+        expect(close(binary_ops.broadcast_matmul(us, vh), tall)).toBe(true);
+    });
+
+    test('rank deficient.', function () {
+        const r = numts.from_nested_array([[1, 2], [2, 4], [3, 6]]);
+        const [u, s] = linalg.svd(r);
+        expect(s.g(1)).toBeCloseTo(0);
+        expect(close(binary_ops.broadcast_matmul(u.transpose(), u), numts.eye(3))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, -3]], [[0, 1], [1, 0]]]);
+        const [, s] = linalg.svd(stack);
+        expect(s.to_nested_array()).toEqual([[3, 2], [1, 1]]);
+    });
+});
+
+describe('lstsq.', function () {
+    test('line fit.', function () {
+        // Fit y = mx + c to points on y = 2x + 1 with noise that cancels out.
+        const a = numts.from_nested_array([[0, 1], [1, 1], [2, 1], [3, 1]]);
+        const y = numts.from_nested_array([1.5, 2.5, 5.5, 6.5]);
+        const [x, residuals, rank, s] = linalg.lstsq(a, y);
+        expect(close(x, numts.from_nested_array([1.8, 1.3]))).toBe(true);
+        expect(rank).toBe(2);
+        expect(residuals.shape).toEqual(new Uint32Array([1]));
+        expect(residuals.g(0)).toBeCloseTo(0.8);
+        expect(s.shape).toEqual(new Uint32Array([2]));
+    });
+
+    test('matches solve for square systems.', function () {
+        const a = numts.from_nested_array([[3, 1, 2], [1, 4, 0], [2, -1, 5]]);
+        const b = numts.from_nested_array([[1, 0], [2, 1], [0, 3]]);
+        const [x] = linalg.lstsq(a, b);
+        expect(close(x, linalg.solve(a, b))).toBe(true);
+    });
+
+    test('rank deficient gives the minimum norm solution.', function () {
+        const a = numts.from_nested_array([[1, 1], [1, 1], [1, 1]]);
+        const [x, residuals, rank] = linalg.lstsq(a, numts.from_nested_array([2, 2, 2]));
+        expect(rank).toBe(1);
+        expect(close(x, numts.from_nested_array([1, 1]))).toBe(true);
+        expect(residuals.length).toBe(0);
+    });
+
+    test('wide.', function () {
+        const a = numts.from_nested_array([[1, 0, 1], [0, 1, 1]]);
+        const b = numts.from_nested_array([3, 3]);
+        const [x] = linalg.lstsq(a, b);
+        expect(close(binary_ops.broadcast_matmul(a, x.reshape(3, 1)).reshape(2), b)).toBe(true);
+        expect(close(x, numts.from_nested_array([1, 1, 2]))).toBe(true);
+    });
+
+    test('mismatched shapes.', function () {
+        expect(() => linalg.lstsq(numts.zeros([3, 2]), numts.zeros([2]))).toThrow(errors.MismatchedShapes);
+    });
+});
+
+describe('pinv.', function () {
+    test('invertible.', function () {
+        const a = numts.from_nested_array([[4, 7], [2, 6]]);
+        expect(close(linalg.pinv(a), linalg.inv(a))).toBe(true);
+    });
+
+    test('Moore-Penrose conditions.', function () {
+        const a = numts.from_nested_array([[1, 2], [2, 4], [3, 6]]);
+        const p = linalg.pinv(a);
+        expect(p.shape).toEqual(new Uint32Array([2, 3]));
+        const apa = binary_ops.broadcast_matmul(binary_ops.broadcast_matmul(a, p), a);
+        const pap = binary_ops.broadcast_matmul(binary_ops.broadcast_matmul(p, a), p);
+        expect(close(apa, a)).toBe(true);
+        expect(close(pap, p)).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, 0]], [[1, 0], [0, 4]]]);
+        expect(linalg.pinv(stack).to_nested_array()).toEqual([[[0.5, 0], [0, 0]], [[1, 0], [0, 0.25]]]);
+    });
+});
+
+describe('matrix_rank.', function () {
+    test('full rank.', function () {
+        expect(linalg.matrix_rank(numts.eye(4))).toBe(4);
+    });
+
+    test('rank deficient.', function () {
+        const a = numts.arange(12).reshape(3, 4);
+        expect(linalg.matrix_rank(a)).toBe(2);
+        expect(linalg.matrix_rank(numts.zeros([3, 3]))).toBe(0);
+    });
+
+    test('tolerance.', function () {
+        const a = numts.from_nested_array([[1, 0], [0, 1e-3]]);
+        expect(linalg.matrix_rank(a, 1e-2)).toBe(1);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[1, 2], [2, 4]], [[1, 2], [3, 4]]]);
+        const ranks = linalg.matrix_rank(stack);
+        expect(ranks.dtype).toBe('int32');
+        expect(ranks.to_nested_array()).toEqual([1, 2]);
+    });
+});
+
+describe('cond.', function () {
+    test('simple.', function () {
+        expect(linalg.cond(numts.from_nested_array([[3, 0], [0, -0.5]]))).toBeCloseTo(6);
+        expect(linalg.cond(numts.eye(3))).toBeCloseTo(1);
+    });
+
+    test('singular.', function () {
+        expect(linalg.cond(numts.from_nested_array([[1, 2], [2, 4]]))).toBeGreaterThan(1e15);
+    });
+});
+
+describe('norm.', function () {
+    const v = numts.from_nested_array([3, -4]);
+    const m = numts.from_nested_array([[1, -2], [3, 4]]);
+
+    test('default vector norm.', function () {
+        expect(linalg.norm(v)).toBeCloseTo(5);
+    });
+
+    test('vector orders.', function () {
+        expect(linalg.norm(v, 1)).toBe(7);
+        expect(linalg.norm(v, Infinity)).toBe(4);
+        expect(linalg.norm(v, -Infinity)).toBe(3);
+        expect(linalg.norm(v, 0)).toBe(2);
+        expect(linalg.norm(v, 3)).toBeCloseTo(Math.cbrt(91));
+    });
+
+    test('flattened by default.', function () {
+        const t = numts.arange(8).reshape(2, 2, 2);
+        expect(linalg.norm(t)).toBeCloseTo(Math.sqrt(140));
+    });
+
+    test('along an axis.', function () {
+        const n = linalg.norm(m, 1, 1);
+        expect(n.to_nested_array()).toEqual([3, 7]);
+        expect(close(linalg.norm(m, 2, 0), numts.from_nested_array([Math.sqrt(10), Math.sqrt(20)]))).toBe(true);
+        expect(linalg.norm(m, Infinity, -1).to_nested_array()).toEqual([2, 4]);
+    });
+
+    test('keepdims.', function () {
+        const n = linalg.norm(m, 1, 0, true);
+        expect(n.shape).toEqual(new Uint32Array([1, 2]));
+        expect(n.to_nested_array()).toEqual([[4, 6]]);
+        expect(linalg.norm(m, undefined, undefined, true).shape).toEqual(new Uint32Array([1, 1]));
+    });
+
+    test('matrix norms.', function () {
+        expect(linalg.norm(m, 'fro')).toBeCloseTo(Math.sqrt(30));
+        expect(linalg.norm(m, 1)).toBe(6);
+        expect(linalg.norm(m, -1)).toBe(4);
+        expect(linalg.norm(m, Infinity)).toBe(7);
+        expect(linalg.norm(m, -Infinity)).toBe(3);
+
+        const d = numts.from_nested_array([[3, 0], [0, -2]]);
+        expect(linalg.norm(d, 2)).toBeCloseTo(3);
+        expect(linalg.norm(d, -2)).toBeCloseTo(2);
+        expect(linalg.norm(d, 'nuc')).toBeCloseTo(5);
+    });
+
+    test('stack of matrices.', function () {
+        const stack = numts.from_nested_array([[[1, 0], [0, 1]], [[2, 0], [0, 2]]]);
+        const n = linalg.norm(stack, 'nuc', [1, 2]);
+        expect(close(n, numts.from_nested_array([2, 4]))).toBe(true);
+        const columns = linalg.norm(stack, 1, [2, 0]);
+        expect(columns.to_nested_array()).toEqual([2, 2]);
+    });
+
+    test('does not overflow or underflow.', function () {
+        expect(linalg.norm(numts.from_nested_array([3e200, 4e200])) / 1e200).toBeCloseTo(5);
+        expect(linalg.norm(numts.from_nested_array([3e-200, 4e-200])) / 1e-200).toBeCloseTo(5);
+        expect(linalg.norm(numts.from_nested_array([[3e200, 0], [0, 4e200]]), 'fro') / 1e200).toBeCloseTo(5);
+    });
+
+    describe('Failures.', function () {
+        test('invalid matrix order.', function () {
+            expect(() => linalg.norm(m, 3)).toThrow(/Invalid norm order/);
+        });
+
+        test('string order for vectors.', function () {
+            expect(() => linalg.norm(v, 'fro')).toThrow(/Invalid norm order/);
+        });
+
+        test('bad axes.', function () {
+            expect(() => linalg.norm(m, 2, 2)).toThrow(errors.BadShape);
+            expect(() => linalg.norm(m, 'fro', [1, 1])).toThrow(errors.BadShape);
+            expect(() => linalg.norm(numts.zeros([2, 2, 2]), 2)).toThrow(errors.BadShape);
+        });
+    });
+});
+
+describe('matrix_power.', function () {
+    const a = numts.from_nested_array([[1, 1], [1, 0]], 'int32');
+
+    test('fibonacci.', function () {
+        const p = linalg.matrix_power(a, 10);
+        expect(p.dtype).toBe('int32');
+        expect(p.to_nested_array()).toEqual([[89, 55], [55, 34]]);
+    });
+
+    test('zero gives the identity.', function () {
+        expect(linalg.matrix_power(a, 0).to_nested_array()).toEqual([[1, 0], [0, 1]]);
+    });
+
+    test('negative powers.', function () {
+        const p = linalg.matrix_power(a, -3);
+        expect(close(binary_ops.broadcast_matmul(p, linalg.matrix_power(a, 3)), numts.eye(2))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[2, 0], [0, 3]], [[1, 1], [0, 1]]]);
+        expect(linalg.matrix_power(stack, 3).to_nested_array()).toEqual([[[8, 0], [0, 27]], [[1, 3], [0, 1]]]);
+    });
+
+    test('non-integer power.', function () {
+        expect(() => linalg.matrix_power(a, 0.5)).toThrow();
+    });
+});
+
+describe('expm.', function () {
+    test('diagonal.', function () {
+        const e = linalg.expm(numts.from_nested_array([[1, 0], [0, -2]]));
+        expect(close(e, numts.from_nested_array([[Math.E, 0], [0, Math.exp(-2)]]))).toBe(true);
+    });
+
+    test('rotation.', function () {
+        const e = linalg.expm(numts.from_nested_array([[0, -Math.PI / 2], [Math.PI / 2, 0]]));
+        expect(close(e, numts.from_nested_array([[0, -1], [1, 0]]))).toBe(true);
+    });
+
+    test('nilpotent.', function () {
+        const e = linalg.expm(numts.from_nested_array([[0, 1, 0], [0, 0, 1], [0, 0, 0]]));
+        expect(close(e, numts.from_nested_array([[1, 1, 0.5], [0, 1, 1], [0, 0, 1]]))).toBe(true);
+    });
+
+    test('large norm.', function () {
+        const e = linalg.expm(numts.from_nested_array([[50, 0], [0, -3]]));
+        expect(e.g(0, 0) / Math.exp(50)).toBeCloseTo(1, 10);
+    });
+});
+
+describe('sqrtm.', function () {
+    test('squares back.', function () {
+        const a = numts.from_nested_array([[4, 1, 0], [1, 5, 2], [0, 2, 6]]);
+        const s = linalg.sqrtm(a);
+        expect(close(binary_ops.broadcast_matmul(s, s), a)).toBe(true);
+    });
+
+    test('triangular.', function () {
+        const s = linalg.sqrtm(numts.from_nested_array([[4, 5], [0, 9]]));
+        expect(close(s, numts.from_nested_array([[2, 1], [0, 3]]))).toBe(true);
+    });
+
+    test('negative eigenvalues.', function () {
+        expect(() => linalg.sqrtm(numts.from_nested_array([[-1, 0], [0, 1]]))).toThrow(errors.DidNotConverge);
+    });
+
+    test('singular.', function () {
+        expect(() => linalg.sqrtm(numts.from_nested_array([[0, 0], [0, 1]]))).toThrow(errors.DidNotConverge);
+    });
+});
+
+describe('logm.', function () {
+    test('inverts expm.', function () {
+        const a = numts.from_nested_array([[1, 2, 0], [0.5, -1, 3], [0, 1, 0.2]]);
+        expect(close(linalg.logm(linalg.expm(a)), a)).toBe(true);
+    });
+
+    test('identity.', function () {
+        expect(close(linalg.logm(numts.eye(3)), numts.zeros([3, 3]))).toBe(true);
+    });
+
+    test('jordan block.', function () {
+        const l = linalg.logm(numts.from_nested_array([[1, 1], [0, 1]]));
+        expect(close(l, numts.from_nested_array([[0, 1], [0, 0]]))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const stack = numts.from_nested_array([[[Math.E, 0], [0, 1]], [[1, 0], [0, Math.E * Math.E]]]);
+        const l = linalg.logm(stack);
+        expect(close(l, numts.from_nested_array([[[1, 0], [0, 0]], [[0, 0], [0, 2]]]))).toBe(true);
+    });
+
+    test('negative eigenvalues.', function () {
+        expect(() => linalg.logm(numts.from_nested_array([[-1, 0], [0, 1]]))).toThrow(errors.DidNotConverge);
+    });
+});
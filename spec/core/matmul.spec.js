@@ -0,0 +1,42 @@
+const numts = require('../../numts/numts');
+const binary_ops = require('../../numts/tensor_core/binary_ops');
+const tensor = numts.tensor;
+const reference_matmul = require('../helpers').reference_matmul;
+
+describe('matmul kernel.', function () {
+    const a = numts.arange(64 * 64).reshape(64, 64);
+    const b = numts.arange(64 * 64).reshape(64, 64);
+
+    test('contiguous.', function () {
+        expect(tensor.matmul_2d(a, b).equals(reference_matmul(a, b))).toBe(true);
+    });
+
+    test('dtype.', function () {
+        const x = numts.from_nested_array([[1, 2], [3, 4]], 'int32');
+        expect(tensor.matmul_2d(x, x).dtype).toBe('int32');
+        expect(binary_ops.broadcast_matmul(x, x).dtype).toBe('int32');
+        expect(binary_ops.broadcast_matmul(x.reshape(1, 2, 2), x).dtype).toBe('int32');
+        expect(tensor.matmul_2d(x, x).to_nested_array()).toEqual([[7, 10], [15, 22]]);
+        expect(tensor.matmul_2d(x, numts.from_nested_array([[1, 0], [0, 1]], 'float32')).dtype).toBe('float64');
+    });
+
+    test('strided.', function () {
+        const a_t = a.transpose();
+        const b_s = b.slice([null, null, -1]);
+        expect(tensor.matmul_2d(a_t, b_s).equals(reference_matmul(a_t, b_s))).toBe(true);
+    });
+
+    test('batched.', function () {
+        const x = numts.arange(8 * 32 * 32).reshape(8, 32, 32);
+        const y = numts.arange(32 * 32).reshape(32, 32);
+        expect(binary_ops.broadcast_matmul(x, y).slice(3).to_nested_array()).toEqual(reference_matmul(x.slice(3), y).to_nested_array());
+    });
+
+    test('tensordot.', function () {
+        const x = numts.arange(8 * 8 * 8 * 8).reshape(8, 8, 8, 8);
+        const expected = numts.einsum('abij,jicd->abcd', x, x);
+        expect(binary_ops.tensordot(x, x, [[2, 3], [1, 0]]).equals(expected)).toBe(true);
+        const matrix = numts.arange(8 * 8).reshape(8, 8);
+        expect(binary_ops.tensordot(matrix, matrix, 1).equals(reference_matmul(matrix, matrix))).toBe(true);
+    });
+});
@@ -0,0 +1,60 @@
+const numts = require('../../numts/numts');
+const binary_ops = require('../../numts/tensor_core/binary_ops');
+const tensor = numts.tensor;
+const reference_matmul = require('../helpers').reference_matmul;
+
+/**
+ * Best of several runs, in milliseconds.
+ */
+function time(f, runs = 3) {
+    let best = Infinity;
+    for (let i = 0; i < runs; i++) {
+        const start = process.hrtime();
+        f();
+        const [seconds, nanoseconds] = process.hrtime(start);
+        best = Math.min(best, seconds * 1e3 + nanoseconds / 1e6);
+    }
+    return best;
+}
+
+/**
+ * Log how much faster the kernel is than the reference. Timings depend on the machine, so nothing is asserted.
+ */
+function report(name, reference, kernel) {
+    console.log(`${name}: reference ${reference.toFixed(2)}ms, kernel ${kernel.toFixed(2)}ms, ${(reference / kernel).toFixed(0)}x`);
+}
+
+// Wall-clock timings are too noisy for shared CI machines, so the benchmarks only run locally.
+const benchmark = process.env.CI ? describe.skip : describe;
+
+benchmark('matmul benchmarks.', function () {
+    const a = numts.arange(64 * 64).reshape(64, 64);
+    const b = numts.arange(64 * 64).reshape(64, 64);
+
+    test('contiguous.', function () {
+        report('64x64 matmul', time(() => reference_matmul(a, b), 1), time(() => tensor.matmul_2d(a, b)));
+    });
+
+    test('strided.', function () {
+        const a_t = a.transpose();
+        const b_s = b.slice([null, null, -1]);
+        report('64x64 strided matmul', time(() => reference_matmul(a_t, b_s), 1), time(() => tensor.matmul_2d(a_t, b_s)));
+    });
+
+    test('batched.', function () {
+        const x = numts.arange(8 * 32 * 32).reshape(8, 32, 32);
+        const y = numts.arange(32 * 32).reshape(32, 32);
+        const reference = time(() => {
+            for (let i = 0; i < 8; i++) {
+                reference_matmul(x.slice(i), y);
+            }
+        }, 1);
+        report('8x32x32 by 32x32 broadcast_matmul', reference, time(() => binary_ops.broadcast_matmul(x, y)));
+    });
+
+    test('tensordot.', function () {
+        const x = numts.arange(8 * 8 * 8 * 8).reshape(8, 8, 8, 8);
+        const reference = time(() => reference_matmul(x.reshape(64, 64), x.reshape(64, 64)), 1);
+        report('8x8x8x8 tensordot over two axes', reference, time(() => binary_ops.tensordot(x, x, [[2, 3], [0, 1]])));
+    });
+});
@@ -0,0 +1,134 @@
+const numts = require('../../numts/numts');
+
+describe('Float functions.', function () {
+    const a = numts.from_nested_array([0, 0.5, 1], 'float64');
+
+    test('values.', function () {
+        expect(numts.exp(a).to_nested_array()).toEqual([1, Math.exp(0.5), Math.E]);
+        expect(a.log().to_nested_array()).toEqual([-Infinity, Math.log(0.5), 0]);
+        expect(a.log1p().to_nested_array()).toEqual([0, Math.log1p(0.5), Math.LN2]);
+        expect(a.expm1().to_nested_array()).toEqual([0, Math.expm1(0.5), Math.E - 1]);
+        expect(numts.from_nested_array([4, -1], 'float64').sqrt().to_nested_array()).toEqual([2, NaN]);
+        expect(numts.from_nested_array([-27, 8], 'float64').cbrt().to_nested_array()).toEqual([-3, 2]);
+    });
+
+    test('trig and inverse trig.', function () {
+        expect(a.sin().to_nested_array()).toEqual([0, Math.sin(0.5), Math.sin(1)]);
+        expect(a.cos().to_nested_array()).toEqual([1, Math.cos(0.5), Math.cos(1)]);
+        expect(a.tan().to_nested_array()).toEqual([0, Math.tan(0.5), Math.tan(1)]);
+        expect(a.arcsin().to_nested_array()).toEqual([0, Math.asin(0.5), Math.PI / 2]);
+        expect(a.arccos().to_nested_array()).toEqual([Math.PI / 2, Math.acos(0.5), 0]);
+        expect(a.arctan().to_nested_array()).toEqual([0, Math.atan(0.5), Math.PI / 4]);
+    });
+
+    test('hyperbolic.', function () {
+        expect(a.sinh().to_nested_array()).toEqual([0, Math.sinh(0.5), Math.sinh(1)]);
+        expect(a.cosh().to_nested_array()).toEqual([1, Math.cosh(0.5), Math.cosh(1)]);
+        expect(a.tanh().to_nested_array()).toEqual([0, Math.tanh(0.5), Math.tanh(1)]);
+        expect(a.arcsinh().to_nested_array()).toEqual([0, Math.asinh(0.5), Math.asinh(1)]);
+        expect(numts.from_nested_array([1, 2], 'float64').arccosh().to_nested_array()).toEqual([0, Math.acosh(2)]);
+        expect(a.arctanh().to_nested_array()).toEqual([0, Math.atanh(0.5), Infinity]);
+    });
+
+    test('dtypes.', function () {
+        expect(numts.from_nested_array([1, 2], 'float32').exp().dtype).toBe('float32');
+        expect(numts.arange(3).sqrt().dtype).toBe('float64');
+        expect(numts.arange(3).sqrt().to_nested_array()).toEqual([0, 1, Math.SQRT2]);
+        expect(numts.from_nested_array([1, 4], 'uint8').sqrt().dtype).toBe('float32');
+        expect(numts.from_nested_array([1, 4], 'float16').sqrt().dtype).toBe('float16');
+        expect(numts.from_nested_array([BigInt(4)], 'int64').sqrt().to_nested_array()).toEqual([2]);
+    });
+
+    test('views.', function () {
+        const b = numts.arange(6).reshape(2, 3).transpose();
+        expect(b.exp().to_nested_array()).toEqual([[1, Math.exp(3)], [Math.exp(1), Math.exp(4)], [Math.exp(2), Math.exp(5)]]);
+        expect(b.at('::-1, 1').sin().to_nested_array()).toEqual([Math.sin(5), Math.sin(4), Math.sin(3)]);
+    });
+
+    test('complex.', function () {
+        const z = numts.complex(numts.from_nested_array([0, -4, 1], 'float64'), numts.from_nested_array([Math.PI, 0, 1], 'float64'));
+        const e = numts.exp(z).to_nested_array();
+        expect(e[0][0]).toBeCloseTo(-1);
+        expect(e[0][1]).toBeCloseTo(0);
+        expect(numts.sqrt(z).to_nested_array()[1]).toEqual([0, 2]);
+        expect(numts.log(z).to_nested_array()[2]).toEqual([Math.log(Math.SQRT2), Math.PI / 4]);
+        expect(() => numts.sin(z)).toThrow();
+    });
+});
+
+describe('sign.', function () {
+    test('real.', function () {
+        expect(numts.from_nested_array([-2.5, 0, 3, NaN], 'float64').sign().to_nested_array()).toEqual([-1, 0, 1, NaN]);
+        const ints = numts.from_nested_array([-7, 0, 7], 'int32').sign();
+        expect(ints.dtype).toBe('int32');
+        expect(ints.to_nested_array()).toEqual([-1, 0, 1]);
+        expect(numts.from_nested_array([BigInt(-5)], 'int64').sign().to_nested_array()).toEqual([BigInt(-1)]);
+    });
+
+    test('complex.', function () {
+        const z = numts.complex(numts.from_nested_array([3, 0], 'float64'), numts.from_nested_array([4, 0], 'float64'));
+        expect(z.sign().to_nested_array()).toEqual([[0.6, 0.8], [0, 0]]);
+    });
+});
+
+describe('abs.', function () {
+    test('integers.', function () {
+        expect(numts.abs(numts.from_nested_array([-3, 3], 'int8')).to_nested_array()).toEqual([3, 3]);
+        expect(numts.abs(numts.from_nested_array([BigInt(-3)], 'int64')).to_nested_array()).toEqual([BigInt(3)]);
+    });
+});
+
+describe('Rounding.', function () {
+    const a = numts.from_nested_array([-1.5, -0.5, 0.5, 1.5, 2.5, 2.7], 'float64');
+
+    test('floor, ceil and trunc.', function () {
+        expect(a.floor().to_nested_array()).toEqual([-2, -1, 0, 1, 2, 2]);
+        expect(a.ceil().to_nested_array()).toEqual([-1, -0, 1, 2, 3, 3]);
+        expect(a.trunc().to_nested_array()).toEqual([-1, -0, 0, 1, 2, 2]);
+        expect(numts.arange(3).floor().dtype).toBe('int32');
+        expect(numts.from_nested_array([1.5], 'float32').ceil().dtype).toBe('float32');
+    });
+
+    test('round to even.', function () {
+        expect(a.round().to_nested_array()).toEqual([-2, -0, 0, 2, 2, 3]);
+        expect(numts.round(a).dtype).toBe('float64');
+    });
+
+    test('decimals.', function () {
+        const b = numts.from_nested_array([1.2345, 0.125, -0.375], 'float64');
+        expect(b.round(2).to_nested_array()).toEqual([1.23, 0.12, -0.38]);
+        expect(numts.from_nested_array([15, 25, -35, 1234], 'int32').round(-1).to_nested_array()).toEqual([20, 20, -40, 1230]);
+        expect(numts.from_nested_array([1250.5], 'float64').round(-2).to_nested_array()).toEqual([1300]);
+        expect(numts.from_nested_array([BigInt(250), BigInt(-350)], 'int64').round(-2).to_nested_array()).toEqual([BigInt(200), BigInt(-400)]);
+    });
+
+    test('complex.', function () {
+        const z = numts.complex(numts.from_nested_array([0.5, 1.5], 'float64'), numts.from_nested_array([2.5, -0.7], 'float64'));
+        expect(z.round().to_nested_array()).toEqual([[0, 2], [2, -1]]);
+        expect(() => z.floor()).toThrow();
+    });
+});
+
+describe('Classification.', function () {
+    const a = numts.from_nested_array([1, NaN, Infinity, -Infinity], 'float64');
+
+    test('floats.', function () {
+        expect(a.isnan().dtype).toBe('bool');
+        expect(a.isnan().to_nested_array()).toEqual([false, true, false, false]);
+        expect(a.isinf().to_nested_array()).toEqual([false, false, true, true]);
+        expect(numts.isfinite(a).to_nested_array()).toEqual([true, false, false, false]);
+    });
+
+    test('integers.', function () {
+        const b = numts.arange(3);
+        expect(b.isnan().to_nested_array()).toEqual([false, false, false]);
+        expect(b.isfinite().to_nested_array()).toEqual([true, true, true]);
+    });
+
+    test('complex.', function () {
+        const z = numts.complex(numts.from_nested_array([1, NaN, 1], 'float64'), numts.from_nested_array([Infinity, 0, 1], 'float64'));
+        expect(z.isnan().to_nested_array()).toEqual([false, true, false]);
+        expect(z.isinf().to_nested_array()).toEqual([true, false, false]);
+        expect(z.isfinite().to_nested_array()).toEqual([false, false, true]);
+    });
+});
@@ -15,5 +15,20 @@ function random_shape(max_size, upper) {
     return new Uint32Array(shape);
 }
 
+/**
+ * The original generator-based matmul_2d: every entry is the dot product of a row view and a column view.
+ */
+function reference_matmul(a, b) {
+    const numts = require("../numts/numts");
+    const binary_ops = require("../numts/tensor_core/binary_ops");
+    const utils = require("../numts/utils").utils;
+    const values = [];
+    for (let i = 0; i < a.shape[0]; i++) {
+        for (let j = 0; j < b.shape[1]; j++) {
+            values.push(binary_ops.dot(a.slice(i), b.slice(null, j)));
+        }
+    }
+    return numts.from_iterable(values, [a.shape[0], b.shape[1]], utils._dtype_join(a.dtype, b.dtype));
+}
 
-module.exports = {random_shape};
+module.exports = {random_shape, reference_matmul};
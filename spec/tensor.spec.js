@@ -305,6 +305,154 @@ describe('Slicing.', function () {
     });
   });
 
+  describe('ellipsis and newaxis.', function () {
+    const a = numts.arange(24).reshape(2, 3, 4);
+
+    test('ellipsis first.', function () {
+      const s = a.slice(numts.ELLIPSIS, 0);
+      expect(s.shape).toEqual(new Uint32Array([2, 3]));
+      expect(s.to_nested_array()).toEqual([[0, 4, 8], [12, 16, 20]]);
+    });
+
+    test('ellipsis string.', function () {
+      const s = a.slice(1, '...', [1, 3]);
+      expect(s.shape).toEqual(new Uint32Array([3, 2]));
+      expect(s.g(2, 1)).toBe(22);
+    });
+
+    test('empty ellipsis.', function () {
+      const s = a.slice(0, 1, numts.ELLIPSIS, [1, 3]);
+      expect(s.to_nested_array()).toEqual([5, 6]);
+    });
+
+    test('newaxis.', function () {
+      const s = a.slice(null, numts.NEWAXIS);
+      expect(s.shape).toEqual(new Uint32Array([2, 1, 3, 4]));
+      expect(s.g(1, 0, 2, 3)).toBe(23);
+    });
+
+    test('newaxis after dropped dimension.', function () {
+      const s = a.slice(0, numts.NEWAXIS, numts.ELLIPSIS, numts.NEWAXIS);
+      expect(s.shape).toEqual(new Uint32Array([1, 3, 4, 1]));
+    });
+
+    test('set through ellipsis.', function () {
+      let b = numts.arange(6).reshape(2, 3);
+      b.s(-1, numts.ELLIPSIS, 1);
+      expect(b.to_nested_array()).toEqual([[0, -1, 2], [3, -1, 5]]);
+    });
+
+    test('two ellipses.', function () {
+      expect(() => a.slice(numts.ELLIPSIS, 0, numts.ELLIPSIS)).toThrow();
+    });
+  });
+
+  describe('at.', function () {
+    const a = numts.arange(24).reshape(2, 3, 4);
+
+    test('numpy-style string.', function () {
+      const s = a.at('1, :2, ::2');
+      expect(s.to_nested_array()).toEqual([[12, 14], [16, 18]]);
+    });
+
+    test('negative indices.', function () {
+      const s = a.at('-1, 1:, -1');
+      expect(s.to_nested_array()).toEqual([19, 23]);
+    });
+
+    test('brackets, ellipsis and None.', function () {
+      const s = a.at('[..., None, 1:3]');
+      expect(s.shape).toEqual(new Uint32Array([2, 3, 1, 2]));
+      expect(s.g(1, 2, 0, 1)).toBe(22);
+    });
+
+    test('set_at.', function () {
+      let b = numts.arange(6).reshape(2, 3);
+      b.set_at(':, 1:', numts.from_nested_array([10, 20], 'int32'));
+      expect(b.to_nested_array()).toEqual([[0, 10, 20], [3, 10, 20]]);
+    });
+
+    test('invalid strings.', function () {
+      expect(() => a.at('1:2:3:4')).toThrow();
+      expect(() => a.at('a')).toThrow();
+      expect(() => a.at('::0')).toThrow();
+    });
+  });
+
+  describe('negative steps.', function () {
+    const a = numts.arange(12).reshape(3, 4);
+
+    test('reverse an axis.', function () {
+      const s = a.slice([-1, null, -1]);
+      expect(s.is_view).toBe(true);
+      expect(s.stride[0]).toBeLessThan(0);
+      expect(s.to_nested_array()).toEqual([[8, 9, 10, 11], [4, 5, 6, 7], [0, 1, 2, 3]]);
+    });
+
+    test('step of two.', function () {
+      const s = a.slice(null, [null, null, -2]);
+      expect(s.to_nested_array()).toEqual([[3, 1], [7, 5], [11, 9]]);
+    });
+
+    test('bounded.', function () {
+      const s = a.slice(1, [2, 0, -1]);
+      expect(s.to_nested_array()).toEqual([6, 5]);
+    });
+
+    test('empty.', function () {
+      const s = a.slice(null, [1, 3, -1]);
+      expect(s.shape).toEqual(new Uint32Array([3, 0]));
+      expect(s.length).toBe(0);
+    });
+
+    test('stop before start without a step is empty.', function () {
+      const s = numts.arange(5).slice([3, 1]);
+      expect(s.shape).toEqual(new Uint32Array([0]));
+      expect(s.shape).toEqual(numts.arange(5).at('3:1').shape);
+    });
+
+    test('string.', function () {
+      expect(a.at('::-1, -2::-2').to_nested_array()).toEqual([[10, 8], [6, 4], [2, 0]]);
+    });
+
+    test('slice of a reversed view.', function () {
+      const s = a.slice(null, [null, null, -1]).slice([1, 3], [1, 3]);
+      expect(s.to_nested_array()).toEqual([[6, 5], [10, 9]]);
+    });
+
+    test('set through a reversed view.', function () {
+      let b = numts.arange(4);
+      b.slice([null, null, -1]).s(-1, 0);
+      expect(b.to_nested_array()).toEqual([0, 1, 2, -1]);
+    });
+  });
+
+  describe('flip.', function () {
+    const a = numts.arange(6).reshape(2, 3);
+
+    test('one axis.', function () {
+      expect(a.flip(1).to_nested_array()).toEqual([[2, 1, 0], [5, 4, 3]]);
+      expect(a.flip(-2).to_nested_array()).toEqual([[3, 4, 5], [0, 1, 2]]);
+    });
+
+    test('all axes.', function () {
+      const f = a.flip();
+      expect(f.data).toBe(a.data);
+      expect(f.to_nested_array()).toEqual([[5, 4, 3], [2, 1, 0]]);
+    });
+
+    test('map and arithmetic on a flipped view.', function () {
+      const f = a.flip(1);
+      expect(f.map(e => e * 2).to_nested_array()).toEqual([[4, 2, 0], [10, 8, 6]]);
+      expect(f.add(a).to_nested_array()).toEqual([[2, 2, 2], [8, 8, 8]]);
+      expect(f.transpose().reshape(6).to_nested_array()).toEqual([2, 5, 1, 4, 0, 3]);
+    });
+
+    test('invalid axis.', function () {
+      expect(() => a.flip(2)).toThrow(errors.BadShape);
+    });
+  });
+
   describe('reshape.', function () {
     test('array passed', function () {
       let start = numts.from_nested_array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]);
@@ -323,10 +471,48 @@ describe('Slicing.', function () {
     test('spread.', function () {
       const array = numts.arange(10).reshape(2, 5);
       expect(array.shape).toEqual(new Uint32Array([2, 5]));
-      expect(array).toEqual(numts.from_nested_array([
+      expect(array.equals(numts.from_nested_array([
         [0, 1, 2, 3, 4],
         [5, 6, 7, 8, 9]
-      ], 'int32'));
+      ], 'int32'))).toBe(true);
+    });
+
+    test('returns a view.', function () {
+      const array = numts.arange(12);
+      const reshaped = array.reshape(3, 4);
+      expect(reshaped.is_view).toBe(true);
+      expect(reshaped.data).toBe(array.data);
+      reshaped.s(-1, 1, 1);
+      expect(array.g(5)).toBe(-1);
+    });
+
+    test('views of new tensors.', function () {
+      const zeros = numts.zeros([4, 6]);
+      expect(zeros.reshape(24).data).toBe(zeros.data);
+      const nested = numts.from_nested_array([[1, 2, 3], [4, 5, 6]]);
+      const reshaped = nested.reshape(3, 2);
+      expect(reshaped.data).toBe(nested.data);
+      expect(reshaped.to_nested_array()).toEqual([[1, 2], [3, 4], [5, 6]]);
+      const sum = nested.add(1);
+      expect(sum.reshape(6).data).toBe(sum.data);
+      expect(sum.reshape(6).to_nested_array()).toEqual([2, 3, 4, 5, 6, 7]);
+      const complex = numts.from_iterable([[1, 2], [3, 4], [5, 6], [7, 8]], [2, 2], 'complex128');
+      expect(complex.reshape(4).data).toBe(complex.data);
+      expect(complex.reshape(4).to_nested_array()).toEqual([[1, 2], [3, 4], [5, 6], [7, 8]]);
+    });
+
+    test('view of a slice.', function () {
+      const array = numts.arange(24).reshape(4, 6).slice([1, 3]);
+      const reshaped = array.reshape(3, 4);
+      expect(reshaped.data).toBe(array.data);
+      expect(reshaped.to_nested_array()).toEqual([[6, 7, 8, 9], [10, 11, 12, 13], [14, 15, 16, 17]]);
+    });
+
+    test('copies when it has to.', function () {
+      const array = numts.arange(6).reshape(2, 3).transpose();
+      const reshaped = array.reshape(6);
+      expect(reshaped.is_view).toBe(false);
+      expect(reshaped.to_nested_array()).toEqual([0, 3, 1, 4, 2, 5]);
     });
   });
 
@@ -347,6 +533,151 @@ describe('Slicing.', function () {
   });
 });
 
+describe('Fancy indexing.', function () {
+  const a = numts.arange(12).reshape(4, 3);
+
+  describe('take.', function () {
+    test('rows.', function () {
+      const rows = a.take([3, 0, 3], 0);
+      expect(rows.to_nested_array()).toEqual([[9, 10, 11], [0, 1, 2], [9, 10, 11]]);
+    });
+
+    test('columns with a tensor.', function () {
+      const columns = a.take(numts.from_nested_array([-1, 0], 'int32'), 1);
+      expect(columns.to_nested_array()).toEqual([[2, 0], [5, 3], [8, 6], [11, 9]]);
+    });
+
+    test('nested indices.', function () {
+      const result = a.take([[0, 1], [2, 3]], 0);
+      expect(result.shape).toEqual(new Uint32Array([2, 2, 3]));
+      expect(result.to_nested_array()[1][0]).toEqual([6, 7, 8]);
+    });
+
+    test('flattened.', function () {
+      expect(a.take([0, 4, 11]).to_nested_array()).toEqual([0, 4, 11]);
+    });
+
+    test('out of bounds.', function () {
+      expect(() => a.take([4], 0)).toThrow(errors.IndexOutOfBounds);
+    });
+  });
+
+  describe('index.', function () {
+    test('without tensors is a slice.', function () {
+      const result = a.index([[1, 3]]);
+      expect(result.is_view).toBe(true);
+      expect(result.to_nested_array()).toEqual([[3, 4, 5], [6, 7, 8]]);
+    });
+
+    test('broadcast index arrays.', function () {
+      const rows = numts.from_nested_array([[0], [3]], 'int32');
+      const columns = numts.from_nested_array([0, 2], 'int32');
+      const result = a.index([rows, columns]);
+      expect(result.to_nested_array()).toEqual([[0, 2], [9, 11]]);
+    });
+
+    test('pairs of indices.', function () {
+      const rows = numts.from_nested_array([0, 1, 2], 'int32');
+      const result = a.index([rows, rows]);
+      expect(result.to_nested_array()).toEqual([0, 4, 8]);
+    });
+
+    test('mixed with slices.', function () {
+      const b = numts.arange(24).reshape(2, 3, 4);
+      const result = b.index([null, numts.from_nested_array([2, 0], 'int32'), [1, 3]]);
+      expect(result.shape).toEqual(new Uint32Array([2, 2, 2]));
+      expect(result.to_nested_array()).toEqual([[[9, 10], [1, 2]], [[21, 22], [13, 14]]]);
+    });
+
+    test('separated index arrays go first.', function () {
+      const b = numts.arange(24).reshape(2, 3, 4);
+      const index = numts.from_nested_array([1, 0], 'int32');
+      const result = b.index([index, null, index]);
+      expect(result.shape).toEqual(new Uint32Array([2, 3]));
+      expect(result.to_nested_array()).toEqual([[13, 17, 21], [0, 4, 8]]);
+    });
+  });
+
+  describe('set.', function () {
+    test('scalar.', function () {
+      let b = numts.arange(12).reshape(4, 3);
+      b.s(-1, numts.from_nested_array([0, 2], 'int32'));
+      expect(b.to_nested_array()).toEqual([[-1, -1, -1], [3, 4, 5], [-1, -1, -1], [9, 10, 11]]);
+    });
+
+    test('broadcast values.', function () {
+      let b = numts.arange(12).reshape(4, 3);
+      b.s(numts.from_nested_array([100, 200], 'int32'), null, numts.from_nested_array([0, 1], 'int32'));
+      expect(b.to_nested_array()).toEqual([[100, 200, 2], [100, 200, 5], [100, 200, 8], [100, 200, 11]]);
+    });
+  });
+});
+
+describe('Mask indexing.', function () {
+  const binary_ops = require('../numts/tensor_core/binary_ops');
+
+  test('mask.', function () {
+    const a = numts.arange(12).reshape(3, 4);
+    const selected = a.mask(binary_ops._gt(a, 6));
+    expect(selected.shape).toEqual(new Uint32Array([5]));
+    expect(selected.dtype).toBe('int32');
+    expect(selected.to_nested_array()).toEqual([7, 8, 9, 10, 11]);
+  });
+
+  test('mask on a view.', function () {
+    const a = numts.arange(12).reshape(3, 4).transpose();
+    const selected = a.mask(binary_ops._eq(binary_ops._mod(a, 2), 0));
+    expect(selected.to_nested_array()).toEqual([0, 4, 8, 2, 6, 10]);
+  });
+
+  test('broadcast mask.', function () {
+    const a = numts.arange(6).reshape(2, 3);
+    const condition = numts.from_nested_array([1, 0, 1], 'uint8');
+    expect(a.mask(condition).to_nested_array()).toEqual([0, 2, 3, 5]);
+  });
+
+  test('put_mask with a scalar.', function () {
+    let a = numts.arange(6).reshape(2, 3);
+    a.put_mask(binary_ops._lt(a, 2), -1);
+    expect(a.to_nested_array()).toEqual([[-1, -1, 2], [3, 4, 5]]);
+  });
+
+  test('put_mask with broadcast values.', function () {
+    let a = numts.arange(6).reshape(2, 3);
+    a.put_mask(binary_ops._ge(a, 2), numts.from_nested_array([10, 20, 30], 'int32'));
+    expect(a.to_nested_array()).toEqual([[0, 1, 30], [10, 20, 30]]);
+  });
+
+  test('set through s.', function () {
+    let a = numts.arange(6).reshape(2, 3);
+    a.s(0, a.eq(4));
+    expect(a.to_nested_array()).toEqual([[0, 1, 2], [3, 0, 5]]);
+  });
+
+  test('bool index along an axis.', function () {
+    const a = numts.arange(4).reshape(2, 2);
+    const rows = numts.from_nested_array([0, 1], 'bool');
+    expect(a.index([rows]).to_nested_array()).toEqual([[2, 3]]);
+    expect(a.index([null, rows]).to_nested_array()).toEqual([[1], [3]]);
+  });
+
+  test('bool index with the full shape.', function () {
+    const a = numts.arange(6).reshape(2, 3);
+    expect(a.index([binary_ops._gt(a, 2)]).to_nested_array()).toEqual([3, 4, 5]);
+  });
+
+  test('set through a bool index along an axis.', function () {
+    let a = numts.arange(4).reshape(2, 2);
+    a.s(-1, numts.from_nested_array([0, 1], 'bool'));
+    expect(a.to_nested_array()).toEqual([[0, 1], [-1, -1]]);
+  });
+
+  test('bool index with the wrong size.', function () {
+    const a = numts.arange(6).reshape(2, 3);
+    expect(() => a.index([numts.from_nested_array([1, 0, 1], 'bool')])).toThrow();
+  });
+});
+
 describe('Methods.', function () {
 
   describe('set', function() {
@@ -470,8 +801,9 @@ describe('Aggregation.', function () {
         [1, 1, 1]
       ], 'int32');
       expect(a.all()).toBe(false);
-      expect(a.all(0).data).toEqual(new Int32Array([0, 0, 1]));
-      expect(a.all(1).data).toEqual(new Int32Array([0, 1]));
+      expect(a.all(0).dtype).toBe('bool');
+      expect(a.all(0).data).toEqual(new Uint8Array([0, 0, 1]));
+      expect(a.all(1).data).toEqual(new Uint8Array([0, 1]));
     });
   });
 
@@ -482,8 +814,9 @@ describe('Aggregation.', function () {
         [0, 1, 1]
       ], 'int32');
       expect(a.any()).toBe(true);
-      expect(a.any(0).data).toEqual(new Int32Array([0, 1, 1]));
-      expect(a.any(1).data).toEqual(new Int32Array([1, 1]));
+      expect(a.any(0).dtype).toBe('bool');
+      expect(a.any(0).data).toEqual(new Uint8Array([0, 1, 1]));
+      expect(a.any(1).data).toEqual(new Uint8Array([1, 1]));
     });
   });
 
@@ -599,6 +932,28 @@ describe('Method constructors.', function() {
       expect(b.equals(expected)).toBe(true);
     });
 
+    test('Is a view.', function() {
+      const a = numts.arange(6).reshape(2, 3);
+      const b = a.transpose();
+      expect(b.data).toBe(a.data);
+      expect(b.shape).toEqual(new Uint32Array([3, 2]));
+      expect(b.g(2, 1)).toBe(5);
+    });
+
+    test('Permutation.', function() {
+      const a = numts.arange(24).reshape(2, 3, 4);
+      const b = a.transpose(1, 2, 0);
+      expect(b.shape).toEqual(new Uint32Array([3, 4, 2]));
+      expect(b.g(2, 1, 1)).toBe(a.g(1, 2, 1));
+      expect(a.transpose(-1, 0, 1).shape).toEqual(new Uint32Array([4, 2, 3]));
+    });
+
+    test('Bad axes.', function() {
+      const a = numts.arange(24).reshape(2, 3, 4);
+      expect(() => a.transpose(0, 0, 1)).toThrow(errors.BadShape);
+      expect(() => a.transpose(0, 1)).toThrow(errors.BadShape);
+    });
+
     describe('Failures.', function() {
       test('Failed in QR decomp', function() {
         const a = numts.from_nested_array([[0], [1], [0.5345224838248488], [0.8017837257372732]]);
@@ -42,6 +42,16 @@ describe("utils.", function () {
 
   it("is_numeric.", function () {
     expect(utils.is_numeric(new Uint32Array(0))).toBe(false);
+    expect(utils.is_numeric(NaN)).toBe(true);
+  });
+
+  it("dtype_range.", function () {
+    expect(utils.dtype_range("int8")).toEqual([-128, 127]);
+    expect(utils.dtype_range("uint16")).toEqual([0, 65535]);
+    expect(utils.dtype_range("bool")).toEqual([0, 1]);
+    expect(utils.dtype_range("int64")).toEqual([-(BigInt(2) ** BigInt(63)), BigInt(2) ** BigInt(63) - BigInt(1)]);
+    expect(utils.dtype_range("uint64")[1]).toBe(BigInt(2) ** BigInt(64) - BigInt(1));
+    expect(() => utils.dtype_range("float32")).toThrow();
   });
 
   describe("_dtype_join.", function () {
@@ -54,7 +64,100 @@ describe("utils.", function () {
 
     it("Common types.", function () {
       expect(utils._dtype_join("int32", "float32")).toBe("float64");
-      expect(utils._dtype_join("int32", "uint32")).toBe("float64");
+      expect(utils._dtype_join("int32", "uint32")).toBe("int64");
+    });
+
+    it("Mixed signedness.", function () {
+      expect(utils._dtype_join("int8", "uint8")).toBe("int16");
+      expect(utils._dtype_join("uint8", "int16")).toBe("int16");
+      expect(utils._dtype_join("int8", "uint16")).toBe("int32");
+      expect(utils._dtype_join("uint32", "int16")).toBe("int64");
+      expect(utils._dtype_join("uint8", "uint8c")).toBe("uint8");
+    });
+
+    it("Integers and floats.", function () {
+      expect(utils._dtype_join("uint8", "float32")).toBe("float32");
+      expect(utils._dtype_join("int16", "float32")).toBe("float32");
+      expect(utils._dtype_join("uint32", "float32")).toBe("float64");
+      expect(utils._dtype_join("bool", "float16")).toBe("float16");
+    });
+
+    it("Unknown dtypes.", function () {
+      expect(() => utils._dtype_join("int32", "int128")).toThrow();
+    });
+
+    it("64-bit integer types.", function () {
+      expect(utils._dtype_join("int64", "int32")).toBe("int64");
+      expect(utils._dtype_join("uint32", "int64")).toBe("int64");
+      expect(utils._dtype_join("uint64", "uint16")).toBe("uint64");
+      expect(utils._dtype_join("uint64", "int8")).toBe("float64");
+      expect(utils._dtype_join("int64", "uint64")).toBe("float64");
+      expect(utils._dtype_join("int64", "float32")).toBe("float64");
+      expect(utils._dtype_join("int64", "complex64")).toBe("complex128");
+    });
+
+    it("bool.", function () {
+      expect(utils._dtype_join("bool", "bool")).toBe("bool");
+      expect(utils._dtype_join("bool", "int8")).toBe("int8");
+      expect(utils._dtype_join("float32", "bool")).toBe("float32");
+    });
+
+    it("Complex types.", function () {
+      expect(utils._dtype_join("complex64", "complex64")).toBe("complex64");
+      expect(utils._dtype_join("complex64", "float32")).toBe("complex64");
+      expect(utils._dtype_join("int16", "complex64")).toBe("complex64");
+      expect(utils._dtype_join("complex64", "int32")).toBe("complex128");
+      expect(utils._dtype_join("complex64", "float64")).toBe("complex128");
+      expect(utils._dtype_join("complex64", "complex128")).toBe("complex128");
+    });
+
+    it("Half precision types.", function () {
+      expect(utils._dtype_join("float16", "float16")).toBe("float16");
+      expect(utils._dtype_join("uint8", "bfloat16")).toBe("bfloat16");
+      expect(utils._dtype_join("float16", "bfloat16")).toBe("float32");
+      expect(utils._dtype_join("float16", "int16")).toBe("float32");
+      expect(utils._dtype_join("int32", "bfloat16")).toBe("float64");
+      expect(utils._dtype_join("float16", "int64")).toBe("float64");
+      expect(utils._dtype_join("float16", "complex64")).toBe("complex64");
+    });
+  });
+
+  describe("Half precision encoding.", function () {
+    it("float16.", function () {
+      expect(utils.encode_half(1, "float16")).toBe(0x3c00);
+      expect(utils.encode_half(-2, "float16")).toBe(0xc000);
+      expect(utils.encode_half(0.1, "float16")).toBe(0x2e66);
+      expect(utils.encode_half(65504, "float16")).toBe(0x7bff);
+      expect(utils.encode_half(-0, "float16")).toBe(0x8000);
+    });
+
+    it("Rounds to nearest even.", function () {
+      expect(utils.encode_half(1 + 2 ** -11, "float16")).toBe(0x3c00);
+      expect(utils.encode_half(1 + 3 * 2 ** -11, "float16")).toBe(0x3c02);
+      expect(utils.encode_half(2 ** -25, "float16")).toBe(0);
+      expect(utils.encode_half(3 * 2 ** -26, "float16")).toBe(1);
+      expect(utils.encode_half(65520, "float16")).toBe(0x7c00);
+    });
+
+    it("Special values.", function () {
+      expect(utils.encode_half(Infinity, "float16")).toBe(0x7c00);
+      expect(utils.encode_half(-Infinity, "bfloat16")).toBe(0xff80);
+      expect(Number.isNaN(utils.decode_half(utils.encode_half(NaN, "float16"), "float16"))).toBe(true);
+      expect(utils.decode_half(0x0001, "float16")).toBe(2 ** -24);
+      expect(utils.decode_half(0x7c00, "float16")).toBe(Infinity);
+    });
+
+    it("bfloat16.", function () {
+      expect(utils.encode_half(1, "bfloat16")).toBe(0x3f80);
+      expect(utils.encode_half(0.1, "bfloat16")).toBe(0x3dcd);
+      expect(utils.encode_half(1e39, "bfloat16")).toBe(0x7f80);
+      expect(utils.decode_half(0x3dcd, "bfloat16")).toBe(0.10009765625);
+    });
+
+    it("Round trips.", function () {
+      for (let bits = 0; bits < 0x7c00; bits += 7) {
+        expect(utils.encode_half(utils.decode_half(bits, "float16"), "float16")).toBe(bits);
+      }
     });
   });
 });